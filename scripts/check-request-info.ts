@@ -0,0 +1,134 @@
+/**
+ * Request Info End-to-End Check
+ *
+ * Runs the /api/request-info route handler against the in-memory HubSpot fake
+ * (see src/lib/hubspotFake.ts) and checks what reaches HubSpot:
+ *
+ * 1. A valid inquiry creates the Contact, sets consent and associates it with
+ *    the Listing using the "Interested Buyer" label
+ * 2. During a HubSpot outage the inquiry is queued (202), and a replay from
+ *    the outbox delivers it once HubSpot recovers
+ * 3. An invalid inquiry is rejected before anything is sent to HubSpot
+ *
+ * Usage:
+ *   npm run check-request-info
+ *
+ * Always uses the fake and a temporary outbox directory, so it needs no
+ * HubSpot portal and leaves nothing behind. Exits with status 1 when any
+ * check fails.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+let failures = 0;
+
+function check(description: string, passed: boolean, detail?: unknown): void {
+  console.log(`  ${passed ? 'ok  ' : 'FAIL'} ${description}`);
+  if (!passed) {
+    failures++;
+    if (detail !== undefined) {
+      console.log(`       ${JSON.stringify(detail)}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const outboxDir = await mkdtemp(path.join(os.tmpdir(), 'request-info-outbox-'));
+
+  // Set before the modules below read their configuration
+  process.env.HUBSPOT_TRANSPORT = 'fake';
+  process.env.REQUEST_INFO_OUTBOX_DIR = outboxDir;
+  process.env.LOG_LEVEL ??= 'error';
+
+  try {
+    const { NextRequest } = await import('next/server');
+    const { POST } = await import('../src/app/api/request-info/route');
+    const { properties } = await import('../src/data/properties');
+    const { getContactListingAssociationTypeId } = await import('../src/lib/hubspotAssociations');
+    const { getSharedFakeHubSpot } = await import('../src/lib/hubspotFake');
+    const { replaySubmission } = await import('../src/lib/requestInfoOutbox');
+    const { issueFormToken } = await import('../src/lib/spamProtection');
+
+    const fake = getSharedFakeHubSpot();
+    const property = properties[0];
+
+    const submit = async (payload: Record<string, unknown>) => {
+      const response = await POST(
+        new NextRequest('http://localhost/api/request-info', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        })
+      );
+      return { status: response.status, body: await response.json() };
+    };
+
+    // As if the form had been shown five seconds ago
+    const formToken = await issueFormToken(Date.now() - 5000);
+
+    const inquiry = (email: string) => ({
+      firstname: 'Casey',
+      lastname: 'Check',
+      email,
+      phone: '(202) 555-0143',
+      external_listing_id: property.id,
+      marketing_opt_in: true,
+      pageUri: `http://localhost/properties/${property.id}`,
+      pageName: 'Request info check',
+      website: '',
+      form_token: formToken,
+    });
+
+    const findAssociation = (email: string) => {
+      const contact = fake.findContactByEmail(email);
+      const listing = Array.from(fake.objects.listings.values()).find(
+        record => record.properties.external_listing_id === property.id
+      );
+      return contact && listing
+        ? fake.getAssociations('contacts', contact.id, 'listings').find(association => association.toId === listing.id)
+        : undefined;
+    };
+
+    console.log('Valid inquiry');
+    const delivered = await submit(inquiry('delivered@example.com'));
+    check('responds 200', delivered.status === 200, delivered.body);
+    check('completes every step', Object.values(delivered.body.details ?? {}).every(Boolean), delivered.body.details);
+    check('creates the Contact', Boolean(fake.findContactByEmail('delivered@example.com')));
+    check(
+      'associates the Contact with the Listing as an interested buyer',
+      findAssociation('delivered@example.com')?.associationTypeId === getContactListingAssociationTypeId('interested-buyer')
+    );
+
+    console.log('HubSpot outage');
+    // One failure per attempt the client makes at the form submission (4 by default)
+    fake.queueFailures(...Array.from({ length: 4 }, () => ({ status: 503 })));
+    const queued = await submit(inquiry('queued@example.com'));
+    check('responds 202', queued.status === 202, queued.body);
+    check('does not create the Contact yet', !fake.findContactByEmail('queued@example.com'));
+
+    const replayed = await replaySubmission(queued.body.submissionId);
+    check('delivers it on replay', replayed?.status === 'completed', replayed);
+    check('associates it after the replay', Boolean(findAssociation('queued@example.com')));
+
+    console.log('Invalid inquiry');
+    const submissionsBefore = fake.formSubmissions.length;
+    const rejected = await submit({ ...inquiry(''), email: 'not-an-email' });
+    check('responds 400 VALIDATION_FAILED', rejected.status === 400 && rejected.body.code === 'VALIDATION_FAILED', rejected.body);
+    check('sends nothing to HubSpot', fake.formSubmissions.length === submissionsBefore);
+  } finally {
+    await rm(outboxDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('All request-info checks passed');
+}
+
+main().catch(error => {
+  console.error('Request-info check failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+/**
+ * Property Catalog Import Script
+ *
+ * Reads the raw VRM feed (properties_combined.json), normalizes every record
+ * via src/lib/propertyImport.ts and writes the site catalog to
+ * src/data/properties.generated.json, stamped with the time of the import
+ * (`importedAt`, used as the Properties API's Last-Modified).
+ *
+ * Usage:
+ *   npm run import
+ *   npm run import -- --input path/to/feed.json --output path/to/catalog.json
+ *
+ * Rejected records are reported on stderr with the reasons they were skipped.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { importPropertyFeed, RawPropertyFeed } from '../src/lib/propertyImport';
+
+const DEFAULT_INPUT = 'properties_combined.json';
+const DEFAULT_OUTPUT = 'src/data/properties.generated.json';
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+function main(): void {
+  const inputPath = path.resolve(getArg('input', DEFAULT_INPUT));
+  const outputPath = path.resolve(getArg('output', DEFAULT_OUTPUT));
+
+  const feed = JSON.parse(readFileSync(inputPath, 'utf8')) as RawPropertyFeed;
+  if (!Array.isArray(feed.properties)) {
+    throw new Error(`${inputPath} does not contain a "properties" array`);
+  }
+
+  const { properties, rejected } = importPropertyFeed(feed);
+  const photoCount = properties.reduce((total, property) => total + property.media.length, 0);
+
+  const catalog = { importedAt: new Date().toISOString(), properties };
+  writeFileSync(outputPath, `${JSON.stringify(catalog, null, 2)}\n`);
+
+  console.log(`Read ${feed.properties.length} records from ${path.relative(process.cwd(), inputPath)}`);
+  console.log(`Imported ${properties.length} properties (${photoCount} photos) to ${path.relative(process.cwd(), outputPath)}`);
+
+  if (rejected.length > 0) {
+    console.error(`Rejected ${rejected.length} records:`);
+    for (const record of rejected) {
+      console.error(`  #${record.index} (assetId ${record.assetId ?? 'n/a'}): ${record.reasons.join('; ')}`);
+    }
+  }
+}
+
+main();
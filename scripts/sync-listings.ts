@@ -0,0 +1,53 @@
+/**
+ * HubSpot Listing Sync Script
+ *
+ * Upserts the site catalog (src/data/properties.generated.json) into HubSpot
+ * Listings, keyed on external_listing_id, via src/lib/listingSync.ts.
+ *
+ * Usage:
+ *   npm run sync-listings
+ *   npm run sync-listings -- --dry-run     # report changes without writing
+ *   npm run sync-listings -- --verbose     # list every create and update
+ *
+ * Uses HUBSPOT_ACCESS_TOKEN, or the in-memory fake with HUBSPOT_TRANSPORT=fake.
+ * Exits with status 1 when any Listing could not be synced.
+ */
+
+import { properties } from '../src/data/properties';
+import { syncListings } from '../src/lib/listingSync';
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+  const verbose = process.argv.includes('--verbose');
+
+  const result = await syncListings(properties, { dryRun });
+  const prefix = dryRun ? 'Would have ' : '';
+
+  console.log(`${dryRun ? 'Dry run: ' : ''}Synced ${properties.length} catalog properties to HubSpot Listings`);
+  console.log(`  ${prefix}created:   ${result.created}`);
+  console.log(`  ${prefix}updated:   ${result.updated}`);
+  console.log(`  unchanged: ${result.unchanged}`);
+
+  if (verbose) {
+    for (const change of result.changes) {
+      if (change.action === 'create' && !change.error) {
+        console.log(`  + ${change.externalListingId}`);
+      } else if (change.action === 'update' && !change.error) {
+        console.log(`  ~ ${change.externalListingId} (Listing ${change.listingId}): ${change.changedProperties?.join(', ')}`);
+      }
+    }
+  }
+
+  if (result.failed > 0) {
+    console.error(`Failed to sync ${result.failed} Listings${result.retryable ? ' (transient; run again later)' : ''}:`);
+    for (const change of result.changes.filter(change => change.error)) {
+      console.error(`  ${change.externalListingId}: ${change.error}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
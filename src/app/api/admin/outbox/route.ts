@@ -0,0 +1,199 @@
+/**
+ * Request Info Outbox Admin API
+ *
+ * Lists and replays request-info submissions that have not been fully
+ * delivered to HubSpot (see lib/requestInfoOutbox.ts).
+ *
+ * GET  /api/admin/outbox?status=failed,pending
+ *   Lists submissions with the given statuses (default: every status except
+ *   completed), oldest first.
+ *
+ * POST /api/admin/outbox  { "ids": ["..."] }
+ *   Replays the given submissions, or every failed submission when `ids` is
+ *   omitted. Each replay gets a fresh set of attempts and resumes at the first
+ *   incomplete step.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdminRequest } from '@/lib/adminAuth';
+import { createRequestLogger } from '@/lib/logger';
+import {
+  listSubmissions,
+  replaySubmission,
+  OutboxStatus,
+  RequestInfoSubmission,
+} from '@/lib/requestInfoOutbox';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ValidationError {
+  field: string;
+  message: string;
+}
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  errors?: ValidationError[];
+  submissions?: RequestInfoSubmission[];
+  /** IDs passed to a replay that do not exist */
+  notFound?: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+const STUCK_STATUSES: OutboxStatus[] = ['pending', 'processing', 'failed'];
+
+/**
+ * Upper bound on submissions replayed per request; replays run sequentially.
+ */
+const MAX_REPLAY_IDS = 100;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function parseStatuses(value: string | null): { valid: true; statuses: OutboxStatus[] } | { valid: false; errors: ValidationError[] } {
+  if (!value) {
+    return { valid: true, statuses: STUCK_STATUSES };
+  }
+
+  const statuses = value.split(',').map(status => status.trim()).filter(Boolean);
+  const unknown = statuses.filter(status => !OUTBOX_STATUSES.includes(status as OutboxStatus));
+  if (unknown.length > 0) {
+    return {
+      valid: false,
+      errors: [{ field: 'status', message: `Unknown status: ${unknown.join(', ')}. Use one of: ${OUTBOX_STATUSES.join(', ')}` }],
+    };
+  }
+
+  return { valid: true, statuses: statuses as OutboxStatus[] };
+}
+
+function validateReplayPayload(payload: unknown): { valid: true; ids?: string[] } | { valid: false; errors: ValidationError[] } {
+  if (payload === null || payload === undefined) {
+    return { valid: true };
+  }
+
+  if (typeof payload !== 'object') {
+    return { valid: false, errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+  }
+
+  const { ids } = payload as Record<string, unknown>;
+  if (ids === undefined) {
+    return { valid: true };
+  }
+
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id.trim() !== '')) {
+    return { valid: false, errors: [{ field: 'ids', message: 'ids must be a non-empty array of submission IDs' }] };
+  }
+
+  if (ids.length > MAX_REPLAY_IDS) {
+    return { valid: false, errors: [{ field: 'ids', message: `At most ${MAX_REPLAY_IDS} submissions can be replayed at once` }] };
+  }
+
+  return { valid: true, ids: Array.from(new Set(ids.map(id => id.trim()))) };
+}
+
+// ============================================================================
+// API Handlers
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const authorization = authorizeAdminRequest(request);
+  if (!authorization.authorized) {
+    return NextResponse.json({ success: false, message: authorization.message }, { status: authorization.status });
+  }
+
+  const parsed = parseStatuses(request.nextUrl.searchParams.get('status'));
+  if (!parsed.valid) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: parsed.errors },
+      { status: 400 }
+    );
+  }
+
+  const logger = createRequestLogger(request, '/api/admin/outbox');
+
+  try {
+    const submissions = await listSubmissions(parsed.statuses);
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Found ${submissions.length} submission(s)`,
+        submissions,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error listing outbox submissions', { error });
+    return NextResponse.json({ success: false, message: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const authorization = authorizeAdminRequest(request);
+  if (!authorization.authorized) {
+    return NextResponse.json({ success: false, message: authorization.message }, { status: authorization.status });
+  }
+
+  const logger = createRequestLogger(request, '/api/admin/outbox');
+
+  try {
+    // An empty body replays every failed submission
+    const text = await request.text();
+    let body: unknown = null;
+    if (text.trim()) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = '';
+      }
+    }
+
+    const validation = validateReplayPayload(body);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const ids = validation.ids
+      ?? (await listSubmissions(['failed'])).slice(0, MAX_REPLAY_IDS).map(submission => submission.id);
+
+    const submissions: RequestInfoSubmission[] = [];
+    const notFound: string[] = [];
+    for (const id of ids) {
+      const submission = await replaySubmission(id);
+      if (submission) {
+        submissions.push(submission);
+      } else {
+        notFound.push(id);
+      }
+    }
+
+    const completed = submissions.filter(submission => submission.status === 'completed').length;
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Replayed ${submissions.length} submission(s); ${completed} completed`,
+        submissions,
+        ...(notFound.length > 0 ? { notFound } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error replaying outbox submissions', { error });
+    return NextResponse.json({ success: false, message: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Contact API Endpoint
+ *
+ * This server-side API endpoint handles general inquiries that are not about
+ * a specific listing (the /contact page). It replaces the browser posting
+ * directly to the HubSpot Forms API, so failures reach the visitor instead of
+ * being hidden behind a success message:
+ *
+ * 1. Validates the payload against the shared inquiry schema (lib/inquirySchema.ts)
+ * 2. Creates/updates a Contact in HubSpot via Forms API, including the message
+ * 3. Resolves the Contact ID and marks the Contact as marketing-eligible
+ *
+ * Submissions must pass the same spam checks as /api/request-info (see
+ * lib/spamProtection.ts); the rate limits are shared between both endpoints.
+ *
+ * All HubSpot identifiers are read from environment variables to keep the
+ * codebase safe for public repositories.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  submitContactToHubSpot,
+  resolveSubmittedContact,
+  updateMarketingConsent,
+} from '@/lib/hubspot';
+import { ContactInquiryPayload, InquiryFieldError, validateContactInquiryPayload } from '@/lib/inquirySchema';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger } from '@/lib/logger';
+import {
+  checkBotSignals,
+  checkEmailRateLimit,
+  checkIpRateLimit,
+  getClientIp,
+  SPAM_CHECK_HTTP_STATUS,
+  SpamCheckCode,
+  SpamCheckResult,
+} from '@/lib/spamProtection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ErrorCode = 'VALIDATION_FAILED' | SpamCheckCode;
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  /** Set when the submission is rejected, so clients can tell the reasons apart */
+  code?: ErrorCode;
+  errors?: InquiryFieldError[];
+  details?: {
+    contactSubmitted: boolean;
+    marketingConsentSet: boolean;
+  };
+}
+
+// ============================================================================
+// Spam Checks
+// ============================================================================
+
+/**
+ * Builds the rejection response for a failed spam check.
+ */
+function rejectSubmission(
+  check: Exclude<SpamCheckResult, { passed: true }>,
+  logger: Logger
+): NextResponse<ApiResponse> {
+  logger.warn('Contact submission rejected by spam checks', { code: check.code });
+
+  const response = NextResponse.json<ApiResponse>(
+    { success: false, code: check.code, message: check.message },
+    { status: SPAM_CHECK_HTTP_STATUS[check.code] }
+  );
+  if (check.retryAfterSeconds !== undefined) {
+    response.headers.set('Retry-After', String(check.retryAfterSeconds));
+  }
+  return response;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/contact');
+  const response = await handleContact(request, logger);
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleContact(request: NextRequest, logger: Logger): Promise<NextResponse<ApiResponse>> {
+  try {
+    // Every request counts against the IP limit, whether or not it is valid
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = checkIpRateLimit(clientIp);
+    if (!ipLimit.passed) {
+      return rejectSubmission(ipLimit, logger);
+    }
+
+    // Parse the request body
+    const body = await request.json().catch(() => null);
+
+    // Validate the payload with the schema shared with PropertyInquiryForm
+    const validation = validateContactInquiryPayload(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: 'VALIDATION_FAILED',
+          message: 'Validation failed',
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const botCheck = await checkBotSignals(body as Record<string, unknown>, clientIp);
+    if (!botCheck.passed) {
+      return rejectSubmission(botCheck, logger);
+    }
+
+    // Only submissions that look human count against the email's limit
+    const emailLimit = checkEmailRateLimit(validation.data.email);
+    if (!emailLimit.passed) {
+      return rejectSubmission(emailLimit, logger);
+    }
+
+    const formData: ContactInquiryPayload = validation.data;
+
+    // Track the status of each step for detailed response
+    const details = {
+      contactSubmitted: false,
+      marketingConsentSet: false,
+    };
+
+    // Step 1: Submit contact and message to HubSpot Forms API (email-based dedupe)
+    const contactResult = await submitContactToHubSpot(formData, logger);
+
+    if (!contactResult.success) {
+      logger.error('Failed to submit contact inquiry to HubSpot', { error: contactResult.error });
+      return NextResponse.json(
+        {
+          success: false,
+          message: contactResult.retryable
+            ? 'We could not send your message right now. Please try again in a few minutes.'
+            : 'We could not send your message. Please try again later or call us.',
+          details,
+        },
+        { status: contactResult.retryable ? 503 : 500 }
+      );
+    }
+
+    details.contactSubmitted = true;
+
+    // Step 2: Wait for the Forms API to create the contact (never creating a
+    // second one), then set marketing consent. The message has already been
+    // delivered, so failures here are logged rather than returned.
+    const resolveResult = await resolveSubmittedContact(formData.email, contactResult.contactId, logger);
+    const contactId = resolveResult.contactId;
+
+    if (!contactId) {
+      logger.warn('Failed to resolve submitted contact', { error: resolveResult.error });
+    } else {
+      const consentResult = await updateMarketingConsent(contactId, logger);
+      if (!consentResult.success) {
+        logger.warn('Failed to set marketing consent', { contactId, error: consentResult.error });
+      } else {
+        details.marketingConsentSet = true;
+      }
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Message sent successfully',
+        details,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in contact API', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse<ApiResponse>> {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Method not allowed. Use POST to submit form data.',
+    },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Form Token Endpoint
+ *
+ * GET /api/form-token
+ *   Issues a signed form token (see lib/spamProtection.ts). The inquiry forms
+ *   fetch one when they are shown and send it back as `form_token`; the
+ *   submission routes reject tokens younger than MIN_SUBMIT_TIME_MS, so the
+ *   time-to-submit check no longer relies on the browser's own clock.
+ *
+ * Pages are statically rendered, so the token cannot be embedded in the
+ * page itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CORRELATION_ID_HEADER, createRequestLogger } from '@/lib/logger';
+import { issueFormToken } from '@/lib/spamProtection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  token?: string;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/form-token');
+
+  const response = NextResponse.json<ApiResponse>({
+    success: true,
+    message: 'OK',
+    token: await issueFormToken(),
+  });
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
@@ -0,0 +1,107 @@
+/**
+ * HubSpot Health Check Endpoint
+ *
+ * GET /api/health/hubspot
+ *   Verifies the HubSpot integration end to end (see checkHubSpotHealth() in
+ *   lib/hubspot.ts): the configuration, the access token's portal and
+ *   scopes, the form GUID, read access to Listings and the association
+ *   labels. Responds 200 when every check passes (warnings included) and 503
+ *   when one fails because of the configuration (missing scopes, a rejected
+ *   token, mismatched labels). A transient HubSpot failure (rate limiting, an
+ *   outage) responds 200 with status "degraded": leads are queued in the
+ *   outbox meanwhile, so the site itself is still healthy.
+ *
+ * The platform health check uses GET /api/health, which makes no HubSpot
+ * calls; poll this endpoint from monitoring.
+ *
+ * Each check costs a HubSpot API call, so results are cached for
+ * HEALTH_CHECK_CACHE_MS; `checkedAt` tells when they were taken.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { checkHubSpotHealth, HubSpotHealthCheck } from '@/lib/hubspot';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - healthy: every check passed
+ * - degraded: only transient HubSpot failures
+ * - unhealthy: a check failed because of the configuration
+ */
+type HubSpotHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  status?: HubSpotHealthStatus;
+  checks?: HubSpotHealthCheck[];
+  /** ISO timestamp of when the checks ran */
+  checkedAt?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How long a result is reused, so frequent polling does not use HubSpot API
+ * quota continuously.
+ */
+const HEALTH_CHECK_CACHE_MS = 30 * 1000;
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+let cachedResult: { body: ApiResponse; status: number; expiresAt: number } | undefined;
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/health/hubspot');
+  const response = await handleHubSpotHealth(logger);
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleHubSpotHealth(logger: Logger): Promise<NextResponse<ApiResponse>> {
+  const now = Date.now();
+  if (cachedResult && cachedResult.expiresAt > now) {
+    return NextResponse.json(cachedResult.body, { status: cachedResult.status });
+  }
+
+  try {
+    const result = await checkHubSpotHealth(logger);
+    const healthStatus: HubSpotHealthStatus = result.success ? 'healthy' : result.retryable ? 'degraded' : 'unhealthy';
+    const body: ApiResponse = {
+      success: result.success,
+      message: result.success
+        ? 'HubSpot integration is healthy'
+        : result.retryable
+          ? 'HubSpot is temporarily unavailable; submissions are queued for retry'
+          : result.error ?? 'HubSpot integration is unhealthy',
+      status: healthStatus,
+      checks: result.checks,
+      checkedAt: new Date(now).toISOString(),
+    };
+    const status = healthStatus === 'unhealthy' ? 503 : 200;
+
+    cachedResult = { body, status, expiresAt: now + HEALTH_CHECK_CACHE_MS };
+    return NextResponse.json(body, { status });
+  } catch (error) {
+    logger.error('Unexpected error in HubSpot health check', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
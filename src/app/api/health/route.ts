@@ -0,0 +1,58 @@
+/**
+ * Health Check Endpoint
+ *
+ * GET /api/health
+ *   Responds 200 while the server is up and its HubSpot configuration is
+ *   valid (see lib/hubspotConfig.ts), and 503 when a variable is missing or
+ *   malformed. Warnings (e.g. an unset tracking portal ID) are reported
+ *   without failing the check.
+ *
+ * Makes no HubSpot API calls, so it is cheap enough to poll. GET
+ * /api/health/hubspot also verifies the credentials against the portal.
+ * Responses list variable names only, never their values.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { HubSpotConfigIssue, loadHubSpotConfig } from '@/lib/hubspotConfig';
+import { CORRELATION_ID_HEADER, createRequestLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  errors?: HubSpotConfigIssue[];
+  warnings?: HubSpotConfigIssue[];
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/health');
+  const { issues, valid } = loadHubSpotConfig();
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  if (!valid) {
+    logger.warn('Health check failed: HubSpot configuration is invalid', {
+      variables: errors.map(issue => issue.variable),
+    });
+  }
+
+  const response = NextResponse.json<ApiResponse>(
+    {
+      success: valid,
+      message: valid ? 'OK' : 'HubSpot configuration is invalid',
+      ...(errors.length > 0 ? { errors } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+    },
+    { status: valid ? 200 : 503 }
+  );
+  response.headers.set('Cache-Control', 'no-store');
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
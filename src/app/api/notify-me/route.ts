@@ -0,0 +1,326 @@
+/**
+ * Notify Me API Endpoint
+ *
+ * This server-side API endpoint handles "Notify me when available" sign-ups
+ * from Coming Soon listing detail pages. It follows the same HubSpot workflow
+ * as /api/request-info, but labels the association differently:
+ *
+ * 1. Validates required form fields and that the listing is Coming Soon
+ * 2. Creates/updates a Contact in HubSpot via Forms API
+ * 3. Marks the Contact as marketing-eligible (the user opts in to be notified)
+ * 4. Looks up the Listing record by external_listing_id
+ * 5. Associates the Contact with the Listing using the "Notify When Available" label
+ *
+ * Submissions must pass the same spam checks as /api/request-info (see
+ * lib/spamProtection.ts); the rate limits are shared between the endpoints.
+ *
+ * All HubSpot identifiers are read from environment variables to keep the
+ * codebase safe for public repositories.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  submitContactToHubSpot,
+  resolveSubmittedContact,
+  updateMarketingConsent,
+  findListingByExternalId,
+  associateContactToListing,
+  RequestInfoFormData,
+} from '@/lib/hubspot';
+import { getPropertyById } from '@/data/properties';
+import { InquiryContactFields, validateContactFields } from '@/lib/inquirySchema';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger } from '@/lib/logger';
+import {
+  checkBotSignals,
+  checkEmailRateLimit,
+  checkIpRateLimit,
+  getClientIp,
+  SPAM_CHECK_HTTP_STATUS,
+  SpamCheckCode,
+  SpamCheckResult,
+} from '@/lib/spamProtection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface NotifyMePayload extends InquiryContactFields {
+  external_listing_id: string;
+}
+
+interface ValidationError {
+  field: string;
+  message: string;
+}
+
+type ErrorCode = 'VALIDATION_FAILED' | SpamCheckCode;
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  /** Set when the submission is rejected, so clients can tell the reasons apart */
+  code?: ErrorCode;
+  errors?: ValidationError[];
+  details?: {
+    contactSubmitted: boolean;
+    marketingConsentSet: boolean;
+    listingFound: boolean;
+    associationCreated: boolean;
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates the request payload to ensure all required fields are present
+ * and correctly formatted.
+ *
+ * Required fields:
+ * - firstname, lastname, email (see validateContactFields in lib/inquirySchema.ts)
+ * - external_listing_id: Must identify a Coming Soon property in the catalog
+ * - marketing_opt_in: Must be explicitly true (the user asks to be emailed)
+ */
+function validatePayload(payload: unknown): { valid: true; data: NotifyMePayload } | { valid: false; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: [{ field: 'body', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const data = payload as Record<string, unknown>;
+
+  // Name, email, phone and opt-in are validated as for every inquiry
+  const contactFields = validateContactFields(data, errors, {
+    marketingOptInMessage: 'You must agree to receive email updates about this property to be notified.',
+  });
+
+  // Validate external_listing_id (required, and only Coming Soon listings accept sign-ups)
+  if (!data.external_listing_id || typeof data.external_listing_id !== 'string' || data.external_listing_id.trim() === '') {
+    errors.push({ field: 'external_listing_id', message: 'External listing ID is required' });
+  } else {
+    const property = getPropertyById(data.external_listing_id.trim());
+    if (!property) {
+      errors.push({ field: 'external_listing_id', message: 'Listing not found' });
+    } else if (property.status !== 'coming-soon') {
+      errors.push({ field: 'external_listing_id', message: 'Availability notifications are only offered for Coming Soon listings' });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      ...contactFields,
+      external_listing_id: (data.external_listing_id as string).trim(),
+    },
+  };
+}
+
+// ============================================================================
+// Spam Checks
+// ============================================================================
+
+/**
+ * Builds the rejection response for a failed spam check.
+ */
+function rejectSubmission(
+  check: Exclude<SpamCheckResult, { passed: true }>,
+  logger: Logger
+): NextResponse<ApiResponse> {
+  logger.warn('Notify-me submission rejected by spam checks', { code: check.code });
+
+  const response = NextResponse.json<ApiResponse>(
+    { success: false, code: check.code, message: check.message },
+    { status: SPAM_CHECK_HTTP_STATUS[check.code] }
+  );
+  if (check.retryAfterSeconds !== undefined) {
+    response.headers.set('Retry-After', String(check.retryAfterSeconds));
+  }
+  return response;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/notify-me');
+  const response = await handleNotifyMe(request, logger);
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleNotifyMe(request: NextRequest, logger: Logger): Promise<NextResponse<ApiResponse>> {
+  try {
+    // Every request counts against the IP limit, whether or not it is valid
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = checkIpRateLimit(clientIp);
+    if (!ipLimit.passed) {
+      return rejectSubmission(ipLimit, logger);
+    }
+
+    // Parse the request body
+    const body = await request.json().catch(() => null);
+
+    // Validate the payload
+    const validation = validatePayload(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: 'VALIDATION_FAILED',
+          message: 'Validation failed',
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const botCheck = await checkBotSignals(body as Record<string, unknown>, clientIp);
+    if (!botCheck.passed) {
+      return rejectSubmission(botCheck, logger);
+    }
+
+    // Only submissions that look human count against the email's limit
+    const emailLimit = checkEmailRateLimit(validation.data.email);
+    if (!emailLimit.passed) {
+      return rejectSubmission(emailLimit, logger);
+    }
+
+    const formData: RequestInfoFormData = validation.data;
+
+    // Track the status of each step for detailed response
+    const details = {
+      contactSubmitted: false,
+      marketingConsentSet: false,
+      listingFound: false,
+      associationCreated: false,
+    };
+
+    // Step 1: Submit contact to HubSpot Forms API (email-based dedupe)
+    const contactResult = await submitContactToHubSpot(formData, logger);
+
+    if (!contactResult.success) {
+      logger.error('Failed to submit notify-me contact to HubSpot', { error: contactResult.error });
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Failed to submit contact information to HubSpot',
+          details,
+        },
+        { status: contactResult.retryable ? 503 : 500 }
+      );
+    }
+
+    details.contactSubmitted = true;
+
+    // Step 2: Wait for the Forms API to create the contact (never creating a
+    // second one), then set marketing consent
+    const resolveResult = await resolveSubmittedContact(formData.email, contactResult.contactId, logger);
+    const contactId = resolveResult.contactId;
+
+    if (!contactId) {
+      // Log the error but don't fail the entire request
+      logger.warn('Failed to resolve submitted contact', { error: resolveResult.error });
+    } else {
+      const consentResult = await updateMarketingConsent(contactId, logger);
+      if (!consentResult.success) {
+        logger.warn('Failed to set marketing consent', { contactId, error: consentResult.error });
+      } else {
+        details.marketingConsentSet = true;
+      }
+    }
+
+    // Step 3: Look up the Listing by external_listing_id (which maps to assetId)
+    const listingResult = await findListingByExternalId(formData.external_listing_id, logger);
+
+    if (!listingResult.success) {
+      // Fail fast: Do not attempt association if Listing lookup failed
+      const baseMessage = 'Contact created successfully, but listing not found for association';
+      const detailMessage = listingResult.notFound
+        ? `Listing not found in HubSpot for external_listing_id (assetId): ${formData.external_listing_id}. Ensure the Listing exists with this ID.`
+        : `Failed to look up Listing: ${listingResult.error}`;
+
+      logger.warn('Listing lookup failed - skipping notify-me association', {
+        external_listing_id: formData.external_listing_id,
+        notFound: listingResult.notFound,
+        error: listingResult.error,
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${baseMessage}. ${detailMessage}`,
+          details,
+        },
+        { status: 200 }
+      );
+    }
+
+    details.listingFound = true;
+
+    // Step 4: Associate the Contact with the Listing as "Notify When Available"
+    if (contactId && listingResult.listingId) {
+      const associationResult = await associateContactToListing(
+        contactId,
+        listingResult.listingId,
+        'notify-when-available',
+        logger
+      );
+
+      if (!associationResult.success) {
+        // Log the error but don't fail the request - contact was still created
+        logger.warn('Failed to create notify-me Contact-Listing association', {
+          contactId,
+          listingId: listingResult.listingId,
+          error: associationResult.error,
+        });
+      } else {
+        details.associationCreated = true;
+      }
+    } else {
+      logger.warn('Cannot create association: missing contactId or listingId', {
+        contactId,
+        listingId: listingResult.listingId,
+      });
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Notification request submitted successfully',
+        details,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in notify-me API', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse<ApiResponse>> {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Method not allowed. Use POST to submit form data.',
+    },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Property Detail API Endpoint
+ *
+ *   GET /api/properties/:id
+ *
+ * Returns a single property by its `id` (the feed's `assetId`, which is also
+ * the HubSpot `external_listing_id`). Responds with 404 when no property
+ * matches. See PROPERTIES_API.md for the response envelope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogImportedAt, getPropertyById } from '@/data/properties';
+import {
+  API_VERSION,
+  apiErrorResponse,
+  ApiErrorResponse,
+  cachedJsonResponse,
+  getLastModified,
+  PropertyDetailResponse,
+} from '@/lib/propertiesApi';
+
+const catalogLastModified = getLastModified(catalogImportedAt);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<PropertyDetailResponse | ApiErrorResponse>> {
+  const { id } = await params;
+  const property = getPropertyById(id.trim());
+
+  if (!property) {
+    return apiErrorResponse(`No property found with id: ${id}`, 404);
+  }
+
+  const body: PropertyDetailResponse = {
+    success: true,
+    apiVersion: API_VERSION,
+    data: property,
+    links: {
+      self: `/api/properties/${property.id}`,
+      html: `/properties/${property.id}`,
+    },
+  };
+
+  // Individual listings carry no modification time of their own, so the
+  // catalog's import time is used for Last-Modified; the ETag is per-property
+  return cachedJsonResponse(request, body, catalogLastModified);
+}
@@ -0,0 +1,104 @@
+/**
+ * Properties Listing API Endpoint
+ *
+ * Read-only, machine-readable access to the property catalog for partner teams.
+ * Supports the same filters, sorting and pagination as the /properties and
+ * /search pages:
+ *
+ *   GET /api/properties?q=&minPrice=&maxPrice=&beds=&sort=&page=&pageSize=
+ *     &state=&county=&city=&type=&bedrooms=&bathrooms=&price=&status=&auction=&financing=
+ *     &facets=true
+ *
+ * `state`, `type` and the other facet parameters may be repeated to match any of
+ * several values; `state` and `type` are case-insensitive. Pass `facets=true`
+ * to include facet counts in `meta.facets`. A page past the last one is a 404,
+ * as on the /properties page.
+ *
+ * See PROPERTIES_API.md for the response envelope.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { catalogImportedAt, properties } from '@/data/properties';
+import {
+  applyFacetSelection,
+  computeFacets,
+  parseFacetSelection,
+  toFacetQuery,
+} from '@/lib/propertyFacets';
+import {
+  filterProperties,
+  getParam,
+  ListingOptions,
+  paginate,
+  parseListingOptions,
+  parsePropertyFilters,
+  sortProperties,
+  toListingQuery,
+  toSearchParams,
+} from '@/lib/propertySearch';
+import {
+  API_VERSION,
+  apiErrorResponse,
+  ApiErrorResponse,
+  cachedJsonResponse,
+  getLastModified,
+  PropertiesListResponse,
+} from '@/lib/propertiesApi';
+
+const lastModified = getLastModified(catalogImportedAt);
+
+export async function GET(request: NextRequest): Promise<NextResponse<PropertiesListResponse | ApiErrorResponse>> {
+  const params = toSearchParams(request.nextUrl.searchParams);
+
+  // `state` and `type` are handled by the facet selection so that they can be repeated
+  const filters = parsePropertyFilters(params);
+  delete filters.state;
+  delete filters.type;
+
+  const selection = parseFacetSelection(params);
+  const options = parseListingOptions(params);
+  const includeFacets = getParam(params, 'facets') === 'true';
+
+  const matchingFilters = filterProperties(properties, filters);
+  const results = applyFacetSelection(matchingFilters, selection);
+  const result = paginate(sortProperties(results, options.sort), options.page, options.pageSize);
+
+  // Like the /properties page, out-of-range pages do not exist
+  if (options.page > result.totalPages) {
+    return apiErrorResponse(`Page ${options.page} is out of range; there are ${result.totalPages} pages`, 404);
+  }
+
+  const getHref = (overrides: Partial<ListingOptions>) => {
+    const query = [
+      toListingQuery(filters, { ...options, ...overrides }),
+      toFacetQuery(selection),
+      includeFacets ? 'facets=true' : '',
+    ].filter(Boolean).join('&');
+    return query ? `/api/properties?${query}` : '/api/properties';
+  };
+
+  const body: PropertiesListResponse = {
+    success: true,
+    apiVersion: API_VERSION,
+    data: result.items,
+    meta: {
+      page: result.page,
+      pageSize: result.pageSize,
+      totalItems: result.totalItems,
+      totalPages: result.totalPages,
+      sort: options.sort,
+      filters,
+      facetSelection: selection,
+      ...(includeFacets && { facets: computeFacets(matchingFilters, selection) }),
+    },
+    links: {
+      self: getHref({}),
+      first: getHref({ page: 1 }),
+      last: getHref({ page: result.totalPages }),
+      prev: result.page > 1 ? getHref({ page: result.page - 1 }) : null,
+      next: result.page < result.totalPages ? getHref({ page: result.page + 1 }) : null,
+    },
+  };
+
+  return cachedJsonResponse(request, body, lastModified);
+}
@@ -4,130 +4,152 @@
  * This server-side API endpoint handles "Request Info" form submissions from
  * listing detail pages. It implements a complete HubSpot integration workflow:
  * 
- * 1. Validates required form fields
+ * 1. Validates the payload against the shared inquiry schema (lib/inquirySchema.ts)
  * 2. Creates/updates a Contact in HubSpot via Forms API
  * 3. Marks the Contact as marketing-eligible (when opted in)
  * 4. Looks up the Listing record by external_listing_id
  * 5. Associates the Contact with the Listing
  * 
+ * Valid submissions are first written to the request-info outbox (see
+ * lib/requestInfoOutbox.ts), which runs steps 2-5 and persists their
+ * progress. The first attempt runs before responding, so the response can
+ * report a terminal failure of the contact submission; it waits for HubSpot,
+ * including up to HUBSPOT_CONTACT_RESOLUTION_TIMEOUT_MS (default 10s) for the
+ * submitted Contact to appear. Steps that fail transiently are retried in the
+ * background, and the visitor still gets a success response.
+ * 
+ * Before anything is recorded, the submission must pass the spam checks in
+ * lib/spamProtection.ts (rate limits per IP and per email, honeypot, minimum
+ * time-to-submit and the optional challenge). Rejections carry a `code`.
+ * 
  * All HubSpot identifiers are read from environment variables to keep the
  * codebase safe for public repositories.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { InquiryFieldError, InquiryPayload, validateInquiryPayload } from '@/lib/inquirySchema';
+import {
+  enqueueSubmission,
+  processSubmission,
+  RequestInfoSubmission,
+  RequestInfoSubmissionDetails,
+} from '@/lib/requestInfoOutbox';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger, RequestLogger } from '@/lib/logger';
 import {
-  submitContactToHubSpot,
-  setMarketingConsent,
-  findListingByExternalId,
-  associateContactToListing,
-  RequestInfoFormData,
-} from '@/lib/hubspot';
+  checkBotSignals,
+  checkEmailRateLimit,
+  checkIpRateLimit,
+  getClientIp,
+  SPAM_CHECK_HTTP_STATUS,
+  SpamCheckCode,
+  SpamCheckResult,
+} from '@/lib/spamProtection';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface RequestInfoPayload {
-  firstname: string;
-  lastname: string;
-  email: string;
-  phone?: string;
-  external_listing_id: string;
-  marketing_opt_in: boolean;
-  pageUri?: string;
-  pageName?: string;
-}
-
-interface ValidationError {
-  field: string;
-  message: string;
-}
+type ErrorCode = 'VALIDATION_FAILED' | SpamCheckCode;
 
 interface ApiResponse {
   success: boolean;
   message: string;
-  errors?: ValidationError[];
-  details?: {
-    contactSubmitted: boolean;
-    marketingConsentSet: boolean;
-    listingFound: boolean;
-    associationCreated: boolean;
-  };
+  /** Set when the submission is rejected, so clients can tell the reasons apart */
+  code?: ErrorCode;
+  errors?: InquiryFieldError[];
+  /** Outbox submission ID, for support and the admin replay API */
+  submissionId?: string;
+  details?: RequestInfoSubmissionDetails;
 }
 
 // ============================================================================
-// Validation
+// Spam Checks and Responses
 // ============================================================================
 
 /**
- * Validates the request payload to ensure all required fields are present
- * and correctly formatted.
- * 
- * Required fields:
- * - email: Must be a valid email address
- * - external_listing_id: Must be provided
- * - marketing_opt_in: Must be explicitly true (user must consent)
+ * Builds the rejection response for a failed spam check.
  */
-function validatePayload(payload: unknown): { valid: true; data: RequestInfoPayload } | { valid: false; errors: ValidationError[] } {
-  const errors: ValidationError[] = [];
-  
-  if (!payload || typeof payload !== 'object') {
-    return {
-      valid: false,
-      errors: [{ field: 'body', message: 'Request body must be a JSON object' }],
-    };
-  }
-
-  const data = payload as Record<string, unknown>;
-
-  // Validate email (required)
-  if (!data.email || typeof data.email !== 'string' || data.email.trim() === '') {
-    errors.push({ field: 'email', message: 'Email is required' });
-  } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email.trim())) {
-    errors.push({ field: 'email', message: 'Email must be a valid email address' });
+function rejectSubmission(
+  check: Exclude<SpamCheckResult, { passed: true }>,
+  logger: Logger
+): NextResponse<ApiResponse> {
+  logger.warn('Request-info submission rejected by spam checks', { code: check.code });
+
+  const response = NextResponse.json<ApiResponse>(
+    { success: false, code: check.code, message: check.message },
+    { status: SPAM_CHECK_HTTP_STATUS[check.code] }
+  );
+  if (check.retryAfterSeconds !== undefined) {
+    response.headers.set('Retry-After', String(check.retryAfterSeconds));
   }
+  return response;
+}
 
-  // Validate external_listing_id (required)
-  if (!data.external_listing_id || typeof data.external_listing_id !== 'string' || data.external_listing_id.trim() === '') {
-    errors.push({ field: 'external_listing_id', message: 'External listing ID is required' });
-  }
+/**
+ * Maps the state of a processed submission to the API response.
+ * 
+ * Once the contact has reached HubSpot, or is queued to be retried, the
+ * request is a success from the visitor's point of view. It only fails when
+ * the contact submission itself failed terminally.
+ */
+function buildResponse(submission: RequestInfoSubmission, logger: Logger): NextResponse<ApiResponse> {
+  const { details, formData } = submission;
+  const base = { submissionId: submission.id, details };
 
-  // Validate marketing_opt_in (must be explicitly true)
-  if (data.marketing_opt_in !== true) {
-    errors.push({ 
-      field: 'marketing_opt_in', 
-      message: 'You must agree to receive marketing communications to submit this form.' 
-    });
+  if (submission.status === 'completed') {
+    return NextResponse.json(
+      { ...base, success: true, message: 'Request submitted successfully' },
+      { status: 200 }
+    );
   }
 
-  // Validate firstname (required for HubSpot)
-  if (!data.firstname || typeof data.firstname !== 'string' || data.firstname.trim() === '') {
-    errors.push({ field: 'firstname', message: 'First name is required' });
-  }
+  if (!details.contactSubmitted) {
+    if (submission.status === 'failed') {
+      logger.error('Failed to submit contact to HubSpot', { submissionId: submission.id, error: submission.lastError });
+      return NextResponse.json(
+        { ...base, success: false, message: 'Failed to submit contact information to HubSpot' },
+        { status: 500 }
+      );
+    }
 
-  // Validate lastname (required for HubSpot)
-  if (!data.lastname || typeof data.lastname !== 'string' || data.lastname.trim() === '') {
-    errors.push({ field: 'lastname', message: 'Last name is required' });
+    // 202: recorded, and will be delivered by the outbox worker
+    return NextResponse.json(
+      { ...base, success: true, message: 'Request received and queued for delivery' },
+      { status: 202 }
+    );
   }
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  if (submission.listingNotFound) {
+    logger.warn('Listing not found - association will be retried', {
+      submissionId: submission.id,
+      external_listing_id: formData.external_listing_id,
+      nextAttemptAt: submission.nextAttemptAt,
+    });
+    return NextResponse.json(
+      {
+        ...base,
+        success: true,
+        message: `Contact created successfully, but listing not found for association. Listing not found in HubSpot for external_listing_id (assetId): ${formData.external_listing_id}. The association will be retried; ensure the Listing exists with this ID.`,
+      },
+      { status: 200 }
+    );
   }
 
-  // Return sanitized data
-  return {
-    valid: true,
-    data: {
-      firstname: (data.firstname as string).trim(),
-      lastname: (data.lastname as string).trim(),
-      email: (data.email as string).trim().toLowerCase(),
-      phone: typeof data.phone === 'string' ? data.phone.trim() : undefined,
-      external_listing_id: (data.external_listing_id as string).trim(),
-      marketing_opt_in: true,
-      pageUri: typeof data.pageUri === 'string' ? data.pageUri : undefined,
-      pageName: typeof data.pageName === 'string' ? data.pageName : undefined,
+  logger.warn('Request-info submission incomplete', {
+    submissionId: submission.id,
+    status: submission.status,
+    error: submission.lastError,
+  });
+  return NextResponse.json(
+    {
+      ...base,
+      success: true,
+      message: submission.status === 'pending'
+        ? 'Contact created successfully; remaining steps will be retried'
+        : `Contact created successfully, but the workflow did not complete: ${submission.lastError}`,
     },
-  };
+    { status: 200 }
+  );
 }
 
 // ============================================================================
@@ -135,17 +157,32 @@ function validatePayload(payload: unknown): { valid: true; data: RequestInfoPayl
 // ============================================================================
 
 export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/request-info');
+  const response = await handleRequestInfo(request, logger);
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleRequestInfo(request: NextRequest, logger: RequestLogger): Promise<NextResponse<ApiResponse>> {
   try {
+    // Every request counts against the IP limit, whether or not it is valid
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = checkIpRateLimit(clientIp);
+    if (!ipLimit.passed) {
+      return rejectSubmission(ipLimit, logger);
+    }
+
     // Parse the request body
     const body = await request.json().catch(() => null);
     
-    // Validate the payload
-    const validation = validatePayload(body);
+    // Validate the payload with the schema shared with PropertyInquiryForm
+    const validation = validateInquiryPayload(body);
     
     if (!validation.valid) {
       return NextResponse.json(
         {
           success: false,
+          code: 'VALIDATION_FAILED',
           message: 'Validation failed',
           errors: validation.errors,
         },
@@ -153,132 +190,30 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       );
     }
 
-    const formData: RequestInfoFormData = validation.data;
-
-    // Track the status of each step for detailed response
-    const details = {
-      contactSubmitted: false,
-      marketingConsentSet: false,
-      listingFound: false,
-      associationCreated: false,
-    };
-
-    // Step 1: Submit contact to HubSpot Forms API
-    // This will create a new contact or update an existing one (email-based dedupe)
-    const contactResult = await submitContactToHubSpot(formData);
-    
-    if (!contactResult.success) {
-      console.error('Failed to submit contact to HubSpot:', contactResult.error);
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Failed to submit contact information to HubSpot',
-          details,
-        },
-        { status: 500 }
-      );
+    const botCheck = await checkBotSignals(body as Record<string, unknown>, clientIp);
+    if (!botCheck.passed) {
+      return rejectSubmission(botCheck, logger);
     }
-    
-    details.contactSubmitted = true;
 
-    // Step 2: Set marketing consent for the contact
-    // If the contact doesn't exist yet (e.g., Forms API hasn't processed it),
-    // this function will create a new contact before setting consent.
-    // We wait a brief moment to allow HubSpot to process the form submission
-    // before trying to update the contact's marketing consent.
-    // The delay is configurable via environment variable (default: 1000ms).
-    const consentDelayMs = parseInt(process.env.HUBSPOT_CONSENT_DELAY_MS || '1000', 10);
-    if (consentDelayMs > 0) {
-      await new Promise(resolve => setTimeout(resolve, consentDelayMs));
-    }
-    
-    const consentResult = await setMarketingConsent(formData.email, {
-      firstname: formData.firstname,
-      lastname: formData.lastname,
-      phone: formData.phone,
-    });
-    
-    if (!consentResult.success) {
-      // Log the error but don't fail the entire request
-      // The contact creation/lookup may have still succeeded partially
-      console.warn('Failed to set marketing consent:', consentResult.error);
-    } else {
-      details.marketingConsentSet = true;
+    // Only submissions that look human count against the email's limit
+    const emailLimit = checkEmailRateLimit(validation.data.email);
+    if (!emailLimit.passed) {
+      return rejectSubmission(emailLimit, logger);
     }
 
-    // Step 3: Look up the Listing by external_listing_id (which maps to assetId)
-    // IMPORTANT: This lookup resolves the external ID to a HubSpot record ID.
-    // The external_listing_id must be the assetId from source data, NOT assetReferenceId.
-    // See DATA_MAPPING.md for identifier documentation.
-    console.log(`Looking up Listing for external_listing_id (assetId): ${formData.external_listing_id}`);
-    const listingResult = await findListingByExternalId(formData.external_listing_id);
-    
-    if (!listingResult.success) {
-      // Fail fast: Do not attempt association if Listing lookup failed
-      // This prevents 500 errors from invalid association calls
-      const baseMessage = 'Contact created successfully, but listing not found for association';
-      const detailMessage = listingResult.notFound
-        ? `Listing not found in HubSpot for external_listing_id (assetId): ${formData.external_listing_id}. Ensure the Listing exists with this ID.`
-        : `Failed to look up Listing: ${listingResult.error}`;
-      
-      console.warn('Listing lookup failed - skipping association:', {
-        external_listing_id: formData.external_listing_id,
-        notFound: listingResult.notFound,
-        error: listingResult.error,
-      });
-      
-      return NextResponse.json(
-        {
-          success: true,
-          message: `${baseMessage}. ${detailMessage}`,
-          details,
-        },
-        { status: 200 }
-      );
-    }
-    
-    details.listingFound = true;
-    console.log(`Listing found: external_listing_id=${formData.external_listing_id} -> HubSpot ID=${listingResult.listingId}`);
+    const formData: InquiryPayload = validation.data;
 
-    // Step 4: Associate the Contact with the Listing
-    // We use the HubSpot Listing ID from the lookup result (NOT the external_listing_id)
-    // This is critical: the association API requires HubSpot record IDs, not external IDs
-    if (consentResult.contactId && listingResult.listingId) {
-      console.log(`Creating Contact-Listing association: Contact=${consentResult.contactId}, Listing=${listingResult.listingId}`);
-      const associationResult = await associateContactToListing(
-        consentResult.contactId,
-        listingResult.listingId
-      );
-      
-      if (!associationResult.success) {
-        // Log the error but don't fail the request - contact was still created
-        console.warn('Failed to create Contact-Listing association:', {
-          contactId: consentResult.contactId,
-          listingId: listingResult.listingId,
-          error: associationResult.error,
-        });
-      } else {
-        details.associationCreated = true;
-        console.log('Contact-Listing association created successfully');
-      }
-    } else {
-      console.warn('Cannot create association: missing contactId or listingId', {
-        contactId: consentResult.contactId,
-        listingId: listingResult.listingId,
-      });
-    }
+    // Step 1: Durably record the submission before calling HubSpot, so it is
+    // never lost to a HubSpot outage or a crash mid-workflow
+    const submission = await enqueueSubmission(formData, logger.correlationId);
 
-    // Return success response
-    return NextResponse.json(
-      {
-        success: true,
-        message: 'Request submitted successfully',
-        details,
-      },
-      { status: 200 }
-    );
+    // Steps 2-5: Deliver to HubSpot now. Steps that fail transiently are
+    // retried later by the outbox worker, resuming where this attempt stopped.
+    const processed = (await processSubmission(submission.id)) ?? submission;
+
+    return buildResponse(processed, logger);
   } catch (error) {
-    console.error('Unexpected error in request-info API:', error);
+    logger.error('Unexpected error in request-info API', { error });
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,330 @@
+/**
+ * Saved Properties Sync API Endpoint
+ *
+ * Saved properties live in the visitor's browser (localStorage). This optional
+ * endpoint copies them to HubSpot when the visitor asks to sync their list:
+ *
+ * 1. Validates the contact fields and the saved listing IDs
+ * 2. Finds or creates the Contact and marks it as marketing-eligible
+ * 3. For each saved property, looks up the Listing by external_listing_id
+ * 4. Associates the Contact with each Listing using the "Saved" label
+ *
+ * A listing that cannot be found or associated does not fail the sync; the
+ * per-listing outcome is reported in `details.listings`.
+ *
+ * Un-saving a property in the browser does not remove an existing association.
+ *
+ * Submissions must pass the same spam checks as /api/request-info (see
+ * lib/spamProtection.ts); the rate limits are shared between the endpoints.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  setMarketingConsent,
+  findListingByExternalId,
+  associateContactToListing,
+} from '@/lib/hubspot';
+import { getPropertyById } from '@/data/properties';
+import { validateContactFields } from '@/lib/inquirySchema';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger } from '@/lib/logger';
+import {
+  checkBotSignals,
+  checkEmailRateLimit,
+  checkIpRateLimit,
+  getClientIp,
+  SPAM_CHECK_HTTP_STATUS,
+  SpamCheckCode,
+  SpamCheckResult,
+} from '@/lib/spamProtection';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Maximum listings per sync. Matches MAX_SAVED_PROPERTIES in
+ * lib/savedProperties.ts, which uses React hooks and cannot be imported here.
+ */
+const MAX_SYNCED_LISTINGS = 50;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface SavedPropertiesPayload {
+  firstname: string;
+  lastname: string;
+  email: string;
+  external_listing_ids: string[];
+  marketing_opt_in: boolean;
+}
+
+interface ValidationError {
+  field: string;
+  message: string;
+}
+
+interface ListingSyncDetails {
+  external_listing_id: string;
+  listingFound: boolean;
+  associationCreated: boolean;
+}
+
+type ErrorCode = 'VALIDATION_FAILED' | SpamCheckCode;
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  /** Set when the submission is rejected, so clients can tell the reasons apart */
+  code?: ErrorCode;
+  errors?: ValidationError[];
+  details?: {
+    marketingConsentSet: boolean;
+    listings: ListingSyncDetails[];
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates the request payload to ensure all required fields are present
+ * and correctly formatted.
+ *
+ * Required fields:
+ * - firstname, lastname, email (see validateContactFields in lib/inquirySchema.ts)
+ * - external_listing_ids: 1 to MAX_SYNCED_LISTINGS IDs of catalog properties
+ * - marketing_opt_in: Must be explicitly true (user must consent)
+ */
+function validatePayload(payload: unknown): { valid: true; data: SavedPropertiesPayload } | { valid: false; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: [{ field: 'body', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const data = payload as Record<string, unknown>;
+
+  // Name, email and opt-in are validated as for every inquiry
+  const { firstname, lastname, email } = validateContactFields(data, errors, {
+    marketingOptInMessage: 'You must agree to receive marketing communications to sync your saved properties.',
+  });
+
+  // Validate external_listing_ids (required, known catalog properties only)
+  const ids = Array.isArray(data.external_listing_ids)
+    ? Array.from(new Set(
+        data.external_listing_ids
+          .filter((id): id is string => typeof id === 'string')
+          .map(id => id.trim())
+          .filter(Boolean)
+      ))
+    : [];
+
+  if (ids.length === 0) {
+    errors.push({ field: 'external_listing_ids', message: 'At least one saved property is required' });
+  } else if (ids.length > MAX_SYNCED_LISTINGS) {
+    errors.push({ field: 'external_listing_ids', message: `At most ${MAX_SYNCED_LISTINGS} saved properties can be synced at once` });
+  } else {
+    const unknownIds = ids.filter(id => !getPropertyById(id));
+    if (unknownIds.length > 0) {
+      errors.push({ field: 'external_listing_ids', message: `Unknown listing IDs: ${unknownIds.join(', ')}` });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Return sanitized data
+  return {
+    valid: true,
+    data: {
+      firstname,
+      lastname,
+      email,
+      external_listing_ids: ids,
+      marketing_opt_in: true,
+    },
+  };
+}
+
+// ============================================================================
+// Spam Checks
+// ============================================================================
+
+/**
+ * Builds the rejection response for a failed spam check.
+ */
+function rejectSubmission(
+  check: Exclude<SpamCheckResult, { passed: true }>,
+  logger: Logger
+): NextResponse<ApiResponse> {
+  logger.warn('Saved-properties sync submission rejected by spam checks', { code: check.code });
+
+  const response = NextResponse.json<ApiResponse>(
+    { success: false, code: check.code, message: check.message },
+    { status: SPAM_CHECK_HTTP_STATUS[check.code] }
+  );
+  if (check.retryAfterSeconds !== undefined) {
+    response.headers.set('Retry-After', String(check.retryAfterSeconds));
+  }
+  return response;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/saved-properties');
+  const response = await handleSavedPropertiesSync(request, logger);
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleSavedPropertiesSync(request: NextRequest, logger: Logger): Promise<NextResponse<ApiResponse>> {
+  try {
+    // Every request counts against the IP limit, whether or not it is valid
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = checkIpRateLimit(clientIp);
+    if (!ipLimit.passed) {
+      return rejectSubmission(ipLimit, logger);
+    }
+
+    // Parse the request body
+    const body = await request.json().catch(() => null);
+
+    // Validate the payload
+    const validation = validatePayload(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: 'VALIDATION_FAILED',
+          message: 'Validation failed',
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const botCheck = await checkBotSignals(body as Record<string, unknown>, clientIp);
+    if (!botCheck.passed) {
+      return rejectSubmission(botCheck, logger);
+    }
+
+    // Only submissions that look human count against the email's limit
+    const emailLimit = checkEmailRateLimit(validation.data.email);
+    if (!emailLimit.passed) {
+      return rejectSubmission(emailLimit, logger);
+    }
+
+    const formData = validation.data;
+    const details = {
+      marketingConsentSet: false,
+      listings: [] as ListingSyncDetails[],
+    };
+
+    // Step 2: Find or create the Contact and set marketing consent.
+    // Unlike request-info there is no Forms API submission, so the Contact ID
+    // returned here is required for the associations below.
+    const consentResult = await setMarketingConsent(formData.email, {
+      firstname: formData.firstname,
+      lastname: formData.lastname,
+    }, logger);
+
+    if (!consentResult.contactId) {
+      logger.error('Failed to find or create contact for saved properties sync', { error: consentResult.error });
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Failed to save contact information to HubSpot',
+          details,
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!consentResult.success) {
+      // Log the error but don't fail the sync - the contact exists
+      logger.warn('Failed to set marketing consent', { contactId: consentResult.contactId, error: consentResult.error });
+    } else {
+      details.marketingConsentSet = true;
+    }
+
+    // Steps 3-4: Resolve each Listing and associate it with the "Saved" label.
+    // Listings are processed one at a time to stay well within HubSpot rate limits.
+    for (const externalListingId of formData.external_listing_ids) {
+      const listingDetails: ListingSyncDetails = {
+        external_listing_id: externalListingId,
+        listingFound: false,
+        associationCreated: false,
+      };
+      details.listings.push(listingDetails);
+
+      const listingResult = await findListingByExternalId(externalListingId, logger);
+      if (!listingResult.success || !listingResult.listingId) {
+        logger.warn('Listing lookup failed - skipping saved association', {
+          external_listing_id: externalListingId,
+          notFound: listingResult.notFound,
+          error: listingResult.error,
+        });
+        continue;
+      }
+      listingDetails.listingFound = true;
+
+      const associationResult = await associateContactToListing(
+        consentResult.contactId,
+        listingResult.listingId,
+        'saved',
+        logger
+      );
+
+      if (!associationResult.success) {
+        logger.warn('Failed to create saved Contact-Listing association', {
+          contactId: consentResult.contactId,
+          listingId: listingResult.listingId,
+          error: associationResult.error,
+        });
+      } else {
+        listingDetails.associationCreated = true;
+      }
+    }
+
+    const syncedCount = details.listings.filter(listing => listing.associationCreated).length;
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Synced ${syncedCount} of ${details.listings.length} saved properties`,
+        details,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in saved-properties API', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse<ApiResponse>> {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Method not allowed. Use POST to sync saved properties.',
+    },
+    { status: 405 }
+  );
+}
@@ -0,0 +1,421 @@
+/**
+ * Tour Request API Endpoint
+ *
+ * This server-side API endpoint handles "Schedule a Tour" requests from
+ * listing detail pages:
+ *
+ * 1. Validates the contact fields, tour type and preferred date/time slots
+ * 2. Creates/updates a Contact in HubSpot via Forms API
+ * 3. Resolves the Contact ID (and sets marketing consent when opted in)
+ * 4. Looks up the Listing record by external_listing_id
+ * 5. Associates the Contact with the Listing using the "Tour Requested" label
+ * 6. Creates a HubSpot task for the listing agent to confirm the tour
+ *
+ * The task is assigned to the Listing's owner in HubSpot, falling back to
+ * HUBSPOT_TOUR_TASK_OWNER_ID when the Listing has no owner (or was not found).
+ *
+ * Submissions must pass the same spam checks as /api/request-info (see
+ * lib/spamProtection.ts); the rate limits are shared between the endpoints.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  submitContactToHubSpot,
+  resolveSubmittedContact,
+  updateMarketingConsent,
+  findListingByExternalId,
+  associateContactToListing,
+  createTask,
+} from '@/lib/hubspot';
+import { getPropertyById } from '@/data/properties';
+import {
+  formatTourSlot,
+  isValidTourSlot,
+  MAX_PREFERRED_SLOTS,
+  TOUR_TYPE_LABELS,
+  TOUR_TYPES,
+  TourSlot,
+  TourType,
+} from '@/lib/tourScheduling';
+import { getHubSpotConfig } from '@/lib/hubspotConfig';
+import { InquiryContactFields, validateContactFields, validateInquiryMessage } from '@/lib/inquirySchema';
+import { CORRELATION_ID_HEADER, createRequestLogger, Logger } from '@/lib/logger';
+import {
+  checkBotSignals,
+  checkEmailRateLimit,
+  checkIpRateLimit,
+  getClientIp,
+  SPAM_CHECK_HTTP_STATUS,
+  SpamCheckCode,
+  SpamCheckResult,
+} from '@/lib/spamProtection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TourRequestPayload extends InquiryContactFields {
+  external_listing_id: string;
+  tour_type: TourType;
+  preferred_slots: TourSlot[];
+  message?: string;
+}
+
+interface ValidationError {
+  field: string;
+  message: string;
+}
+
+type ErrorCode = 'VALIDATION_FAILED' | SpamCheckCode;
+
+interface ApiResponse {
+  success: boolean;
+  message: string;
+  /** Set when the submission is rejected, so clients can tell the reasons apart */
+  code?: ErrorCode;
+  errors?: ValidationError[];
+  details?: {
+    contactSubmitted: boolean;
+    marketingConsentSet: boolean;
+    listingFound: boolean;
+    associationCreated: boolean;
+    taskCreated: boolean;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How long the listing agent has to confirm a tour request.
+ */
+const TOUR_TASK_DUE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates the request payload to ensure all required fields are present
+ * and correctly formatted.
+ *
+ * Required fields:
+ * - firstname, lastname, email (see validateContactFields in lib/inquirySchema.ts)
+ * - external_listing_id: Must identify a property that is for sale
+ * - tour_type: 'in-person' or 'virtual'
+ * - preferred_slots: 1 to MAX_PREFERRED_SLOTS distinct slots inside the booking window
+ *
+ * The optional message may be up to MAX_INQUIRY_MESSAGE_LENGTH characters.
+ *
+ * Unlike request-info, marketing opt-in is optional: a tour request is a
+ * transactional contact, and consent is only recorded when given.
+ *
+ * An optional phone number must be a valid US or international number and is
+ * returned in E.164 format (see lib/phoneNumber.ts).
+ */
+function validatePayload(payload: unknown): { valid: true; data: TourRequestPayload } | { valid: false; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return {
+      valid: false,
+      errors: [{ field: 'body', message: 'Request body must be a JSON object' }],
+    };
+  }
+
+  const data = payload as Record<string, unknown>;
+
+  // Name, email and phone are validated as for every inquiry
+  const contactFields = validateContactFields(data, errors, { marketingOptIn: 'optional' });
+
+  // Validate external_listing_id (required, and only listings for sale can be toured)
+  if (!data.external_listing_id || typeof data.external_listing_id !== 'string' || data.external_listing_id.trim() === '') {
+    errors.push({ field: 'external_listing_id', message: 'External listing ID is required' });
+  } else {
+    const property = getPropertyById(data.external_listing_id.trim());
+    if (!property) {
+      errors.push({ field: 'external_listing_id', message: 'Listing not found' });
+    } else if (property.status !== 'available') {
+      errors.push({ field: 'external_listing_id', message: 'Tours can only be scheduled for listings that are for sale' });
+    }
+  }
+
+  // Validate tour_type (required)
+  const tourType = TOUR_TYPES.find(type => type === data.tour_type);
+  if (!tourType) {
+    errors.push({ field: 'tour_type', message: `Tour type must be one of: ${TOUR_TYPES.join(', ')}` });
+  }
+
+  // Validate preferred_slots (required)
+  const slots = Array.isArray(data.preferred_slots)
+    ? data.preferred_slots.filter((slot): slot is TourSlot =>
+        Boolean(slot) && typeof slot.date === 'string' && typeof slot.time === 'string'
+      )
+    : [];
+  const uniqueSlots = Array.from(
+    new Map(slots.map(slot => [`${slot.date} ${slot.time}`, { date: slot.date, time: slot.time }])).values()
+  );
+
+  if (uniqueSlots.length === 0) {
+    errors.push({ field: 'preferred_slots', message: 'At least one preferred date and time is required' });
+  } else if (uniqueSlots.length > MAX_PREFERRED_SLOTS) {
+    errors.push({ field: 'preferred_slots', message: `At most ${MAX_PREFERRED_SLOTS} preferred times can be requested` });
+  } else if (!uniqueSlots.every(slot => isValidTourSlot(slot))) {
+    errors.push({ field: 'preferred_slots', message: 'Preferred times must be offered tour times within the next two weeks' });
+  }
+
+  // Validate message (optional, length-capped like every inquiry message)
+  const message = validateInquiryMessage(data, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Return sanitized data
+  return {
+    valid: true,
+    data: {
+      ...contactFields,
+      external_listing_id: (data.external_listing_id as string).trim(),
+      tour_type: tourType as TourType,
+      preferred_slots: uniqueSlots,
+      message,
+    },
+  };
+}
+
+/**
+ * Builds the task body shown to the listing agent.
+ */
+function buildTaskBody(formData: TourRequestPayload): string {
+  const property = getPropertyById(formData.external_listing_id);
+  const lines = [
+    `${TOUR_TYPE_LABELS[formData.tour_type]} requested by ${formData.firstname} ${formData.lastname}`,
+    `Email: ${formData.email}`,
+    ...(formData.phone ? [`Phone: ${formData.phone}`] : []),
+    ...(property ? [`Property: ${property.address}, ${property.city}, ${property.state} ${property.zipCode} (ID ${property.id})`] : []),
+    '',
+    'Preferred times (property local time):',
+    ...formData.preferred_slots.map((slot, index) => `${index + 1}. ${formatTourSlot(slot)}`),
+    ...(formData.message ? ['', `Message: ${formData.message}`] : []),
+  ];
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Spam Checks
+// ============================================================================
+
+/**
+ * Builds the rejection response for a failed spam check.
+ */
+function rejectSubmission(
+  check: Exclude<SpamCheckResult, { passed: true }>,
+  logger: Logger
+): NextResponse<ApiResponse> {
+  logger.warn('Tour-request submission rejected by spam checks', { code: check.code });
+
+  const response = NextResponse.json<ApiResponse>(
+    { success: false, code: check.code, message: check.message },
+    { status: SPAM_CHECK_HTTP_STATUS[check.code] }
+  );
+  if (check.retryAfterSeconds !== undefined) {
+    response.headers.set('Retry-After', String(check.retryAfterSeconds));
+  }
+  return response;
+}
+
+// ============================================================================
+// API Handler
+// ============================================================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse>> {
+  const logger = createRequestLogger(request, '/api/tour-request');
+  const response = await handleTourRequest(request, logger);
+  response.headers.set(CORRELATION_ID_HEADER, logger.correlationId);
+  return response;
+}
+
+async function handleTourRequest(request: NextRequest, logger: Logger): Promise<NextResponse<ApiResponse>> {
+  try {
+    // Every request counts against the IP limit, whether or not it is valid
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = checkIpRateLimit(clientIp);
+    if (!ipLimit.passed) {
+      return rejectSubmission(ipLimit, logger);
+    }
+
+    // Parse the request body
+    const body = await request.json().catch(() => null);
+
+    // Validate the payload
+    const validation = validatePayload(body);
+
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: 'VALIDATION_FAILED',
+          message: 'Validation failed',
+          errors: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const botCheck = await checkBotSignals(body as Record<string, unknown>, clientIp);
+    if (!botCheck.passed) {
+      return rejectSubmission(botCheck, logger);
+    }
+
+    // Only submissions that look human count against the email's limit
+    const emailLimit = checkEmailRateLimit(validation.data.email);
+    if (!emailLimit.passed) {
+      return rejectSubmission(emailLimit, logger);
+    }
+
+    const formData = validation.data;
+
+    // Track the status of each step for detailed response
+    const details = {
+      contactSubmitted: false,
+      marketingConsentSet: false,
+      listingFound: false,
+      associationCreated: false,
+      taskCreated: false,
+    };
+
+    // Step 1: Submit contact to HubSpot Forms API (email-based dedupe)
+    const contactResult = await submitContactToHubSpot(formData, logger);
+
+    if (!contactResult.success) {
+      logger.error('Failed to submit tour request contact to HubSpot', { error: contactResult.error });
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Failed to submit contact information to HubSpot',
+          details,
+        },
+        { status: contactResult.retryable ? 503 : 500 }
+      );
+    }
+
+    details.contactSubmitted = true;
+
+    // Step 2: Wait for the Forms API to create the contact (never creating a
+    // second one), then set marketing consent when opted in
+    const resolveResult = await resolveSubmittedContact(formData.email, contactResult.contactId, logger);
+    const contactId = resolveResult.contactId;
+
+    if (!contactId) {
+      logger.warn('Failed to resolve submitted contact', { error: resolveResult.error });
+    } else if (formData.marketing_opt_in) {
+      const consentResult = await updateMarketingConsent(contactId, logger);
+      if (!consentResult.success) {
+        logger.warn('Failed to set marketing consent', { contactId, error: consentResult.error });
+      } else {
+        details.marketingConsentSet = true;
+      }
+    }
+
+    // Step 3: Look up the Listing by external_listing_id (which maps to assetId)
+    const listingResult = await findListingByExternalId(formData.external_listing_id, logger);
+
+    if (!listingResult.success) {
+      logger.warn('Listing lookup failed - skipping tour association', {
+        external_listing_id: formData.external_listing_id,
+        notFound: listingResult.notFound,
+        error: listingResult.error,
+      });
+    } else {
+      details.listingFound = true;
+    }
+
+    // Step 4: Associate the Contact with the Listing as "Tour Requested"
+    if (contactId && listingResult.listingId) {
+      const associationResult = await associateContactToListing(
+        contactId,
+        listingResult.listingId,
+        'tour-requested',
+        logger
+      );
+
+      if (!associationResult.success) {
+        // Log the error but don't fail the request - the agent still gets a task
+        logger.warn('Failed to create tour Contact-Listing association', {
+          contactId,
+          listingId: listingResult.listingId,
+          error: associationResult.error,
+        });
+      } else {
+        details.associationCreated = true;
+      }
+    }
+
+    // Step 5: Create a task for the listing agent to confirm the tour.
+    // This runs even when the Listing was not found so the request is not lost.
+    const taskResult = await createTask(
+      {
+        subject: `Confirm ${TOUR_TYPE_LABELS[formData.tour_type].toLowerCase()}: listing ${formData.external_listing_id}`,
+        body: buildTaskBody(formData),
+        dueAt: new Date(Date.now() + TOUR_TASK_DUE_MS),
+        ownerId: listingResult.ownerId || getHubSpotConfig().tourTaskOwnerId,
+        priority: 'HIGH',
+      },
+      { contactId, listingId: listingResult.listingId },
+      logger
+    );
+
+    if (!taskResult.success) {
+      logger.error('Failed to create tour request task', {
+        contactId,
+        listingId: listingResult.listingId,
+        error: taskResult.error,
+      });
+    } else {
+      details.taskCreated = true;
+    }
+
+    // The request is only useful if someone will follow up on it
+    if (!details.taskCreated && !details.associationCreated) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Your tour request could not be recorded. Please try again or contact us directly.',
+          details,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Tour request submitted successfully',
+        details,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    logger.error('Unexpected error in tour-request API', { error });
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse<ApiResponse>> {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Method not allowed. Use POST to submit form data.',
+    },
+    { status: 405 }
+  );
+}
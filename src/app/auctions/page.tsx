@@ -0,0 +1,122 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import PropertyCard from '@/components/PropertyCard';
+import Pagination from '@/components/Pagination';
+import { properties } from '@/data/properties';
+import {
+  AUCTION_PHASE_LABELS,
+  AUCTION_PHASES,
+  AuctionPhase,
+  getAuctionListing,
+} from '@/lib/auctions';
+import { getParam, paginate, parseListingOptions, SearchParams } from '@/lib/propertySearch';
+
+export const metadata: Metadata = {
+  title: 'Property Auctions | VRM Properties',
+  description: 'Online and in-person property auctions, sorted by the auctions ending soonest.',
+};
+
+const getAuctionsHref = (phase: AuctionPhase | undefined, page = 1) => {
+  const query = new URLSearchParams();
+  if (phase) query.set('phase', phase);
+  if (page > 1) query.set('page', String(page));
+  const queryString = query.toString();
+  return queryString ? `/auctions?${queryString}` : '/auctions';
+};
+
+export default async function AuctionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const phaseParam = getParam(params, 'phase');
+  const phase = AUCTION_PHASES.find((value) => value === phaseParam);
+  const { page, pageSize } = parseListingOptions(params);
+
+  // Phases depend on the current time, so they are evaluated per request
+  const { entries, counts } = getAuctionListing(properties);
+  const auctionsInPhase = entries
+    .filter((entry) => !phase || entry.phase === phase)
+    .map((entry) => entry.property);
+
+  const result = paginate(auctionsInPhase, page, pageSize);
+  if (page > result.totalPages) {
+    notFound();
+  }
+
+  const tabClassName = (selected: boolean) =>
+    `px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+      selected ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-blue-50 hover:text-blue-600'
+    }`;
+
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gray-50">
+        {/* Page Header */}
+        <section className="bg-gradient-to-r from-blue-600 to-blue-800 text-white py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Property Auctions
+            </h1>
+            <p className="text-xl text-blue-100">
+              Online and in-person auctions, ending soonest first
+            </p>
+          </div>
+        </section>
+
+        {/* Phase Tabs */}
+        <section className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+            <nav aria-label="Auction status" className="flex flex-wrap gap-2">
+              <Link href={getAuctionsHref(undefined)} className={tabClassName(!phase)}>
+                All ({entries.length})
+              </Link>
+              {AUCTION_PHASES.map((value) => (
+                <Link key={value} href={getAuctionsHref(value)} className={tabClassName(phase === value)}>
+                  {AUCTION_PHASE_LABELS[value]} ({counts[value]})
+                </Link>
+              ))}
+            </nav>
+          </div>
+        </section>
+
+        {/* Auctions Grid */}
+        <section className="py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            {result.items.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {result.items.map((property) => (
+                    <PropertyCard key={property.id} property={property} />
+                  ))}
+                </div>
+                <Pagination
+                  page={result.page}
+                  totalPages={result.totalPages}
+                  getPageHref={(pageNumber) => getAuctionsHref(phase, pageNumber)}
+                />
+              </>
+            ) : (
+              <div className="text-center py-16 text-gray-500">
+                <p className="text-lg">
+                  {phase ? `No ${AUCTION_PHASE_LABELS[phase].toLowerCase()} auctions right now.` : 'No auctions right now.'}
+                </p>
+                <Link href="/properties" className="text-blue-600 hover:text-blue-700 font-medium mt-2 inline-block">
+                  Browse all properties
+                </Link>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import PropertyCard from '@/components/PropertyCard';
+import Pagination from '@/components/Pagination';
+import { properties } from '@/data/properties';
+import {
+  DEFAULT_SORT,
+  getAvailableStates,
+  getParam,
+  paginate,
+  parseListingOptions,
+  SearchParams,
+  sortProperties,
+} from '@/lib/propertySearch';
+import { getStateName } from '@/lib/usStates';
+
+export const metadata: Metadata = {
+  title: 'Coming Soon Properties | VRM Properties',
+  description: 'Properties that will be listed for sale soon. Sign up to be notified when they become available.',
+  alternates: { canonical: '/coming-soon' },
+};
+
+const comingSoonProperties = sortProperties(
+  properties.filter((property) => property.status === 'coming-soon'),
+  DEFAULT_SORT
+);
+
+const getComingSoonHref = (state: string | undefined, page = 1) => {
+  const query = new URLSearchParams();
+  if (state) query.set('state', state);
+  if (page > 1) query.set('page', String(page));
+  const queryString = query.toString();
+  return queryString ? `/coming-soon?${queryString}` : '/coming-soon';
+};
+
+export default async function ComingSoonPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const states = getAvailableStates(comingSoonProperties);
+  const stateParam = getParam(params, 'state')?.toUpperCase();
+  const state = states.find((value) => value === stateParam);
+  const { page, pageSize } = parseListingOptions(params);
+
+  const propertiesInState = state
+    ? comingSoonProperties.filter((property) => property.state === state)
+    : comingSoonProperties;
+
+  const result = paginate(propertiesInState, page, pageSize);
+  if (page > result.totalPages) {
+    notFound();
+  }
+
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gray-50">
+        {/* Page Header */}
+        <section className="bg-gradient-to-r from-blue-600 to-blue-800 text-white py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Coming Soon
+            </h1>
+            <p className="text-xl text-blue-100">
+              Be the first to know when these properties hit the market
+            </p>
+          </div>
+        </section>
+
+        {/* State Filter */}
+        <section className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+            <form method="GET" action="/coming-soon" className="flex flex-wrap items-end gap-4">
+              <div>
+                <label htmlFor="state" className="block text-sm font-medium text-gray-700 mb-1">
+                  State
+                </label>
+                <select
+                  id="state"
+                  name="state"
+                  defaultValue={state ?? ''}
+                  className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">All States</option>
+                  {states.map((value) => (
+                    <option key={value} value={value}>
+                      {getStateName(value)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md font-semibold transition-colors"
+              >
+                Apply
+              </button>
+              <p className="text-sm text-gray-600 sm:ml-auto">
+                {result.totalItems.toLocaleString()} coming soon {result.totalItems === 1 ? 'property' : 'properties'}
+                {state ? ` in ${getStateName(state)}` : ''}
+              </p>
+            </form>
+          </div>
+        </section>
+
+        {/* Properties Grid */}
+        <section className="py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            {result.items.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {result.items.map((property) => (
+                    <PropertyCard key={property.id} property={property} />
+                  ))}
+                </div>
+                <Pagination
+                  page={result.page}
+                  totalPages={result.totalPages}
+                  getPageHref={(pageNumber) => getComingSoonHref(state, pageNumber)}
+                />
+              </>
+            ) : (
+              <div className="text-center py-16 text-gray-500">
+                <p className="text-lg">No coming soon properties right now.</p>
+                <Link href="/properties" className="text-blue-600 hover:text-blue-700 font-medium mt-2 inline-block">
+                  Browse all properties
+                </Link>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import PropertyInquiryForm from '@/components/PropertyInquiryForm';
+
+export const metadata: Metadata = {
+  title: 'Contact Us | VRM Properties',
+  description: 'Questions about VA-owned properties, financing or the buying process? Send us a message.',
+};
+
+export default function ContactPage() {
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gray-50">
+        {/* Page Header */}
+        <section className="bg-gradient-to-r from-blue-600 to-blue-800 text-white py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Contact Us
+            </h1>
+            <p className="text-xl text-blue-100">
+              Questions about a property, financing or the buying process? We&apos;re here to help.
+            </p>
+          </div>
+        </section>
+
+        <section className="py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 bg-white p-8 rounded-lg shadow-md">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Send Us a Message</h2>
+              {/* General inquiry - no listing, so the form posts to /api/contact */}
+              <PropertyInquiryForm />
+            </div>
+
+            <div className="bg-white p-8 rounded-lg shadow-md h-fit">
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Other Ways to Reach Us</h2>
+              <ul className="space-y-4 text-gray-600">
+                <li>
+                  <p className="text-sm font-semibold text-gray-900">Phone</p>
+                  <a href="tel:8334836333" className="text-blue-600 hover:text-blue-700">(833) 483-6333</a>
+                </li>
+                <li>
+                  <p className="text-sm font-semibold text-gray-900">Email</p>
+                  <a href="mailto:info@vrmproperties.com" className="text-blue-600 hover:text-blue-700">info@vrmproperties.com</a>
+                </li>
+                <li>
+                  <p className="text-sm font-semibold text-gray-900">Looking for a specific property?</p>
+                  <p className="text-sm">
+                    Use the Request Info form on the property&apos;s page, so your inquiry reaches the listing agent.
+                  </p>
+                </li>
+              </ul>
+            </div>
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
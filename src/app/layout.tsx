@@ -1,7 +1,10 @@
 import type { Metadata } from "next";
+import LeadAttributionCapture from "@/components/LeadAttributionCapture";
 import "./globals.css";
 
 export const metadata: Metadata = {
+  // Used to resolve canonical and Open Graph URLs
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'),
   title: "VRM Properties - Real Estate Listings & Sales",
   description: "Find and purchase residential real estate properties, including bank-owned and foreclosure homes. Demo site for HubSpot integration.",
 };
@@ -28,6 +31,7 @@ export default function RootLayout({
         )}
       </head>
       <body className="antialiased font-sans">
+        <LeadAttributionCapture />
         {children}
       </body>
     </html>
@@ -1,10 +1,16 @@
 import { notFound } from 'next/navigation';
-import Image from 'next/image';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import PropertyActionButtons from '@/components/PropertyActionButtons';
 import PropertyInquiryForm from '@/components/PropertyInquiryForm';
+import NotifyMeForm from '@/components/NotifyMeForm';
+import TourRequestForm from '@/components/TourRequestForm';
+import AuctionStatus from '@/components/AuctionStatus';
+import PropertyGallery from '@/components/PropertyGallery';
+import { getAuction } from '@/lib/auctions';
 import { getPropertyById, properties } from '@/data/properties';
+import { getPropertyTypeLabel } from '@/lib/propertyTypes';
+import { getGalleryImages } from '@/lib/propertyMedia';
 
 export async function generateStaticParams() {
   return properties.map((property) => ({
@@ -24,6 +30,8 @@ export default async function PropertyDetailPage({
     notFound();
   }
 
+  const auction = getAuction(property);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -33,6 +41,19 @@ export default async function PropertyDetailPage({
     }).format(price);
   };
 
+  // Rendered on the server, so the time zone is stated explicitly
+  const formatAuctionDate = (timestamp: string) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'UTC',
+      timeZoneName: 'short',
+    });
+  };
+
   return (
     <>
       <Header />
@@ -42,21 +63,15 @@ export default async function PropertyDetailPage({
         <section className="bg-white">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              {/* Image */}
-              <div className="relative h-96 lg:h-[600px] rounded-lg overflow-hidden">
-                <Image
-                  src={property.image}
-                  alt={property.title}
-                  fill
-                  className="object-cover"
-                  priority
-                />
-                {property.status !== 'available' && (
+              {/* Photo Gallery */}
+              <PropertyGallery
+                images={getGalleryImages(property)}
+                overlay={property.status !== 'available' && (
                   <div className="absolute top-4 right-4 bg-blue-600 text-white px-4 py-2 rounded-md font-semibold uppercase">
                     {property.status === 'coming-soon' ? 'Coming Soon' : 'Sold'}
                   </div>
                 )}
-              </div>
+              />
 
               {/* Property Info */}
               <div>
@@ -89,6 +104,12 @@ export default async function PropertyDetailPage({
                   )}
                 </div>
 
+                {property.propertyType && (
+                  <p className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {getPropertyTypeLabel(property.propertyType)}
+                  </p>
+                )}
+
                 <h1 className="text-4xl font-bold text-gray-900 mb-4">
                   {property.title}
                 </h1>
@@ -104,7 +125,7 @@ export default async function PropertyDetailPage({
                 
                 <div className="mb-4">
                   <div className="text-4xl font-bold text-blue-600">
-                    {formatPrice(property.price)}
+                    {property.price > 0 ? formatPrice(property.price) : 'Price TBA'}
                   </div>
                   <div className="text-sm text-gray-600 mt-1">
                     {property.assetListingStatus}
@@ -120,17 +141,15 @@ export default async function PropertyDetailPage({
                 </div>
 
                 {/* Auction Details */}
-                {property.isAuction && (
+                {auction && (
                   <div className="bg-red-50 p-4 rounded-lg mb-6">
                     <h3 className="font-semibold text-red-800 mb-2">Auction Details</h3>
-                    {property.auctionStartDate && (
-                      <p className="text-sm text-red-700">Start: {new Date(property.auctionStartDate).toLocaleString()}</p>
-                    )}
-                    {property.auctionEndDate && (
-                      <p className="text-sm text-red-700">End: {new Date(property.auctionEndDate).toLocaleString()}</p>
+                    <AuctionStatus auction={auction} variant="full" />
+                    {auction.startsAt && (
+                      <p className="text-sm text-red-700 mt-2">Start: {formatAuctionDate(auction.startsAt)}</p>
                     )}
-                    {property.highBid && (
-                      <p className="text-lg font-bold text-red-800 mt-2">Current High Bid: {formatPrice(property.highBid)}</p>
+                    {auction.endsAt && (
+                      <p className="text-sm text-red-700">End: {formatAuctionDate(auction.endsAt)}</p>
                     )}
                   </div>
                 )}
@@ -166,7 +185,21 @@ export default async function PropertyDetailPage({
                 </div>
                 
                 {/* Action Buttons */}
-                <PropertyActionButtons />
+                <PropertyActionButtons
+                  propertyId={property.id}
+                  canScheduleTour={property.status === 'available'}
+                />
+
+                {/* Notify Me (Coming Soon listings only) */}
+                {property.status === 'coming-soon' && (
+                  <div id="notify-me" className="bg-blue-50 p-6 rounded-lg mt-8">
+                    <h3 className="text-xl font-semibold text-gray-900 mb-1">Coming Soon</h3>
+                    <p className="text-gray-600 mb-4">
+                      This property isn&apos;t on the market yet. Leave your details and we&apos;ll let you know as soon as it&apos;s available.
+                    </p>
+                    <NotifyMeForm externalListingId={property.id} />
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -225,6 +258,24 @@ export default async function PropertyDetailPage({
           </div>
         </section>
 
+        {/* Schedule a Tour (listings for sale only) */}
+        {property.status === 'available' && (
+          <section id="property-tour-form" className="bg-white py-12">
+            <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+              <h2 className="text-3xl font-bold text-gray-900 mb-6 text-center">
+                Schedule a Tour
+              </h2>
+              <p className="text-gray-600 text-center mb-8">
+                Pick up to three times that work for you and the listing agent will confirm your appointment
+              </p>
+
+              <div className="bg-gray-50 p-8 rounded-lg">
+                <TourRequestForm externalListingId={property.id} />
+              </div>
+            </div>
+          </section>
+        )}
+
         {/* Contact Form */}
         <section id="property-inquiry-form" className="bg-white py-12">
           <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -1,9 +1,77 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import PropertyCard from '@/components/PropertyCard';
+import Pagination from '@/components/Pagination';
 import { properties } from '@/data/properties';
+import {
+  filterProperties,
+  getAvailableStates,
+  hasActiveFilters,
+  paginate,
+  parseListingOptions,
+  parsePropertyFilters,
+  SearchParams,
+  SORT_OPTIONS,
+  sortProperties,
+  toListingQuery,
+} from '@/lib/propertySearch';
+import { getStateName } from '@/lib/usStates';
+import { PROPERTY_TYPE_LABELS, PROPERTY_TYPES } from '@/lib/propertyTypes';
+
+const MIN_PRICE_OPTIONS = [50000, 100000, 150000, 200000, 300000, 500000];
+const MAX_PRICE_OPTIONS = [100000, 150000, 200000, 300000, 500000, 1000000];
+const BEDROOM_OPTIONS = [1, 2, 3, 4, 5];
+
+const formatPriceOption = (price: number) => {
+  return price >= 1000000 ? `$${price / 1000000}M` : `$${price / 1000}k`;
+};
+
+const getListingHref = (query: string) => {
+  return query ? `/properties?${query}` : '/properties';
+};
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+  const params = await searchParams;
+  const filters = parsePropertyFilters(params);
+  const options = parseListingOptions(params);
+
+  return {
+    title: options.page > 1
+      ? `All Properties - Page ${options.page} | VRM Properties`
+      : 'All Properties | VRM Properties',
+    alternates: {
+      canonical: getListingHref(toListingQuery(filters, options)),
+    },
+  };
+}
+
+export default async function PropertiesPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const filters = parsePropertyFilters(params);
+  const options = parseListingOptions(params);
+  const filteredProperties = filterProperties(properties, filters);
+  const result = paginate(sortProperties(filteredProperties, options.sort), options.page, options.pageSize);
+  const states = getAvailableStates(properties);
+
+  // Out-of-range pages are not real pages - don't render an empty duplicate
+  if (options.page > result.totalPages) {
+    notFound();
+  }
+
+  const firstShown = (result.page - 1) * result.pageSize + 1;
+  const lastShown = firstShown + result.items.length - 1;
 
-export default function PropertiesPage() {
   return (
     <>
       <Header />
@@ -24,41 +92,100 @@ export default function PropertiesPage() {
         {/* Filters */}
         <section className="bg-white border-b border-gray-200">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-            <div className="flex flex-wrap gap-4 items-center">
+            <form action="/properties" method="get" className="flex flex-wrap gap-4 items-center">
               <div className="flex-1 min-w-[200px]">
                 <input
                   type="text"
-                  placeholder="Search properties..."
+                  name="q"
+                  defaultValue={filters.q ?? ''}
+                  placeholder="Search by address, city, ZIP or property ID..."
                   className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
               
-              <select className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+              <select
+                name="state"
+                defaultValue={filters.state ?? ''}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
                 <option value="">All States</option>
-                <option value="FL">Florida</option>
-                <option value="CO">Colorado</option>
-                <option value="CA">California</option>
-                <option value="AZ">Arizona</option>
-                <option value="SC">South Carolina</option>
+                {states.map((state) => (
+                  <option key={state} value={state}>{getStateName(state)}</option>
+                ))}
               </select>
               
-              <select className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
-                <option value="">Price Range</option>
-                <option value="0-500000">Under $500k</option>
-                <option value="500000-1000000">$500k - $1M</option>
-                <option value="1000000-2000000">$1M - $2M</option>
-                <option value="2000000+">$2M+</option>
+              <select
+                name="type"
+                defaultValue={filters.type ?? ''}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">All Property Types</option>
+                {PROPERTY_TYPES.map((type) => (
+                  <option key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+
+              <select
+                name="minPrice"
+                defaultValue={filters.minPrice ?? ''}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Min Price</option>
+                {MIN_PRICE_OPTIONS.map((price) => (
+                  <option key={price} value={price}>{formatPriceOption(price)}+</option>
+                ))}
+              </select>
+
+              <select
+                name="maxPrice"
+                defaultValue={filters.maxPrice ?? ''}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Max Price</option>
+                {MAX_PRICE_OPTIONS.map((price) => (
+                  <option key={price} value={price}>Up to {formatPriceOption(price)}</option>
+                ))}
               </select>
               
-              <select className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">
+              <select
+                name="beds"
+                defaultValue={filters.beds ?? ''}
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
                 <option value="">Bedrooms</option>
-                <option value="1">1+</option>
-                <option value="2">2+</option>
-                <option value="3">3+</option>
-                <option value="4">4+</option>
-                <option value="5">5+</option>
+                {BEDROOM_OPTIONS.map((beds) => (
+                  <option key={beds} value={beds}>{beds}+</option>
+                ))}
               </select>
-            </div>
+
+              <select
+                name="sort"
+                defaultValue={options.sort}
+                aria-label="Sort by"
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+
+              {/* Preserve a custom page size across searches; page always resets to 1 */}
+              {params.pageSize && (
+                <input type="hidden" name="pageSize" value={options.pageSize} />
+              )}
+
+              <button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md font-semibold transition-colors"
+              >
+                Search
+              </button>
+              {hasActiveFilters(filters) && (
+                <Link href="/properties" className="text-sm text-gray-600 hover:text-blue-600">
+                  Clear filters
+                </Link>
+              )}
+            </form>
           </div>
         </section>
 
@@ -67,15 +194,38 @@ export default function PropertiesPage() {
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="mb-6">
               <p className="text-gray-600">
-                Showing <span className="font-semibold">{properties.length}</span> properties
+                {result.totalItems > 0 ? (
+                  <>
+                    Showing <span className="font-semibold">{firstShown}–{lastShown}</span> of{' '}
+                    <span className="font-semibold">{result.totalItems}</span> properties
+                  </>
+                ) : (
+                  <>Showing <span className="font-semibold">0</span> properties</>
+                )}
               </p>
             </div>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-              {properties.map((property) => (
-                <PropertyCard key={property.id} property={property} />
-              ))}
-            </div>
+            {result.items.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {result.items.map((property) => (
+                    <PropertyCard key={property.id} property={property} />
+                  ))}
+                </div>
+                <Pagination
+                  page={result.page}
+                  totalPages={result.totalPages}
+                  getPageHref={(page) => getListingHref(toListingQuery(filters, { ...options, page }))}
+                />
+              </>
+            ) : (
+              <div className="text-center py-16 text-gray-500">
+                <p className="text-lg">No properties match your search.</p>
+                <Link href="/properties" className="text-blue-600 hover:text-blue-700 font-medium mt-2 inline-block">
+                  View all properties
+                </Link>
+              </div>
+            )}
           </div>
         </section>
       </main>
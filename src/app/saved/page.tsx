@@ -0,0 +1,40 @@
+import type { Metadata } from 'next';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import SavedPropertiesList from '@/components/SavedPropertiesList';
+
+export const metadata: Metadata = {
+  title: 'Saved Properties | VRM Properties',
+  description: 'The properties you have saved while browsing.',
+  robots: { index: false },
+};
+
+export default function SavedPage() {
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gray-50">
+        {/* Page Header */}
+        <section className="bg-gradient-to-r from-blue-600 to-blue-800 text-white py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Saved Properties
+            </h1>
+            <p className="text-xl text-blue-100">
+              The properties you&apos;ve saved, most recent first
+            </p>
+          </div>
+        </section>
+
+        <section className="py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <SavedPropertiesList />
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
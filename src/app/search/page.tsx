@@ -0,0 +1,195 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import PropertyCard from '@/components/PropertyCard';
+import Pagination from '@/components/Pagination';
+import FacetList from '@/components/FacetList';
+import { properties } from '@/data/properties';
+import {
+  applyFacetSelection,
+  computeFacets,
+  FacetSelection,
+  parseFacetSelection,
+  toFacetQuery,
+  toggleFacetValue,
+} from '@/lib/propertyFacets';
+import {
+  filterProperties,
+  ListingOptions,
+  paginate,
+  parseListingOptions,
+  parsePropertyFilters,
+  SearchParams,
+  SORT_OPTIONS,
+  sortProperties,
+  toListingQuery,
+} from '@/lib/propertySearch';
+
+/**
+ * Builds a /search URL from the free-text query, facet selection and listing options.
+ */
+const getSearchHref = (q: string | undefined, selection: FacetSelection, options: Partial<ListingOptions>) => {
+  const query = [toListingQuery({ q }, options), toFacetQuery(selection)].filter(Boolean).join('&');
+  return query ? `/search?${query}` : '/search';
+};
+
+export async function generateMetadata({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+  const params = await searchParams;
+  const { q } = parsePropertyFilters(params);
+  const options = parseListingOptions(params);
+
+  return {
+    title: 'Property Search | VRM Properties',
+    alternates: {
+      canonical: getSearchHref(q, parseFacetSelection(params), options),
+    },
+  };
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  // Only free-text search is taken from the listing filters; state, price and
+  // bedrooms are handled by the facets below
+  const { q } = parsePropertyFilters(params);
+  const selection = parseFacetSelection(params);
+  const options = parseListingOptions(params);
+
+  const matchingText = filterProperties(properties, { q });
+  const facets = computeFacets(matchingText, selection);
+  const results = applyFacetSelection(matchingText, selection);
+  const result = paginate(sortProperties(results, options.sort), options.page, options.pageSize);
+
+  if (options.page > result.totalPages) {
+    notFound();
+  }
+
+  const hasSelection = Object.keys(selection).length > 0 || Boolean(q);
+
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen bg-gray-50">
+        {/* Page Header */}
+        <section className="bg-gradient-to-r from-blue-600 to-blue-800 text-white py-16">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">
+              Property Search
+            </h1>
+            <p className="text-xl text-blue-100">
+              Narrow down properties by location, size, price and financing
+            </p>
+          </div>
+        </section>
+
+        {/* Search Bar */}
+        <section className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+            <form action="/search" method="get" className="flex flex-wrap gap-4 items-center">
+              <div className="flex-1 min-w-[200px]">
+                <input
+                  type="text"
+                  name="q"
+                  defaultValue={q ?? ''}
+                  placeholder="Search by address, city, ZIP or property ID..."
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <select
+                name="sort"
+                defaultValue={options.sort}
+                aria-label="Sort by"
+                className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+
+              {/* Keep the current facet selection when the text search changes */}
+              {Object.entries(selection).flatMap(([key, values]) =>
+                values.map((value) => (
+                  <input key={`${key}-${value}`} type="hidden" name={key} value={value} />
+                ))
+              )}
+
+              <button
+                type="submit"
+                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md font-semibold transition-colors"
+              >
+                Search
+              </button>
+              {hasSelection && (
+                <Link href="/search" className="text-sm text-gray-600 hover:text-blue-600">
+                  Clear all
+                </Link>
+              )}
+            </form>
+          </div>
+        </section>
+
+        <section className="py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 grid grid-cols-1 lg:grid-cols-4 gap-8">
+            {/* Facets */}
+            <aside className="lg:col-span-1 bg-white rounded-lg shadow-md p-6 h-fit">
+              {facets.map((facet) => (
+                <FacetList
+                  key={facet.key}
+                  facet={facet}
+                  getToggleHref={(value) =>
+                    getSearchHref(q, toggleFacetValue(selection, facet.key, value.value), { sort: options.sort, pageSize: options.pageSize })
+                  }
+                />
+              ))}
+            </aside>
+
+            {/* Results */}
+            <div className="lg:col-span-3">
+              <div className="mb-6">
+                <p className="text-gray-600">
+                  <span className="font-semibold">{result.totalItems.toLocaleString()}</span>{' '}
+                  {result.totalItems === 1 ? 'property matches' : 'properties match'} your search
+                </p>
+              </div>
+
+              {result.items.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                    {result.items.map((property) => (
+                      <PropertyCard key={property.id} property={property} />
+                    ))}
+                  </div>
+                  <Pagination
+                    page={result.page}
+                    totalPages={result.totalPages}
+                    getPageHref={(page) => getSearchHref(q, selection, { ...options, page })}
+                  />
+                </>
+              ) : (
+                <div className="text-center py-16 text-gray-500">
+                  <p className="text-lg">No properties match your search.</p>
+                  <Link href="/search" className="text-blue-600 hover:text-blue-700 font-medium mt-2 inline-block">
+                    Clear all filters
+                  </Link>
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      </main>
+
+      <Footer />
+    </>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Auction,
+  AUCTION_PHASE_LABELS,
+  AuctionPhase,
+  formatCountdown,
+  formatTimeAgo,
+  getAuctionPhase,
+  getCountdownTarget,
+} from '@/lib/auctions';
+
+/**
+ * AuctionStatus - Live auction phase, countdown and high bid indicator
+ *
+ * Re-renders every second so that the countdown ticks and the phase flips
+ * from upcoming to live to ended without a page reload. The server render uses
+ * the server clock, so time-dependent text suppresses hydration warnings.
+ */
+
+interface AuctionStatusProps {
+  auction: Auction;
+  /**
+   * 'compact' renders a single line for property cards;
+   * 'full' renders the detail page panel with high bid information.
+   */
+  variant?: 'compact' | 'full';
+}
+
+const PHASE_BADGE_CLASSES: Record<AuctionPhase, string> = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  live: 'bg-red-600 text-white',
+  ended: 'bg-gray-200 text-gray-700',
+};
+
+export default function AuctionStatus({ auction, variant = 'compact' }: AuctionStatusProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(price);
+  };
+
+  const phase = getAuctionPhase(auction, now);
+  const target = getCountdownTarget(auction, phase);
+  const countdown = target !== undefined
+    ? `${phase === 'upcoming' ? 'Starts in' : 'Ends in'} ${formatCountdown(target - now)}`
+    : phase === 'ended'
+      ? 'Auction ended'
+      : null;
+
+  const badge = (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-semibold uppercase ${PHASE_BADGE_CLASSES[phase]}`}
+      suppressHydrationWarning
+    >
+      {AUCTION_PHASE_LABELS[phase]}
+    </span>
+  );
+
+  if (variant === 'compact') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        {badge}
+        {countdown && <span className="font-mono" suppressHydrationWarning>{countdown}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {badge}
+        <span className="text-sm text-red-700">
+          {auction.format === 'online' ? 'Online Auction' : 'In-Person Auction'}
+        </span>
+        {auction.offerPending && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+            Offer Pending
+          </span>
+        )}
+      </div>
+      {countdown && (
+        <p className="text-2xl font-mono font-bold text-red-800" suppressHydrationWarning>
+          {countdown}
+        </p>
+      )}
+      {auction.highBid ? (
+        <p className="text-lg font-bold text-red-800">
+          Current High Bid: {formatPrice(auction.highBid)}
+          {auction.highBidPlacedAt && (
+            <span className="block text-sm font-normal text-red-700" suppressHydrationWarning>
+              Placed {formatTimeAgo(auction.highBidPlacedAt, now)}
+            </span>
+          )}
+        </p>
+      ) : (
+        phase !== 'ended' && <p className="text-sm text-red-700">No bids placed yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import Link from 'next/link';
+import type { Facet, FacetValue } from '@/lib/propertyFacets';
+
+interface FacetListProps {
+  facet: Facet;
+  /**
+   * Builds the link that toggles a facet value on or off.
+   */
+  getToggleHref: (value: FacetValue) => string;
+  /**
+   * Number of values shown before the rest are collapsed under "Show more".
+   */
+  visibleLimit?: number;
+  /**
+   * Maximum number of values rendered in total; long tails (e.g. cities)
+   * are truncated with a hint to narrow the search.
+   */
+  maxValues?: number;
+}
+
+export default function FacetList({ facet, getToggleHref, visibleLimit = 10, maxValues = 100 }: FacetListProps) {
+  if (facet.values.length === 0) {
+    return null;
+  }
+
+  // Selected values always stay visible, ahead of the collapsed tail
+  const selected = facet.values.filter((value) => value.selected);
+  const unselected = facet.values.filter((value) => !value.selected);
+  const visible = [...selected, ...unselected.slice(0, Math.max(0, visibleLimit - selected.length))];
+  const collapsed = unselected.slice(visible.length - selected.length, maxValues);
+  const truncated = unselected.length - (visible.length - selected.length) - collapsed.length;
+
+  const renderValue = (value: FacetValue) => (
+    <li key={value.value}>
+      <Link
+        href={getToggleHref(value)}
+        scroll={false}
+        rel="nofollow"
+        className={`flex items-center justify-between gap-2 px-2 py-1 rounded-md text-sm transition-colors ${
+          value.selected
+            ? 'bg-blue-50 text-blue-700 font-semibold'
+            : value.count === 0
+              ? 'text-gray-400 hover:bg-gray-50'
+              : 'text-gray-700 hover:bg-gray-50 hover:text-blue-600'
+        }`}
+      >
+        <span className="flex items-center gap-2">
+          <span
+            className={`inline-block w-4 h-4 rounded border ${
+              value.selected ? 'bg-blue-600 border-blue-600' : 'border-gray-300'
+            }`}
+            aria-hidden="true"
+          />
+          {value.label}
+        </span>
+        <span className="text-xs text-gray-500">{value.count.toLocaleString()}</span>
+      </Link>
+    </li>
+  );
+
+  return (
+    <div className="border-b border-gray-200 pb-4 mb-4">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-2">{facet.label}</h3>
+      <ul className="space-y-1">{visible.map(renderValue)}</ul>
+      {collapsed.length > 0 && (
+        <details className="mt-1">
+          <summary className="text-sm text-blue-600 hover:text-blue-700 cursor-pointer px-2 py-1">
+            Show {collapsed.length + truncated} more
+          </summary>
+          <ul className="space-y-1 mt-1">{collapsed.map(renderValue)}</ul>
+          {truncated > 0 && (
+            <p className="text-xs text-gray-500 px-2 mt-2">
+              {truncated} more not shown. Select a state to narrow the list.
+            </p>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import Link from 'next/link';
+import SavedPropertiesLink from '@/components/SavedPropertiesLink';
 
 export default function Header() {
   return (
@@ -32,6 +33,18 @@ export default function Header() {
             >
               Search
             </Link>
+            <Link 
+              href="/auctions" 
+              className="text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium transition-colors"
+            >
+              Auctions
+            </Link>
+            <Link
+              href="/coming-soon"
+              className="text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium transition-colors"
+            >
+              Coming Soon
+            </Link>
             <Link 
               href="/agents" 
               className="text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium transition-colors"
@@ -53,7 +66,8 @@ export default function Header() {
           </nav>
 
           {/* CTA Button */}
-          <div className="hidden md:block">
+          <div className="hidden md:flex items-center gap-2">
+            <SavedPropertiesLink />
             <Link
               href="/contact"
               className="bg-blue-600 text-white px-4 py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
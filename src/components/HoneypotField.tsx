@@ -0,0 +1,29 @@
+import { Ref } from 'react';
+import { HONEYPOT_FIELD } from '@/lib/spamProtection';
+
+interface HoneypotFieldProps {
+  /** ID for the input, unique on the page */
+  id: string;
+  inputRef: Ref<HTMLInputElement>;
+}
+
+/**
+ * The spam-check honeypot: hidden from people and assistive technology;
+ * bots that fill in every field are rejected (see lib/spamProtection.ts).
+ */
+export default function HoneypotField({ id, inputRef }: HoneypotFieldProps) {
+  return (
+    <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+      <label htmlFor={id}>Website</label>
+      <input
+        type="text"
+        id={id}
+        name={HONEYPOT_FIELD}
+        ref={inputRef}
+        tabIndex={-1}
+        autoComplete="off"
+        defaultValue=""
+      />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect } from 'react';
+import { captureLeadAttribution } from '@/lib/leadAttribution';
+
+/**
+ * LeadAttributionCapture - Records the visit's lead source on page load
+ *
+ * Mounted once in the root layout. Renders nothing; the inquiry forms read
+ * what it stores (see lib/leadAttribution.ts).
+ */
+export default function LeadAttributionCapture() {
+  useEffect(() => {
+    captureLeadAttribution();
+  }, []);
+
+  return null;
+}
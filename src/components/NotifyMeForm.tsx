@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import HoneypotField from '@/components/HoneypotField';
+import { useSpamCheckFields } from '@/lib/spamCheckFields';
+
+/**
+ * NotifyMeForm - "Notify me when available" Form Component
+ *
+ * Shown on Coming Soon listing detail pages. Submits to the server-side
+ * /api/notify-me endpoint, which records the contact in HubSpot and associates
+ * it with the Listing using the "Notify When Available" association label.
+ * Sends the same spam-check fields as the other inquiry forms (see
+ * lib/spamCheckFields.ts).
+ */
+
+interface NotifyMeFormProps {
+  /**
+   * The external listing ID (assetId) of the Coming Soon property.
+   */
+  externalListingId: string;
+}
+
+export default function NotifyMeForm({ externalListingId }: NotifyMeFormProps) {
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    marketingOptIn: false,
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { honeypotRef, getSpamCheckFields } = useSpamCheckFields();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    if (!formData.marketingOptIn) {
+      setError('You must agree to receive email updates about this property to be notified.');
+      setIsSubmitting(false);
+      return;
+    }
+
+    const apiPayload = {
+      firstname: formData.firstName,
+      lastname: formData.lastName,
+      email: formData.email,
+      external_listing_id: externalListingId,
+      marketing_opt_in: formData.marketingOptIn,
+      pageUri: typeof window !== 'undefined' ? window.location.href : '',
+      pageName: typeof document !== 'undefined' ? document.title : '',
+      ...(await getSpamCheckFields()),
+    };
+
+    try {
+      const response = await fetch('/api/notify-me', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(apiPayload),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setIsSubmitted(true);
+      } else if (result.errors && result.errors.length > 0) {
+        setError(result.errors.map((err: { message: string }) => err.message).join('. '));
+      } else {
+        setError(result.message || 'An error occurred while submitting the form.');
+      }
+    } catch (err) {
+      console.error('Notify me submission error:', err);
+      setError('A network error occurred. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <div className="text-center py-6">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-green-100 mb-3">
+          <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">You&apos;re on the list!</h3>
+        <p className="text-gray-600">
+          We&apos;ll email you as soon as this property is available for sale.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <HoneypotField id="notifyWebsite" inputRef={honeypotRef} />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="notifyFirstName" className="block text-sm font-medium text-gray-700 mb-1">
+            First Name *
+          </label>
+          <input
+            type="text"
+            id="notifyFirstName"
+            name="firstName"
+            value={formData.firstName}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="John"
+          />
+        </div>
+        <div>
+          <label htmlFor="notifyLastName" className="block text-sm font-medium text-gray-700 mb-1">
+            Last Name *
+          </label>
+          <input
+            type="text"
+            id="notifyLastName"
+            name="lastName"
+            value={formData.lastName}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Doe"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="notifyEmail" className="block text-sm font-medium text-gray-700 mb-1">
+          Email Address *
+        </label>
+        <input
+          type="email"
+          id="notifyEmail"
+          name="email"
+          value={formData.email}
+          onChange={handleChange}
+          required
+          className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="john.doe@example.com"
+        />
+      </div>
+
+      <div className="flex items-start">
+        <div className="flex items-center h-5">
+          <input
+            id="notifyMarketingOptIn"
+            name="marketingOptIn"
+            type="checkbox"
+            checked={formData.marketingOptIn}
+            onChange={handleChange}
+            required
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+          />
+        </div>
+        <div className="ml-3">
+          <label htmlFor="notifyMarketingOptIn" className="text-sm text-gray-700 cursor-pointer">
+            I agree to receive email updates about this property and similar listings. *
+          </label>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 px-6 rounded-md font-semibold transition-colors"
+      >
+        {isSubmitting ? 'Submitting...' : 'Notify Me When Available'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { getPageNumbers } from '@/lib/propertySearch';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  /**
+   * Builds the link for a given page, preserving the current filters and sort.
+   */
+  getPageHref: (page: number) => string;
+}
+
+export default function Pagination({ page, totalPages, getPageHref }: PaginationProps) {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const linkClassName = 'px-3 py-2 rounded-md text-sm font-medium border border-gray-300 text-gray-700 hover:bg-blue-50 hover:text-blue-600 transition-colors';
+  const disabledClassName = 'px-3 py-2 rounded-md text-sm font-medium border border-gray-200 text-gray-300 cursor-not-allowed';
+
+  return (
+    <nav aria-label="Pagination" className="flex flex-wrap items-center justify-center gap-2 mt-12">
+      {page > 1 ? (
+        <Link href={getPageHref(page - 1)} rel="prev" className={linkClassName}>
+          Previous
+        </Link>
+      ) : (
+        <span className={disabledClassName} aria-disabled="true">Previous</span>
+      )}
+
+      {getPageNumbers(page, totalPages).map((pageNumber, index) =>
+        pageNumber === null ? (
+          <span key={`gap-${index}`} className="px-2 text-gray-400">…</span>
+        ) : pageNumber === page ? (
+          <span
+            key={pageNumber}
+            aria-current="page"
+            className="px-3 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white border border-blue-600"
+          >
+            {pageNumber}
+          </span>
+        ) : (
+          <Link key={pageNumber} href={getPageHref(pageNumber)} className={linkClassName}>
+            {pageNumber}
+          </Link>
+        )
+      )}
+
+      {page < totalPages ? (
+        <Link href={getPageHref(page + 1)} rel="next" className={linkClassName}>
+          Next
+        </Link>
+      ) : (
+        <span className={disabledClassName} aria-disabled="true">Next</span>
+      )}
+    </nav>
+  );
+}
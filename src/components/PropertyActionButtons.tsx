@@ -1,40 +1,40 @@
 'use client';
 
-export default function PropertyActionButtons() {
-  const scrollToForm = () => {
-    const formSection = document.getElementById('property-inquiry-form');
-    if (formSection) {
-      formSection.scrollIntoView({ behavior: 'smooth' });
-    } else {
-      console.warn('PropertyActionButtons: Could not find element with id "property-inquiry-form"');
-    }
-  };
+import SavePropertyButton from '@/components/SavePropertyButton';
 
-  const handleSaveProperty = () => {
-    // Save property functionality - placeholder for future implementation
-    console.log('Save property feature coming soon');
-  };
+interface PropertyActionButtonsProps {
+  propertyId: string;
+  /** Tours are only offered for listings that are for sale */
+  canScheduleTour: boolean;
+}
+
+function scrollToSection(id: string) {
+  const section = document.getElementById(id);
+  if (section) {
+    section.scrollIntoView({ behavior: 'smooth' });
+  } else {
+    console.warn(`PropertyActionButtons: Could not find element with id "${id}"`);
+  }
+}
 
+export default function PropertyActionButtons({ propertyId, canScheduleTour }: PropertyActionButtonsProps) {
   return (
     <div className="space-y-3">
-      <button 
-        onClick={scrollToForm}
-        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-md font-semibold transition-colors"
-      >
-        Schedule a Tour
-      </button>
-      <button 
-        onClick={scrollToForm}
+      {canScheduleTour && (
+        <button
+          onClick={() => scrollToSection('property-tour-form')}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-md font-semibold transition-colors"
+        >
+          Schedule a Tour
+        </button>
+      )}
+      <button
+        onClick={() => scrollToSection('property-inquiry-form')}
         className="w-full border-2 border-blue-600 text-blue-600 hover:bg-blue-50 py-3 rounded-md font-semibold transition-colors"
       >
         Request Information
       </button>
-      <button 
-        onClick={handleSaveProperty}
-        className="w-full border-2 border-gray-300 text-gray-700 hover:bg-gray-50 py-3 rounded-md font-semibold transition-colors"
-      >
-        Save Property
-      </button>
+      <SavePropertyButton propertyId={propertyId} />
     </div>
   );
 }
@@ -1,8 +1,15 @@
 import Image from 'next/image';
 import Link from 'next/link';
+import AuctionStatus from '@/components/AuctionStatus';
+import SavePropertyButton from '@/components/SavePropertyButton';
+import { getAuction } from '@/lib/auctions';
+import { getPropertyTypeLabel, PropertyType } from '@/lib/propertyTypes';
+import type { PropertyMedia } from '@/lib/propertyMedia';
 
 export interface Property {
   id: string;
+  /** The feed's assetReferenceId: a human-facing reference, never a lookup key */
+  referenceId?: string;
   title: string;
   // Location & Identity
   address: string;
@@ -14,17 +21,22 @@ export interface Property {
   // Pricing & Status
   price: number;
   assetListingStatus: string;
+  listingStartDate?: string;
   underContractDate?: string;
   soldDate?: string;
   salePrice?: number;
   // Property Characteristics
+  propertyType?: PropertyType;
   bedrooms: number;
   bathrooms: number;
   squareFeet?: number;
   lotSize?: number;
   lotSizeSource?: string;
   // Media
+  /** Primary photo (the first `media` item), or the placeholder image */
   image: string;
+  /** All photos, ordered by `mediaOrder`; empty when the feed has none */
+  media: PropertyMedia[];
   // Listing Flags / Badges
   isNewListing?: boolean;
   isFeatured?: boolean;
@@ -33,7 +45,11 @@ export interface Property {
   isVendeeFinancing?: boolean;
   auctionStartDate?: string;
   auctionEndDate?: string;
+  auctionStatusType?: number;
+  auctionStatus?: string;
+  auctionOfferStatusType?: number;
   highBid?: number;
+  highBidPlacedAt?: string;
   // Derived status for UI
   status: 'available' | 'coming-soon' | 'sold';
 }
@@ -43,6 +59,8 @@ interface PropertyCardProps {
 }
 
 export default function PropertyCard({ property }: PropertyCardProps) {
+  const auction = getAuction(property);
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -54,21 +72,26 @@ export default function PropertyCard({ property }: PropertyCardProps) {
 
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300">
-      <Link href={`/properties/${property.id}`}>
-        <div className="relative h-48 w-full">
-          <Image
-            src={property.image}
-            alt={property.title}
-            fill
-            className="object-cover"
-          />
-          {property.status !== 'available' && (
-            <div className="absolute top-2 right-2 bg-blue-600 text-white px-3 py-1 rounded-md text-xs font-semibold uppercase">
-              {property.status === 'coming-soon' ? 'Coming Soon' : 'Sold'}
-            </div>
-          )}
+      <div className="relative">
+        <Link href={`/properties/${property.id}`}>
+          <div className="relative h-48 w-full">
+            <Image
+              src={property.image}
+              alt={property.title}
+              fill
+              className="object-cover"
+            />
+            {property.status !== 'available' && (
+              <div className="absolute top-2 right-2 bg-blue-600 text-white px-3 py-1 rounded-md text-xs font-semibold uppercase">
+                {property.status === 'coming-soon' ? 'Coming Soon' : 'Sold'}
+              </div>
+            )}
+          </div>
+        </Link>
+        <div className="absolute top-2 left-2">
+          <SavePropertyButton propertyId={property.id} variant="icon" />
         </div>
-      </Link>
+      </div>
       
       <div className="p-4">
         <Link href={`/properties/${property.id}`}>
@@ -77,16 +100,28 @@ export default function PropertyCard({ property }: PropertyCardProps) {
           </h3>
         </Link>
         
+        {property.propertyType && (
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mt-1">
+            {getPropertyTypeLabel(property.propertyType)}
+          </p>
+        )}
+        
         <p className="text-gray-600 text-sm mt-1">
           {property.address}, {property.city}, {property.state} {property.zipCode}
         </p>
         
         <div className="flex items-center justify-between mt-4">
           <span className="text-2xl font-bold text-blue-600">
-            {formatPrice(property.price)}
+            {property.price > 0 ? formatPrice(property.price) : 'Price TBA'}
           </span>
         </div>
         
+        {auction && (
+          <div className="mt-2">
+            <AuctionStatus auction={auction} />
+          </div>
+        )}
+        
         <div className="flex items-center gap-4 mt-4 text-sm text-gray-600">
           <div className="flex items-center gap-1">
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
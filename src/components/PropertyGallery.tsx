@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import type { GalleryImage } from '@/lib/propertyMedia';
+
+/**
+ * PropertyGallery - Photo gallery with thumbnails and a full-screen lightbox
+ *
+ * Keyboard support:
+ * - Left/Right arrows move between photos (gallery focused or lightbox open)
+ * - Enter on the main photo opens the lightbox; Escape closes it
+ *
+ * Images come from `getGalleryImages()`, which supplies a single placeholder
+ * when a property has no photos. The placeholder is not opened in the lightbox.
+ */
+
+interface PropertyGalleryProps {
+  images: GalleryImage[];
+  /** Rendered on top of the main photo, e.g. a status badge */
+  overlay?: React.ReactNode;
+}
+
+export default function PropertyGallery({ images, overlay }: PropertyGalleryProps) {
+  const [index, setIndex] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const openerRef = useRef<HTMLButtonElement>(null);
+
+  const count = images.length;
+  const current = images[index] ?? images[0];
+  const hasPhotos = images.some(image => image.isPhoto);
+
+  const showPrevious = useCallback(() => {
+    setIndex(value => (value - 1 + count) % count);
+  }, [count]);
+
+  const showNext = useCallback(() => {
+    setIndex(value => (value + 1) % count);
+  }, [count]);
+
+  const closeLightbox = useCallback(() => {
+    setIsLightboxOpen(false);
+    openerRef.current?.focus();
+  }, []);
+
+  // While the lightbox is open: keyboard navigation, focus on the close
+  // button and no page scrolling behind the overlay
+  useEffect(() => {
+    if (!isLightboxOpen) {
+      return;
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        closeLightbox();
+      } else if (e.key === 'ArrowLeft') {
+        showPrevious();
+      } else if (e.key === 'ArrowRight') {
+        showNext();
+      }
+    };
+
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    closeButtonRef.current?.focus();
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isLightboxOpen, closeLightbox, showPrevious, showNext]);
+
+  const handleGalleryKeyDown = (e: React.KeyboardEvent) => {
+    if (isLightboxOpen || count < 2) {
+      return;
+    }
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      showPrevious();
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      showNext();
+    }
+  };
+
+  const arrowButtonClassName =
+    'absolute top-1/2 -translate-y-1/2 bg-black/50 hover:bg-black/70 text-white w-10 h-10 rounded-full flex items-center justify-center transition-colors';
+
+  return (
+    <div onKeyDown={handleGalleryKeyDown} aria-roledescription="carousel" aria-label="Property photos">
+      {/* Main Photo */}
+      <div className="relative h-96 lg:h-[520px] rounded-lg overflow-hidden bg-gray-100">
+        <button
+          ref={openerRef}
+          type="button"
+          onClick={() => hasPhotos && setIsLightboxOpen(true)}
+          disabled={!hasPhotos}
+          className="absolute inset-0 w-full h-full cursor-zoom-in disabled:cursor-default"
+          aria-label={hasPhotos ? `Open full-screen photo ${index + 1} of ${count}` : current.alt}
+        >
+          <Image
+            src={current.src}
+            alt={current.alt}
+            fill
+            sizes="(min-width: 1024px) 50vw, 100vw"
+            className="object-cover"
+            priority
+          />
+        </button>
+
+        {overlay}
+
+        {count > 1 && (
+          <>
+            <button type="button" onClick={showPrevious} className={`${arrowButtonClassName} left-4`} aria-label="Previous photo">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button type="button" onClick={showNext} className={`${arrowButtonClassName} right-4`} aria-label="Next photo">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+            <div className="absolute bottom-4 right-4 bg-black/60 text-white text-sm px-3 py-1 rounded-full" aria-live="polite">
+              {index + 1} / {count}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Thumbnails */}
+      {count > 1 && (
+        <div className="flex gap-2 mt-3 overflow-x-auto pb-1">
+          {images.map((image, thumbnailIndex) => (
+            <button
+              key={image.src}
+              type="button"
+              onClick={() => setIndex(thumbnailIndex)}
+              className={`relative flex-shrink-0 w-20 h-16 rounded-md overflow-hidden border-2 transition-colors ${
+                thumbnailIndex === index ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+              }`}
+              aria-label={`Show photo ${thumbnailIndex + 1} of ${count}`}
+              aria-current={thumbnailIndex === index}
+            >
+              <Image src={image.src} alt="" fill sizes="80px" className="object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      {isLightboxOpen && (
+        <div
+          className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Full-screen photo viewer"
+          onClick={closeLightbox}
+        >
+          <div className="relative w-full h-full max-w-6xl max-h-[85vh] mx-4" onClick={e => e.stopPropagation()}>
+            <Image src={current.src} alt={current.alt} fill sizes="100vw" className="object-contain" />
+          </div>
+
+          <button
+            ref={closeButtonRef}
+            type="button"
+            onClick={closeLightbox}
+            className="absolute top-4 right-4 text-white bg-black/50 hover:bg-black/70 w-10 h-10 rounded-full flex items-center justify-center"
+            aria-label="Close full-screen photo viewer"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+
+          {count > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={e => { e.stopPropagation(); showPrevious(); }}
+                className={`${arrowButtonClassName} left-4`}
+                aria-label="Previous photo"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                onClick={e => { e.stopPropagation(); showNext(); }}
+                className={`${arrowButtonClassName} right-4`}
+                aria-label="Next photo"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </button>
+            </>
+          )}
+
+          <p className="absolute bottom-4 left-1/2 -translate-x-1/2 text-white text-sm" aria-live="polite">
+            {current.alt}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
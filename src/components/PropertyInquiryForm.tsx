@@ -1,6 +1,16 @@
 'use client';
 
 import { useState } from 'react';
+import HoneypotField from '@/components/HoneypotField';
+import {
+  InquiryFieldError,
+  InquiryFieldErrors,
+  getInquiryFieldErrors,
+  validateContactInquiryPayload,
+  validateInquiryPayload,
+} from '@/lib/inquirySchema';
+import { getLeadAttribution } from '@/lib/leadAttribution';
+import { useSpamCheckFields } from '@/lib/spamCheckFields';
 
 /**
  * PropertyInquiryForm - Request Info Form Component
@@ -8,177 +18,191 @@ import { useState } from 'react';
  * This component handles property inquiry form submissions with full HubSpot integration.
  * 
  * Features:
- * - Collects contact information (name, email, phone)
+ * - Collects contact information (name, email, phone) and validates it with
+ *   the same schema as the API (lib/inquirySchema.ts), showing each error
+ *   next to its field
  * - Includes external_listing_id as a hidden field for listing association
  * - Requires explicit marketing opt-in checkbox for GDPR compliance
  * - Submits to server-side API for secure HubSpot integration
+ * - Sends the spam-check fields the API requires: an off-screen honeypot
+ *   field, a signed form token that times the submission and, when
+ *   configured, a challenge token (see lib/spamCheckFields.ts)
+ * - Sends the visit's lead source attribution (UTM parameters, referrer,
+ *   landing page, HubSpot tracking cookie; see lib/leadAttribution.ts)
  * 
- * The form submission creates/updates a Contact in HubSpot, sets marketing consent,
- * looks up the associated Listing, and creates a Contact-Listing association.
+ * With an externalListingId, the form posts to /api/request-info, which
+ * creates/updates a Contact in HubSpot, sets marketing consent, looks up the
+ * associated Listing, and creates a Contact-Listing association. Without one
+ * (e.g. on the /contact page), it posts a general inquiry, including the
+ * message, to /api/contact. Either way, the thank-you message is only shown
+ * once the API has accepted the submission.
  */
 
+/**
+ * Form state, keyed by inquiry payload field. `message` is only sent with
+ * general inquiries; /api/request-info does not accept one.
+ */
+interface InquiryFormValues {
+  firstname: string;
+  lastname: string;
+  email: string;
+  phone: string;
+  message: string;
+  marketing_opt_in: boolean;
+}
+
+/**
+ * Fields rendered with their own inline error; errors for any other field
+ * are shown in the banner above the form.
+ */
+const INLINE_ERROR_FIELDS: InquiryFieldError['field'][] = [
+  'firstname',
+  'lastname',
+  'email',
+  'phone',
+  'message',
+  'marketing_opt_in',
+];
+
+const inputClassName = 'w-full px-4 py-3 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function FieldErrorMessage({ id, message }: { id: string; message?: string }) {
+  if (!message) {
+    return null;
+  }
+  return (
+    <p id={id} className="mt-1 text-sm text-red-600">
+      {message}
+    </p>
+  );
+}
+
 interface PropertyInquiryFormProps {
   /**
    * The external listing ID used to associate the contact with the property.
    * This is the authoritative join key for Contact-Listing associations in HubSpot.
    */
   externalListingId?: string;
-  /**
-   * @deprecated Use externalListingId instead. Kept for backwards compatibility.
-   */
-  portalId?: string;
-  /**
-   * @deprecated Use externalListingId instead. Kept for backwards compatibility.
-   */
-  formId?: string;
 }
 
-export default function PropertyInquiryForm({ 
-  externalListingId,
-  portalId, 
-  formId 
-}: PropertyInquiryFormProps) {
-  // For backwards compatibility, check if legacy props are provided
-  const effectivePortalId = portalId || process.env.NEXT_PUBLIC_HUBSPOT_PORTAL_ID;
-  const effectiveFormId = formId || process.env.NEXT_PUBLIC_HUBSPOT_FORM_GUID;
-  
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
+export default function PropertyInquiryForm({ externalListingId }: PropertyInquiryFormProps) {
+  const [formData, setFormData] = useState<InquiryFormValues>({
+    firstname: '',
+    lastname: '',
     email: '',
     phone: '',
     message: '',
-    marketingOptIn: false,
+    marketing_opt_in: false,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<InquiryFieldErrors>({});
+  const { honeypotRef, getSpamCheckFields } = useSpamCheckFields();
+
+  /**
+   * Validates the form values with the shared inquiry schema: as a listing
+   * inquiry when there is an external listing ID, otherwise as a general one.
+   */
+  const validateForm = (values: InquiryFormValues) => {
+    const contactFields = {
+      firstname: values.firstname,
+      lastname: values.lastname,
+      email: values.email,
+      phone: values.phone || undefined,
+      marketing_opt_in: values.marketing_opt_in,
+      pageUri: typeof window !== 'undefined' ? window.location.href : '',
+      pageName: typeof document !== 'undefined' ? document.title : '',
+      attribution: typeof window !== 'undefined' ? getLeadAttribution() : undefined,
+    };
+    return externalListingId
+      ? validateInquiryPayload({ ...contactFields, external_listing_id: externalListingId })
+      : validateContactInquiryPayload({ ...contactFields, message: values.message });
+  };
+
+  /**
+   * Shows field errors inline and any others in the banner.
+   */
+  const showErrors = (errors: InquiryFieldError[]) => {
+    setFieldErrors(getInquiryFieldErrors(errors));
+    const otherErrors = errors.filter(err => !INLINE_ERROR_FIELDS.includes(err.field));
+    setError(otherErrors.length > 0 ? otherErrors.map(err => err.message).join('. ') : null);
+  };
+
+  /**
+   * Re-validates one field, e.g. on blur or while its error is shown.
+   */
+  const revalidateField = (field: keyof InquiryFormValues, values: InquiryFormValues) => {
+    const validation = validateForm(values);
+    const fieldError = validation.valid ? undefined : getInquiryFieldErrors(validation.errors)[field];
+    setFieldErrors(prev => ({ ...prev, [field]: fieldError }));
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     const checked = (e.target as HTMLInputElement).checked;
-    setFormData(prev => ({ 
-      ...prev, 
-      [name]: type === 'checkbox' ? checked : value 
-    }));
+    const field = name as keyof InquiryFormValues;
+    const nextFormData = {
+      ...formData,
+      [field]: type === 'checkbox' ? checked : value,
+    };
+    setFormData(nextFormData);
+
+    // Once an error is shown, clear it as soon as the field is fixed
+    if (fieldErrors[field]) {
+      revalidateField(field, nextFormData);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsSubmitting(true);
     setError(null);
 
-    // Validate marketing opt-in before submission
-    if (!formData.marketingOptIn) {
-      setError('You must agree to receive marketing communications to submit this form.');
-      setIsSubmitting(false);
+    const validation = validateForm(formData);
+    if (!validation.valid) {
+      showErrors(validation.errors);
       return;
     }
 
-    // If externalListingId is provided, use the new server-side API
-    // Otherwise, fall back to direct HubSpot Forms API for backwards compatibility
-    if (externalListingId) {
-      // Submit to our server-side API endpoint for full HubSpot integration
-      // This handles: contact creation, marketing consent, listing lookup, and association
-      const apiPayload = {
-        firstname: formData.firstName,
-        lastname: formData.lastName,
-        email: formData.email,
-        phone: formData.phone || undefined,
-        external_listing_id: externalListingId,
-        marketing_opt_in: formData.marketingOptIn,
-        pageUri: typeof window !== 'undefined' ? window.location.href : '',
-        pageName: typeof document !== 'undefined' ? document.title : '',
-      };
-
-      try {
-        const response = await fetch('/api/request-info', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(apiPayload),
-        });
-
-        const result = await response.json();
+    setIsSubmitting(true);
+    setFieldErrors({});
 
-        if (response.ok && result.success) {
-          setIsSubmitted(true);
-        } else {
-          // Show specific validation errors if available
-          if (result.errors && result.errors.length > 0) {
-            setError(result.errors.map((err: { message: string }) => err.message).join('. '));
-          } else {
-            setError(result.message || 'An error occurred while submitting the form.');
-          }
-        }
-      } catch (err) {
-        console.error('Form submission error:', err);
-        setError('A network error occurred. Please try again later.');
-      } finally {
-        setIsSubmitting(false);
-      }
-    } else {
-      // Fallback to direct HubSpot Forms API (legacy behavior)
-      // This is used when externalListingId is not provided
-      const hubspotEndpoint = `https://api.hsforms.com/submissions/v3/integration/submit/${effectivePortalId}/${effectiveFormId}`;
+    // Submit to our server-side API endpoint for full HubSpot integration.
+    // /api/request-info handles: contact creation, marketing consent, listing lookup, and association
+    // /api/contact handles: contact creation (with the message) and marketing consent
+    const endpoint = externalListingId ? '/api/request-info' : '/api/contact';
+    const apiPayload = {
+      ...validation.data,
+      ...(await getSpamCheckFields()),
+    };
 
-      const hubspotFormData = {
-        fields: [
-          { name: 'firstname', value: formData.firstName },
-          { name: 'lastname', value: formData.lastName },
-          { name: 'email', value: formData.email },
-          { name: 'phone', value: formData.phone },
-          { name: 'message', value: formData.message },
-        ],
-        context: {
-          pageUri: typeof window !== 'undefined' ? window.location.href : '',
-          pageName: typeof document !== 'undefined' ? document.title : '',
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-      };
+        body: JSON.stringify(apiPayload),
+      });
 
-      try {
-        const response = await fetch(hubspotEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(hubspotFormData),
-        });
+      const result = await response.json().catch(() => ({}));
 
-        if (response.ok) {
-          setIsSubmitted(true);
-        } else {
-          // If HubSpot returns an error (e.g., invalid portal/form ID), still show success for demo
-          // In production, you would handle this error appropriately
-          const errorData = await response.json().catch(() => ({}));
-          console.warn('HubSpot submission response:', errorData);
-          // Show success anyway for demo purposes when using placeholder IDs
-          setIsSubmitted(true);
-        }
-      } catch (err) {
-        // Network error or other issue - still show success for demo
-        console.warn('HubSpot submission error:', err);
+      if (response.ok && result.success) {
         setIsSubmitted(true);
-      } finally {
-        setIsSubmitting(false);
+      } else if (result.errors?.length) {
+        // The API validates with the same schema, so its errors map onto the same fields
+        showErrors(result.errors as InquiryFieldError[]);
+      } else {
+        setError(result.message || 'An error occurred while submitting the form.');
       }
+    } catch (err) {
+      console.error('Form submission error:', err);
+      setError('A network error occurred. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
-  // Check if form can be displayed
-  // For new API flow, we need externalListingId
-  // For legacy flow, we need portal and form IDs
-  const canDisplayForm = externalListingId || (effectivePortalId && effectiveFormId);
-
-  if (!canDisplayForm) {
-    return (
-      <div className="text-center py-8 text-gray-500">
-        <p>Form not available. Please configure HubSpot integration.</p>
-      </div>
-    );
-  }
-
   if (isSubmitted) {
     return (
       <div className="text-center py-8">
@@ -206,6 +230,8 @@ export default function PropertyInquiryForm({
         />
       )}
 
+      <HoneypotField id="inquiryWebsite" inputRef={honeypotRef} />
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
           {error}
@@ -220,13 +246,16 @@ export default function PropertyInquiryForm({
           <input
             type="text"
             id="firstName"
-            name="firstName"
-            value={formData.firstName}
+            name="firstname"
+            value={formData.firstname}
             onChange={handleChange}
             required
-            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-invalid={fieldErrors.firstname ? true : undefined}
+            aria-describedby={fieldErrors.firstname ? 'firstNameError' : undefined}
+            className={`${inputClassName} ${fieldErrors.firstname ? 'border-red-500' : 'border-gray-300'}`}
             placeholder="John"
           />
+          <FieldErrorMessage id="firstNameError" message={fieldErrors.firstname} />
         </div>
         <div>
           <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-1">
@@ -235,13 +264,16 @@ export default function PropertyInquiryForm({
           <input
             type="text"
             id="lastName"
-            name="lastName"
-            value={formData.lastName}
+            name="lastname"
+            value={formData.lastname}
             onChange={handleChange}
             required
-            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-invalid={fieldErrors.lastname ? true : undefined}
+            aria-describedby={fieldErrors.lastname ? 'lastNameError' : undefined}
+            className={`${inputClassName} ${fieldErrors.lastname ? 'border-red-500' : 'border-gray-300'}`}
             placeholder="Doe"
           />
+          <FieldErrorMessage id="lastNameError" message={fieldErrors.lastname} />
         </div>
       </div>
 
@@ -256,9 +288,12 @@ export default function PropertyInquiryForm({
           value={formData.email}
           onChange={handleChange}
           required
-          className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          aria-invalid={fieldErrors.email ? true : undefined}
+          aria-describedby={fieldErrors.email ? 'emailError' : undefined}
+          className={`${inputClassName} ${fieldErrors.email ? 'border-red-500' : 'border-gray-300'}`}
           placeholder="john.doe@example.com"
         />
+        <FieldErrorMessage id="emailError" message={fieldErrors.email} />
       </div>
 
       <div>
@@ -271,9 +306,13 @@ export default function PropertyInquiryForm({
           name="phone"
           value={formData.phone}
           onChange={handleChange}
-          className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          onBlur={() => revalidateField('phone', formData)}
+          aria-invalid={fieldErrors.phone ? true : undefined}
+          aria-describedby={fieldErrors.phone ? 'phoneError' : undefined}
+          className={`${inputClassName} ${fieldErrors.phone ? 'border-red-500' : 'border-gray-300'}`}
           placeholder="(555) 123-4567"
         />
+        <FieldErrorMessage id="phoneError" message={fieldErrors.phone} />
       </div>
 
       <div>
@@ -286,29 +325,39 @@ export default function PropertyInquiryForm({
           value={formData.message}
           onChange={handleChange}
           rows={4}
-          className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-          placeholder="I'm interested in learning more about this property..."
+          aria-invalid={fieldErrors.message ? true : undefined}
+          aria-describedby={fieldErrors.message ? 'messageError' : undefined}
+          className={`${inputClassName} resize-none ${fieldErrors.message ? 'border-red-500' : 'border-gray-300'}`}
+          placeholder={externalListingId
+            ? "I'm interested in learning more about this property..."
+            : 'How can we help?'}
         />
+        <FieldErrorMessage id="messageError" message={fieldErrors.message} />
       </div>
 
       {/* Marketing Opt-In Checkbox - Required for explicit consent */}
-      <div className="flex items-start">
-        <div className="flex items-center h-5">
-          <input
-            id="marketingOptIn"
-            name="marketingOptIn"
-            type="checkbox"
-            checked={formData.marketingOptIn}
-            onChange={handleChange}
-            required
-            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
-          />
-        </div>
-        <div className="ml-3">
-          <label htmlFor="marketingOptIn" className="text-sm text-gray-700 cursor-pointer">
-            I agree to receive marketing communications about properties and services. *
-          </label>
+      <div>
+        <div className="flex items-start">
+          <div className="flex items-center h-5">
+            <input
+              id="marketingOptIn"
+              name="marketing_opt_in"
+              type="checkbox"
+              checked={formData.marketing_opt_in}
+              onChange={handleChange}
+              required
+              aria-invalid={fieldErrors.marketing_opt_in ? true : undefined}
+              aria-describedby={fieldErrors.marketing_opt_in ? 'marketingOptInError' : undefined}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+            />
+          </div>
+          <div className="ml-3">
+            <label htmlFor="marketingOptIn" className="text-sm text-gray-700 cursor-pointer">
+              I agree to receive marketing communications about properties and services. *
+            </label>
+          </div>
         </div>
+        <FieldErrorMessage id="marketingOptInError" message={fieldErrors.marketing_opt_in} />
       </div>
 
       <button
@@ -316,11 +365,11 @@ export default function PropertyInquiryForm({
         disabled={isSubmitting}
         className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 px-6 rounded-md font-semibold transition-colors"
       >
-        {isSubmitting ? 'Submitting...' : 'Submit Inquiry'}
+        {isSubmitting ? 'Submitting...' : externalListingId ? 'Submit Inquiry' : 'Send Message'}
       </button>
 
       <p className="text-xs text-gray-500 text-center">
-        By submitting this form, you agree to be contacted regarding this property and 
+        By submitting this form, you agree to be contacted regarding {externalListingId ? 'this property' : 'your inquiry'} and 
         consent to receive marketing communications. You can unsubscribe at any time.
       </p>
     </form>
@@ -0,0 +1,72 @@
+'use client';
+
+import { toggleSavedProperty, useSavedPropertyIds } from '@/lib/savedProperties';
+
+/**
+ * SavePropertyButton - Saves a property to the visitor's favorites
+ *
+ * Favorites are stored in the browser (see lib/savedProperties.ts) and listed
+ * on the /saved page.
+ */
+
+interface SavePropertyButtonProps {
+  propertyId: string;
+  /**
+   * 'icon' renders a round heart button for property card photos;
+   * 'button' renders a full-width button for the detail page actions.
+   */
+  variant?: 'icon' | 'button';
+}
+
+function HeartIcon({ filled, className }: { filled: boolean; className: string }) {
+  return (
+    <svg className={className} fill={filled ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+      />
+    </svg>
+  );
+}
+
+export default function SavePropertyButton({ propertyId, variant = 'button' }: SavePropertyButtonProps) {
+  const savedIds = useSavedPropertyIds();
+  const isSaved = savedIds.includes(propertyId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    toggleSavedProperty(propertyId);
+  };
+
+  if (variant === 'icon') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-pressed={isSaved}
+        aria-label={isSaved ? 'Remove from saved properties' : 'Save property'}
+        className="w-9 h-9 rounded-full bg-white/90 hover:bg-white shadow flex items-center justify-center transition-colors"
+      >
+        <HeartIcon filled={isSaved} className={`w-5 h-5 ${isSaved ? 'text-red-500' : 'text-gray-700'}`} />
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={isSaved}
+      className={`w-full border-2 py-3 rounded-md font-semibold transition-colors flex items-center justify-center gap-2 ${
+        isSaved
+          ? 'border-red-200 bg-red-50 text-red-600 hover:bg-red-100'
+          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      <HeartIcon filled={isSaved} className="w-5 h-5" />
+      {isSaved ? 'Saved' : 'Save Property'}
+    </button>
+  );
+}
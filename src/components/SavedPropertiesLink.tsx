@@ -0,0 +1,34 @@
+'use client';
+
+import Link from 'next/link';
+import { useSavedPropertyIds } from '@/lib/savedProperties';
+
+/**
+ * SavedPropertiesLink - Header link to /saved with the saved property count
+ */
+export default function SavedPropertiesLink() {
+  const count = useSavedPropertyIds().length;
+
+  return (
+    <Link
+      href="/saved"
+      className="relative text-gray-700 hover:text-blue-600 px-3 py-2 text-sm font-medium transition-colors inline-flex items-center gap-1"
+      aria-label={count > 0 ? `Saved properties (${count})` : 'Saved properties'}
+    >
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+        />
+      </svg>
+      Saved
+      {count > 0 && (
+        <span className="ml-1 bg-red-500 text-white text-xs font-semibold rounded-full px-2 py-0.5">
+          {count}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import PropertyCard, { Property } from '@/components/PropertyCard';
+import SavedPropertiesSyncForm from '@/components/SavedPropertiesSyncForm';
+import { removeSavedProperties, useSavedPropertyIds } from '@/lib/savedProperties';
+
+/**
+ * SavedPropertiesList - The visitor's saved properties
+ *
+ * Saved IDs come from localStorage; the property details are fetched from the
+ * public listings API (/api/properties/[id]) so the catalog is not bundled
+ * into the page. Properties that are no longer listed can be cleared.
+ */
+
+/** Fetched property, or null when the listing no longer exists */
+type FetchedProperties = Record<string, Property | null>;
+
+const subscribeToNothing = () => () => {};
+
+export default function SavedPropertiesList() {
+  const savedIds = useSavedPropertyIds();
+  // Saved IDs are only known in the browser; avoid flashing the empty state
+  const isClient = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const [fetched, setFetched] = useState<FetchedProperties>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const missingIds = savedIds.filter(id => !(id in fetched));
+    if (missingIds.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all(
+      missingIds.map(async id => {
+        const response = await fetch(`/api/properties/${encodeURIComponent(id)}`);
+        if (response.status === 404) {
+          return [id, null] as const;
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to load property ${id}: ${response.status}`);
+        }
+        const result = await response.json();
+        return [id, result.data as Property] as const;
+      })
+    )
+      .then(entries => {
+        if (!cancelled) {
+          setFetched(prev => ({ ...prev, ...Object.fromEntries(entries) }));
+        }
+      })
+      .catch(err => {
+        console.error('Saved properties load error:', err);
+        if (!cancelled) {
+          setError('Some saved properties could not be loaded. Please try again later.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [savedIds, fetched]);
+
+  if (!isClient) {
+    return <p className="text-center py-16 text-gray-500">Loading saved properties...</p>;
+  }
+
+  if (savedIds.length === 0) {
+    return (
+      <div className="text-center py-16 text-gray-500">
+        <p className="text-lg">You haven&apos;t saved any properties yet.</p>
+        <p className="mt-1">Tap the heart on any property to save it here.</p>
+        <Link href="/properties" className="text-blue-600 hover:text-blue-700 font-medium mt-2 inline-block">
+          Browse all properties
+        </Link>
+      </div>
+    );
+  }
+
+  const savedProperties = savedIds
+    .map(id => fetched[id])
+    .filter((property): property is Property => Boolean(property));
+  const unlistedIds = savedIds.filter(id => fetched[id] === null);
+  const isLoading = savedIds.some(id => !(id in fetched)) && !error;
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {unlistedIds.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md flex flex-wrap items-center justify-between gap-2">
+          <span>
+            {unlistedIds.length} saved {unlistedIds.length === 1 ? 'property is' : 'properties are'} no longer listed.
+          </span>
+          <button
+            type="button"
+            onClick={() => removeSavedProperties(unlistedIds)}
+            className="font-semibold underline hover:no-underline"
+          >
+            Remove
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {savedProperties.map(property => (
+          <PropertyCard key={property.id} property={property} />
+        ))}
+      </div>
+
+      {isLoading && <p className="text-center text-gray-500">Loading saved properties...</p>}
+
+      <div className="max-w-3xl mx-auto bg-white p-8 rounded-lg shadow-sm">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Keep Your List With Our Team</h2>
+        <p className="text-gray-600 mb-6">
+          Saved properties are stored in this browser. Share your list with our team and we&apos;ll keep you
+          updated on price changes and similar listings.
+        </p>
+        <SavedPropertiesSyncForm propertyIds={savedIds} />
+      </div>
+    </div>
+  );
+}
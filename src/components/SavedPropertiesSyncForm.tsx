@@ -0,0 +1,221 @@
+'use client';
+
+import { useState } from 'react';
+import HoneypotField from '@/components/HoneypotField';
+import { setSyncProfile, useSyncProfile } from '@/lib/savedProperties';
+import { useSpamCheckFields } from '@/lib/spamCheckFields';
+
+/**
+ * SavedPropertiesSyncForm - Optional HubSpot sync for saved properties
+ *
+ * Posts the saved property IDs to /api/saved-properties, which associates the
+ * contact with each Listing using the "Saved" association label. After the
+ * first sync, the contact details are remembered in the browser so the list
+ * can be synced again with one click. Sends the same spam-check fields as
+ * the other inquiry forms (see lib/spamCheckFields.ts).
+ */
+
+interface SavedPropertiesSyncFormProps {
+  propertyIds: string[];
+}
+
+export default function SavedPropertiesSyncForm({ propertyIds }: SavedPropertiesSyncFormProps) {
+  const profile = useSyncProfile();
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    marketingOptIn: false,
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { honeypotRef, getSpamCheckFields } = useSpamCheckFields();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value
+    }));
+  };
+
+  const sync = async (contact: { firstname: string; lastname: string; email: string }) => {
+    setIsSubmitting(true);
+    setError(null);
+    setResultMessage(null);
+
+    try {
+      const response = await fetch('/api/saved-properties', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...contact,
+          external_listing_ids: propertyIds,
+          marketing_opt_in: true,
+          ...(await getSpamCheckFields()),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setSyncProfile({ ...contact, syncedAt: new Date().toISOString() });
+        setResultMessage(result.message);
+      } else if (result.errors && result.errors.length > 0) {
+        setError(result.errors.map((err: { message: string }) => err.message).join('. '));
+      } else {
+        setError(result.message || 'An error occurred while syncing your saved properties.');
+      }
+    } catch (err) {
+      console.error('Saved properties sync error:', err);
+      setError('A network error occurred. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.marketingOptIn) {
+      setError('You must agree to receive marketing communications to sync your saved properties.');
+      return;
+    }
+
+    sync({
+      firstname: formData.firstName,
+      lastname: formData.lastName,
+      email: formData.email,
+    });
+  };
+
+  const feedback = (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+      {resultMessage && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+          {resultMessage}
+        </div>
+      )}
+    </>
+  );
+
+  if (profile) {
+    return (
+      <div className="space-y-4">
+        {feedback}
+        <p className="text-gray-700">
+          Synced as <span className="font-semibold">{profile.email}</span> on{' '}
+          {new Date(profile.syncedAt).toLocaleDateString()}.
+        </p>
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => sync({ firstname: profile.firstname, lastname: profile.lastname, email: profile.email })}
+            disabled={isSubmitting}
+            className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 px-6 rounded-md font-semibold transition-colors"
+          >
+            {isSubmitting ? 'Syncing...' : 'Sync Again'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setSyncProfile(null)}
+            className="border-2 border-gray-300 text-gray-700 hover:bg-gray-50 py-3 px-6 rounded-md font-semibold transition-colors"
+          >
+            Use a Different Email
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <HoneypotField id="savedWebsite" inputRef={honeypotRef} />
+      {feedback}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="savedFirstName" className="block text-sm font-medium text-gray-700 mb-1">
+            First Name *
+          </label>
+          <input
+            type="text"
+            id="savedFirstName"
+            name="firstName"
+            value={formData.firstName}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="John"
+          />
+        </div>
+        <div>
+          <label htmlFor="savedLastName" className="block text-sm font-medium text-gray-700 mb-1">
+            Last Name *
+          </label>
+          <input
+            type="text"
+            id="savedLastName"
+            name="lastName"
+            value={formData.lastName}
+            onChange={handleChange}
+            required
+            className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Doe"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="savedEmail" className="block text-sm font-medium text-gray-700 mb-1">
+          Email Address *
+        </label>
+        <input
+          type="email"
+          id="savedEmail"
+          name="email"
+          value={formData.email}
+          onChange={handleChange}
+          required
+          className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="john.doe@example.com"
+        />
+      </div>
+
+      <div className="flex items-start">
+        <div className="flex items-center h-5">
+          <input
+            id="savedMarketingOptIn"
+            name="marketingOptIn"
+            type="checkbox"
+            checked={formData.marketingOptIn}
+            onChange={handleChange}
+            required
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+          />
+        </div>
+        <div className="ml-3">
+          <label htmlFor="savedMarketingOptIn" className="text-sm text-gray-700 cursor-pointer">
+            I agree to receive marketing communications about properties and services. *
+          </label>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 px-6 rounded-md font-semibold transition-colors"
+      >
+        {isSubmitting ? 'Syncing...' : 'Sync Saved Properties'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,395 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import HoneypotField from '@/components/HoneypotField';
+import {
+  formatTourDate,
+  formatTourSlot,
+  formatTourTime,
+  getTourDates,
+  MAX_PREFERRED_SLOTS,
+  TOUR_TIMES,
+  TOUR_TYPE_LABELS,
+  TOUR_TYPES,
+  TourSlot,
+  TourType,
+} from '@/lib/tourScheduling';
+import { MAX_INQUIRY_MESSAGE_LENGTH } from '@/lib/inquirySchema';
+import { getPhoneNumberError } from '@/lib/phoneNumber';
+import { useSpamCheckFields } from '@/lib/spamCheckFields';
+
+/**
+ * TourRequestForm - "Schedule a Tour" booking form
+ *
+ * The buyer chooses an in-person or virtual tour and up to three preferred
+ * date/time slots. Submits to /api/tour-request, which records the contact in
+ * HubSpot, associates it with the Listing as "Tour Requested" and creates a
+ * task for the listing agent to confirm the appointment. Sends the same
+ * spam-check fields as the other inquiry forms (see lib/spamCheckFields.ts).
+ *
+ * Detail pages are pre-rendered at build time, so the selectable dates are
+ * computed in the browser only.
+ */
+
+interface TourRequestFormProps {
+  externalListingId: string;
+}
+
+const TOUR_TYPE_DESCRIPTIONS: Record<TourType, string> = {
+  'in-person': 'Walk through the property with an agent',
+  'virtual': 'A live video walkthrough from anywhere',
+};
+
+const subscribeToNothing = () => () => {};
+
+export default function TourRequestForm({ externalListingId }: TourRequestFormProps) {
+  const isClient = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const tourDates = isClient ? getTourDates() : [];
+
+  const [tourType, setTourType] = useState<TourType>('in-person');
+  const [slots, setSlots] = useState<TourSlot[]>([{ date: '', time: '' }]);
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    email: '',
+    phone: '',
+    message: '',
+    marketingOptIn: false,
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmedSlots, setConfirmedSlots] = useState<TourSlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [phoneError, setPhoneError] = useState<string | undefined>(undefined);
+  const { honeypotRef, getSpamCheckFields } = useSpamCheckFields();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : value
+    }));
+
+    // Once a phone error is shown, clear it as soon as the number is fixed
+    if (name === 'phone' && phoneError) {
+      setPhoneError(getPhoneNumberError(value));
+    }
+  };
+
+  const updateSlot = (index: number, field: keyof TourSlot, value: string) => {
+    setSlots(prev => prev.map((slot, slotIndex) => (slotIndex === index ? { ...slot, [field]: value } : slot)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const preferredSlots = slots.filter(slot => slot.date && slot.time);
+    if (preferredSlots.length === 0) {
+      setError('Please choose at least one preferred date and time.');
+      return;
+    }
+
+    const phoneValidationError = getPhoneNumberError(formData.phone);
+    if (phoneValidationError) {
+      setPhoneError(phoneValidationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const apiPayload = {
+      firstname: formData.firstName,
+      lastname: formData.lastName,
+      email: formData.email,
+      phone: formData.phone || undefined,
+      external_listing_id: externalListingId,
+      tour_type: tourType,
+      preferred_slots: preferredSlots,
+      message: formData.message || undefined,
+      marketing_opt_in: formData.marketingOptIn,
+      pageUri: typeof window !== 'undefined' ? window.location.href : '',
+      pageName: typeof document !== 'undefined' ? document.title : '',
+      ...(await getSpamCheckFields()),
+    };
+
+    try {
+      const response = await fetch('/api/tour-request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(apiPayload),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setConfirmedSlots(preferredSlots);
+      } else if (result.errors && result.errors.length > 0) {
+        // Phone errors go next to the field; everything else in the banner
+        const errors: { field: string; message: string }[] = result.errors;
+        const fieldPhoneError = errors.find(err => err.field === 'phone');
+        const otherErrors = errors.filter(err => err.field !== 'phone');
+        if (fieldPhoneError) {
+          setPhoneError(fieldPhoneError.message);
+        }
+        if (otherErrors.length > 0) {
+          setError(otherErrors.map(err => err.message).join('. '));
+        }
+      } else {
+        setError(result.message || 'An error occurred while submitting your tour request.');
+      }
+    } catch (err) {
+      console.error('Tour request submission error:', err);
+      setError('A network error occurred. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (confirmedSlots) {
+    return (
+      <div className="text-center py-8">
+        <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-green-100 mb-4">
+          <svg className="w-8 h-8 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        </div>
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">Tour Requested!</h3>
+        <p className="text-gray-600 mb-4">
+          Thanks, {formData.firstName}. We received your request for a{' '}
+          {TOUR_TYPE_LABELS[tourType].toLowerCase()} at one of these times:
+        </p>
+        <ul className="inline-block text-left text-gray-900 font-medium space-y-1 mb-4">
+          {confirmedSlots.map(slot => (
+            <li key={`${slot.date} ${slot.time}`}>{formatTourSlot(slot)}</li>
+          ))}
+        </ul>
+        <p className="text-gray-600">
+          The listing agent will confirm your appointment at {formData.email} within one business day.
+        </p>
+      </div>
+    );
+  }
+
+  const inputClassName =
+    'w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+  const invalidInputClassName =
+    'w-full px-4 py-3 border border-red-500 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <HoneypotField id="tourWebsite" inputRef={honeypotRef} />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Tour Type */}
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-2">Tour Type *</legend>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {TOUR_TYPES.map(type => (
+            <label
+              key={type}
+              className={`flex items-start gap-3 p-4 border-2 rounded-lg cursor-pointer transition-colors ${
+                tourType === type ? 'border-blue-600 bg-blue-50' : 'border-gray-200 bg-white hover:border-blue-300'
+              }`}
+            >
+              <input
+                type="radio"
+                name="tourType"
+                value={type}
+                checked={tourType === type}
+                onChange={() => setTourType(type)}
+                className="mt-1 w-4 h-4 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                <span className="block font-semibold text-gray-900">{TOUR_TYPE_LABELS[type]}</span>
+                <span className="block text-sm text-gray-600">{TOUR_TYPE_DESCRIPTIONS[type]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Preferred Slots */}
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-2">
+          Preferred Dates &amp; Times * <span className="font-normal text-gray-500">(property local time)</span>
+        </legend>
+        <div className="space-y-3">
+          {slots.map((slot, index) => (
+            <div key={index} className="flex flex-wrap md:flex-nowrap items-center gap-3">
+              <select
+                aria-label={`Preferred date ${index + 1}`}
+                value={slot.date}
+                onChange={e => updateSlot(index, 'date', e.target.value)}
+                required={index === 0}
+                className={inputClassName}
+              >
+                <option value="">Select a date</option>
+                {tourDates.map(date => (
+                  <option key={date} value={date}>{formatTourDate(date)}</option>
+                ))}
+              </select>
+              <select
+                aria-label={`Preferred time ${index + 1}`}
+                value={slot.time}
+                onChange={e => updateSlot(index, 'time', e.target.value)}
+                required={index === 0}
+                className={inputClassName}
+              >
+                <option value="">Select a time</option>
+                {TOUR_TIMES.map(time => (
+                  <option key={time} value={time}>{formatTourTime(time)}</option>
+                ))}
+              </select>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSlots(prev => prev.filter((_, slotIndex) => slotIndex !== index))}
+                  className="text-sm text-gray-500 hover:text-red-600"
+                  aria-label={`Remove preferred time ${index + 1}`}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        {slots.length < MAX_PREFERRED_SLOTS && (
+          <button
+            type="button"
+            onClick={() => setSlots(prev => [...prev, { date: '', time: '' }])}
+            className="mt-3 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            + Add another time
+          </button>
+        )}
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="tourFirstName" className="block text-sm font-medium text-gray-700 mb-1">
+            First Name *
+          </label>
+          <input
+            type="text"
+            id="tourFirstName"
+            name="firstName"
+            value={formData.firstName}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+            placeholder="John"
+          />
+        </div>
+        <div>
+          <label htmlFor="tourLastName" className="block text-sm font-medium text-gray-700 mb-1">
+            Last Name *
+          </label>
+          <input
+            type="text"
+            id="tourLastName"
+            name="lastName"
+            value={formData.lastName}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+            placeholder="Doe"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="tourEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            Email Address *
+          </label>
+          <input
+            type="email"
+            id="tourEmail"
+            name="email"
+            value={formData.email}
+            onChange={handleChange}
+            required
+            className={inputClassName}
+            placeholder="john.doe@example.com"
+          />
+        </div>
+        <div>
+          <label htmlFor="tourPhone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone Number
+          </label>
+          <input
+            type="tel"
+            id="tourPhone"
+            name="phone"
+            value={formData.phone}
+            onChange={handleChange}
+            onBlur={() => setPhoneError(getPhoneNumberError(formData.phone))}
+            aria-invalid={phoneError ? true : undefined}
+            aria-describedby={phoneError ? 'tourPhoneError' : undefined}
+            className={phoneError ? invalidInputClassName : inputClassName}
+            placeholder="(555) 123-4567"
+          />
+          {phoneError && (
+            <p id="tourPhoneError" className="mt-1 text-sm text-red-600">
+              {phoneError}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="tourMessage" className="block text-sm font-medium text-gray-700 mb-1">
+          Anything the agent should know?
+        </label>
+        <textarea
+          id="tourMessage"
+          name="message"
+          value={formData.message}
+          onChange={handleChange}
+          maxLength={MAX_INQUIRY_MESSAGE_LENGTH}
+          rows={3}
+          className={`${inputClassName} resize-none`}
+          placeholder="e.g. I'd like to see the backyard and garage"
+        />
+      </div>
+
+      <div className="flex items-start">
+        <div className="flex items-center h-5">
+          <input
+            id="tourMarketingOptIn"
+            name="marketingOptIn"
+            type="checkbox"
+            checked={formData.marketingOptIn}
+            onChange={handleChange}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 cursor-pointer"
+          />
+        </div>
+        <div className="ml-3">
+          <label htmlFor="tourMarketingOptIn" className="text-sm text-gray-700 cursor-pointer">
+            I&apos;d also like to receive marketing communications about properties and services.
+          </label>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 px-6 rounded-md font-semibold transition-colors"
+      >
+        {isSubmitting ? 'Submitting...' : 'Request Tour'}
+      </button>
+
+      <p className="text-xs text-gray-500 text-center">
+        By requesting a tour, you agree to be contacted about this property to confirm your appointment.
+      </p>
+    </form>
+  );
+}
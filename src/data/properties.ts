@@ -1,2204 +1,17 @@
 import { Property } from '@/components/PropertyCard';
+import catalog from './properties.generated.json';
 
-export const properties: Property[] = [
-  {
-    id: '22317',
-    title: 'Maple Hill Property',
-    address: '158 Brians Woods Rd',
-    city: 'Maple Hill',
-    state: 'NC',
-    zipCode: '28454',
-    county: 'Onslow',
-    price: 99000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1194,
-    lotSize: 1.73,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/8a5bab07-d842-43e6-9574-54a29374a543.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22292',
-    title: 'Columbia Property',
-    address: '319 High Grove Way',
-    city: 'Columbia',
-    state: 'SC',
-    zipCode: '29210',
-    county: 'Richland',
-    price: 169500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.5,
-    squareFeet: 1428,
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/435430f1-10ae-42cc-aa89-d6f04ab01643.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22288',
-    title: 'Labelle Property',
-    address: '1356 Jupiter Loop',
-    city: 'Labelle',
-    state: 'FL',
-    zipCode: '33935',
-    county: 'Glades',
-    price: 265000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1525,
-    lotSize: 10000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2fb467fc-6b28-4e18-ae99-18d6690516c7.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22285',
-    title: 'Las Vegas Property',
-    address: '2709 Camphor Tree St',
-    city: 'Las Vegas',
-    state: 'NV',
-    zipCode: '89108',
-    county: 'Clark',
-    price: 349000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1238,
-    lotSize: 4792.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/48d781ff-5b20-4175-982f-9f9871102eab.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22275',
-    title: 'West Monroe Property',
-    address: '1516 Wellerman Rd',
-    city: 'West Monroe',
-    state: 'LA',
-    zipCode: '71291',
-    county: 'Ouachita',
-    price: 135000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 3.0,
-    squareFeet: 2512,
-    lotSize: 20000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/3d96b137-752e-40b6-9b38-dfe6fd26cb4b.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22270',
-    title: 'Evans Property',
-    address: '599 Windward Ct',
-    city: 'Evans',
-    state: 'GA',
-    zipCode: '30809',
-    county: 'Columbia',
-    price: 274950,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2269,
-    lotSize: 11413.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2590744a-7f6f-4305-bc06-ce937678ea99.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22268',
-    title: 'Aledo Property',
-    address: '308 Welch Folly Ln',
-    city: 'Aledo',
-    state: 'TX',
-    zipCode: '76008',
-    county: 'Parker',
-    price: 388000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1949,
-    lotSize: 7995.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/a1d112e7-1710-4ca3-a0da-1c190f55b410.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22264',
-    title: 'Otto Property',
-    address: '47 Integrity Mtn',
-    city: 'Otto',
-    state: 'NC',
-    zipCode: '28763',
-    county: 'Macon',
-    price: 195000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1764,
-    lotSize: 1.4,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/a6cd63e3-73f9-48ff-93c9-345a63d20552.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22263',
-    title: 'Dunnellon Property',
-    address: '2952 W Cypress Dr',
-    city: 'Dunnellon',
-    state: 'FL',
-    zipCode: '34433',
-    county: 'Citrus',
-    price: 115000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 1274,
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/35379e50-edac-4234-a8e2-8fcb8cb09a99.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22247',
-    title: 'Heyburn Property',
-    address: '181 Villa Dr',
-    city: 'Heyburn',
-    state: 'ID',
-    zipCode: '83336',
-    county: 'Minidoka',
-    price: 377500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1943,
-    lotSize: 21344.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/f85a856f-e627-4c48-a2bb-89e50b149661.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22242',
-    title: 'Mount Morris Property',
-    address: '1104 Lucharles Ave',
-    city: 'Mount Morris',
-    state: 'MI',
-    zipCode: '48458',
-    county: 'Genesee',
-    price: 45000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1041,
-    lotSize: 16500.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/709a29ca-b2da-4ab1-b4b0-d5c1d4e8ab70.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22240',
-    title: 'Tijeras Property',
-    address: '1 Camino Oro Ct',
-    city: 'Tijeras',
-    state: 'NM',
-    zipCode: '87059',
-    county: 'Bernalillo',
-    price: 185500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 1536,
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/6e0953ee-af02-4168-9982-7e41d9636bd4.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22239',
-    title: 'Albany Property',
-    address: '413 Corn Avenue',
-    city: 'Albany',
-    state: 'GA',
-    zipCode: '31701',
-    county: 'Dougherty',
-    price: 66000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1264,
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/9b482b59-c6d5-4c7b-a5df-6d4a2bd880b9.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22237',
-    title: 'Stoughton Property',
-    address: '1722 W Main St',
-    city: 'Stoughton',
-    state: 'WI',
-    zipCode: '53589',
-    county: 'Dane',
-    price: 187500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 900,
-    lotSize: 46306.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2e3c8c29-7ffb-4ce5-afe6-23ba7eec303c.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22236',
-    title: 'Clare Property',
-    address: '4975 Clarabella Rd',
-    city: 'Clare',
-    state: 'MI',
-    zipCode: '48617',
-    county: 'Clare',
-    price: 226000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1894,
-    lotSize: 1.29,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/9225bcd5-6a25-4444-b599-48dcd020a803.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22227',
-    title: 'Philadelphia Property',
-    address: '2015 E Letterly St',
-    city: 'Philadelphia',
-    state: 'PA',
-    zipCode: '19125',
-    county: 'Philadelphia',
-    price: 227500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1056,
-    lotSize: 798.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/71369da0-f2ea-42e5-be77-58b3fa8a645d.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22226',
-    title: 'Mesa Property',
-    address: '6252 E Billings St',
-    city: 'Mesa',
-    state: 'AZ',
-    zipCode: '85205',
-    county: 'Maricopa',
-    price: 270000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.0,
-    squareFeet: 1338,
-    lotSize: 8423.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/51cd8b81-a47a-4693-a346-99e73fe736df.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22221',
-    title: 'Lady Lake Property',
-    address: '1916 Iglesia St',
-    city: 'Lady Lake',
-    state: 'FL',
-    zipCode: '32159',
-    county: 'Sumter',
-    price: 261000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1455,
-    lotSize: 5400.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/5d46ef39-214c-4a72-a92f-e751e430ac21.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22217',
-    title: 'Glenn Heights Property',
-    address: '1819 Isabella Court',
-    city: 'Glenn Heights',
-    state: 'TX',
-    zipCode: '75154',
-    county: 'Dallas',
-    price: 345500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 2232,
-    lotSize: 9017.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/019204e8-b7b2-4e96-88bb-d0910f746686.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22216',
-    title: 'Greenbackville Property',
-    address: '2244 Mayflower Dr',
-    city: 'Greenbackville',
-    state: 'VA',
-    zipCode: '23356',
-    county: 'Accomack',
-    price: 236450,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1543,
-    lotSize: 9750.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/b429a71b-af71-4a33-8608-8ec8c639e742.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22207',
-    title: 'Fresno Property',
-    address: '5047 W Morris Ave',
-    city: 'Fresno',
-    state: 'CA',
-    zipCode: '93722',
-    county: 'Fresno',
-    price: 386500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1443,
-    lotSize: 6000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/100fea10-5305-4fbf-a3c6-a95a8e70008d.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22206',
-    title: 'Meridianville Property',
-    address: '221 Irish Hill Dr',
-    city: 'Meridianville',
-    state: 'AL',
-    zipCode: '35759',
-    county: 'Madison',
-    price: 399000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 5,
-    bathrooms: 3.0,
-    squareFeet: 3582,
-    lotSize: 7080.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/0b2267aa-8b15-4467-ba42-2ff2bf4da214.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22205',
-    title: 'Raleigh Property',
-    address: '1439 Garner Rd',
-    city: 'Raleigh',
-    state: 'NC',
-    zipCode: '27610',
-    county: 'Wake',
-    price: 611000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 3.0,
-    squareFeet: 1988,
-    lotSize: 6541.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/99edb3a5-5961-4be2-a3f7-4c9507e349cf.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22203',
-    title: 'Copperas Cove Property',
-    address: '3058 Wigeon Way',
-    city: 'Copperas Cove',
-    state: 'TX',
-    zipCode: '76522',
-    county: 'Coryell',
-    price: 220000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1752,
-    lotSize: 6782.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/86dddffd-526f-42ee-977f-d4963fecbd48.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22201',
-    title: 'Niota Property',
-    address: '319 E Farrell St',
-    city: 'Niota',
-    state: 'TN',
-    zipCode: '37826',
-    county: 'Mcminn',
-    price: 149000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1342,
-    lotSize: 30000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/401d0ab7-492c-4db3-b271-f4f1cfa4f1d1.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22198',
-    title: 'Rock Falls Property',
-    address: '1805 French St',
-    city: 'Rock Falls',
-    state: 'IL',
-    zipCode: '61071',
-    county: 'Whiteside',
-    price: 59500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 979,
-    lotSize: 21833.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7c183e82-72b6-46bb-ba87-a4860688b2cf.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22197',
-    title: 'Schaumburg Property',
-    address: '100 White Oak Ct',
-    city: 'Schaumburg',
-    state: 'IL',
-    zipCode: '60195',
-    county: 'Cook',
-    price: 200000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 1,
-    bathrooms: 1.0,
-    squareFeet: 814,
-    lotSize: 24.54,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/f8128b23-afaa-42f4-8a95-d400c195421a.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22194',
-    title: 'Conover Property',
-    address: '637 N Mclin Creek Rd',
-    city: 'Conover',
-    state: 'NC',
-    zipCode: '28613',
-    county: 'Catawba',
-    price: 146950,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1083,
-    lotSize: 23087.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/bb994a5f-0150-41b6-918c-a363af5b6cf9.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22193',
-    title: 'Rhome Property',
-    address: '155 Spanish Moss Trail',
-    city: 'Rhome',
-    state: 'TX',
-    zipCode: '76078',
-    county: 'Wise',
-    price: 435000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2256,
-    lotSize: 33585.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/b40651aa-dd02-42b0-bef3-a734a530bd80.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22181',
-    title: 'Houston Property',
-    address: '11018 Redhaven Ct',
-    city: 'Houston',
-    state: 'TX',
-    zipCode: '77065',
-    county: 'Harris',
-    price: 251000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2374,
-    lotSize: 5241.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7492cce2-6805-42cb-aec9-ff906029640c.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22180',
-    title: 'Cordova Property',
-    address: '10189 Kay Oak Cv',
-    city: 'Cordova',
-    state: 'TN',
-    zipCode: '38016',
-    county: 'Shelby',
-    price: 227500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1509,
-    lotSize: 6494.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/b09c47ec-b0e4-406c-93ac-401af7088ae3.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22176',
-    title: 'Ogden Property',
-    address: '316 Cross St',
-    city: 'Ogden',
-    state: 'UT',
-    zipCode: '84404',
-    county: 'Weber',
-    price: 345000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1386,
-    lotSize: 4792.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/88208992-4aa7-458f-8a19-4ffd672dec18.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22175',
-    title: 'Cape Coral Property',
-    address: '2210 Se 11th Ave',
-    city: 'Cape Coral',
-    state: 'FL',
-    zipCode: '33990',
-    county: 'Lee',
-    price: 262500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1142,
-    lotSize: 10019.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/cba46c16-c621-42c9-a13b-0062f3aaaa73.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22174',
-    title: 'Marble Falls Property',
-    address: '169 Slenderleaf Drive',
-    city: 'Marble Falls',
-    state: 'TX',
-    zipCode: '78654',
-    county: 'Burnet',
-    price: 315000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.0,
-    squareFeet: 1913,
-    lotSize: 6637.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/0217a9cc-5e14-4bc9-8fbf-f82238368ccd.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22167',
-    title: 'Houston Property',
-    address: '304 Farr Cove St',
-    city: 'Houston',
-    state: 'MS',
-    zipCode: '38851',
-    county: 'Chickasaw',
-    price: 66150,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 1029,
-    lotSize: 10890.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/bd12bc23-747c-48b1-8e64-332961d04ef6.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22166',
-    title: 'Cayce Property',
-    address: '206 Shady Ln',
-    city: 'Cayce',
-    state: 'SC',
-    zipCode: '29033',
-    county: 'Lexington',
-    price: 214000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1910,
-    lotSize: 20822.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/45e54404-ec77-4ce6-b525-c5c63b77fe4e.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22165',
-    title: 'Hollister Property',
-    address: '1357 Sunridge Dr',
-    city: 'Hollister',
-    state: 'CA',
-    zipCode: '95023',
-    county: 'San Benito',
-    price: 867500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 3.0,
-    squareFeet: 2386,
-    lotSize: 6321.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/e443ef34-bb35-447c-9e59-0cb42fa7fe66.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22164',
-    title: 'Micanopy Property',
-    address: '21750 Nw 44th Ave',
-    city: 'Micanopy',
-    state: 'FL',
-    zipCode: '32667',
-    county: 'Marion',
-    price: 147000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1323,
-    lotSize: 10000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/6ec1324e-b370-432c-86b0-a1c082115280.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22161',
-    title: 'Panama City Property',
-    address: '925 Bay Ave',
-    city: 'Panama City',
-    state: 'FL',
-    zipCode: '32401',
-    county: 'Bay',
-    price: 60115,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 662,
-    lotSize: 2800.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7b6ea5b6-47eb-4fc8-980b-288d83846d8c.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22160',
-    title: 'Petersburg Property',
-    address: '602 S 10th St',
-    city: 'Petersburg',
-    state: 'IN',
-    zipCode: '47567',
-    county: 'Pike',
-    price: 110000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1248,
-    lotSize: 14030.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/3ab63156-a731-4cf3-a154-715e327a57be.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22159',
-    title: 'El Paso Property',
-    address: '5799 Juniper Creek Dr',
-    city: 'El Paso',
-    state: 'TX',
-    zipCode: '79932',
-    county: 'El Paso',
-    price: 576250,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 3.0,
-    squareFeet: 2855,
-    lotSize: 11787.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/03990394-0726-4d8b-ae79-c46e6f597255.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22158',
-    title: 'Abilene Property',
-    address: '2825 S 11th St',
-    city: 'Abilene',
-    state: 'TX',
-    zipCode: '79605',
-    county: 'Taylor',
-    price: 125000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 1632,
-    lotSize: 8580.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/a97606d0-ad14-4b30-bdc4-a873d90d5511.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22156',
-    title: 'Columbus Property',
-    address: '2927 8th St',
-    city: 'Columbus',
-    state: 'GA',
-    zipCode: '31906',
-    county: 'Muscogee',
-    price: 99000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1461,
-    lotSize: 7405.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/e1e3adb5-9dcc-4b16-8c95-d32eb655a472.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22147',
-    title: 'Fountain Property',
-    address: '770 Memory Lane',
-    city: 'Fountain',
-    state: 'CO',
-    zipCode: '80817',
-    county: 'El Paso',
-    price: 342500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 833,
-    lotSize: 6971.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/c949be09-69e5-4439-ab5d-6e0461ccacdb.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22146',
-    title: 'Kansas City Property',
-    address: '3420 Mersington Ave',
-    city: 'Kansas City',
-    state: 'MO',
-    zipCode: '64128',
-    county: 'Jackson',
-    price: 105000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 825,
-    lotSize: 4920.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/0a111b58-2e1b-4c9c-a18f-ae29002a67ad.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22143',
-    title: 'Socorro Property',
-    address: '433 School Of Mines Rd',
-    city: 'Socorro',
-    state: 'NM',
-    zipCode: '87801',
-    county: 'Socorro',
-    price: 61000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1558,
-    lotSize: 10454.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/4f8867d9-e369-4148-b8bc-c94a944eb988.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22142',
-    title: 'Grants Pass Property',
-    address: '1710 Sw Brownell Ave',
-    city: 'Grants Pass',
-    state: 'OR',
-    zipCode: '97526',
-    county: 'Josephine',
-    price: 322000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1386,
-    lotSize: 6534.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/b79eeaed-5f30-4aa6-b799-cf947ff49510.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22134',
-    title: 'Sacramento Property',
-    address: '3338 Eisenhower Dr',
-    city: 'Sacramento',
-    state: 'CA',
-    zipCode: '95826',
-    county: 'Sacramento',
-    price: 462500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1472,
-    lotSize: 8712.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/ae63abe3-f5fe-40e2-8dde-a496961d31fa.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22130',
-    title: 'Collierville Property',
-    address: '285 Grove Rd',
-    city: 'Collierville',
-    state: 'TN',
-    zipCode: '38017',
-    county: 'Fayette',
-    price: 465000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 4.0,
-    squareFeet: 3899,
-    lotSize: 13.8,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/b46e505c-fa6c-4eb1-bf5f-682aae35ebb3.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22129',
-    title: 'Belleville Property',
-    address: '1937 Richmond Springs Ln',
-    city: 'Belleville',
-    state: 'IL',
-    zipCode: '62220',
-    county: 'Saint Clair',
-    price: 207125,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1521,
-    lotSize: 4193.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/c9c4112d-411f-4ec3-8e71-099714df245d.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22122',
-    title: 'Pueblo West Property',
-    address: '250 N Purcell Blvd',
-    city: 'Pueblo West',
-    state: 'CO',
-    zipCode: '81007',
-    county: 'Pueblo',
-    price: 326500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1536,
-    lotSize: 1.32,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/308d22a7-45cf-48a7-a868-597bdfbb3362.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22119',
-    title: 'Killeen Property',
-    address: '5005 Rose Garden Loop',
-    city: 'Killeen',
-    state: 'TX',
-    zipCode: '76542',
-    county: 'Bell',
-    price: 195000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1256,
-    lotSize: 3850.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/014f22ca-8f48-48f5-a91f-b7a485b3d941.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22118',
-    title: 'Mount Sterling Property',
-    address: '1319 Mccroskey Way',
-    city: 'Mount Sterling',
-    state: 'KY',
-    zipCode: '40353',
-    county: 'Montgomery',
-    price: 239000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 1648,
-    lotSize: 28714.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/3d2e396b-bc43-4240-8ad1-47d68c1543d1.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22117',
-    title: 'Bossier City Property',
-    address: '507 Falling Water Cir',
-    city: 'Bossier City',
-    state: 'LA',
-    zipCode: '71112',
-    county: 'Bossier',
-    price: 280000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 3.0,
-    squareFeet: 2267,
-    lotSize: 7280.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2bdabd14-0cef-4cb8-ada2-a7ee8770ab53.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22115',
-    title: 'Marshall Property',
-    address: '125 Beverly Cir',
-    city: 'Marshall',
-    state: 'TX',
-    zipCode: '75672',
-    county: 'Harrison',
-    price: 125000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2285,
-    lotSize: 28227.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/732d0547-1672-4c1b-8948-de4ca63741b6.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22112',
-    title: 'Buckeye Property',
-    address: '30929 W Weldon Ave',
-    city: 'Buckeye',
-    state: 'AZ',
-    zipCode: '85396',
-    county: 'Maricopa',
-    price: 304250,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1556,
-    lotSize: 5761.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/e5c13f8e-94e2-4551-a722-5f9bbcffcc2a.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22111',
-    title: 'Dora Property',
-    address: '8151 Susan Dr',
-    city: 'Dora',
-    state: 'AL',
-    zipCode: '35062',
-    county: 'Jefferson',
-    price: 80000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1765,
-    lotSize: 1.39,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/087a7704-02d2-4a6f-b242-4e18fc2b824b.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22109',
-    title: 'Virginia Beach Property',
-    address: '4081 Windsor Gate Pl',
-    city: 'Virginia Beach',
-    state: 'VA',
-    zipCode: '23452',
-    county: 'Virginia Beach City',
-    price: 325500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2251,
-    lotSize: 10328.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/e33fbfd7-5de5-4129-b14f-81ba5accb1f4.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22108',
-    title: 'Gassaway Property',
-    address: '906 Elk River Road',
-    city: 'Gassaway',
-    state: 'WV',
-    zipCode: '26624',
-    county: 'Braxton',
-    price: 60000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 2430,
-    lotSize: 13852.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2a31934c-9be4-4f32-b15d-424c3776dda0.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22104',
-    title: 'House Springs Property',
-    address: '5590 Stonecrest Dr',
-    city: 'House Springs',
-    state: 'MO',
-    zipCode: '63051',
-    county: 'Jefferson',
-    price: 85000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 1562,
-    lotSize: 8275.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/f225165d-0764-400f-87d1-7903cfce0866.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '22102',
-    title: 'Emmett Property',
-    address: '403 Lincoln Ave',
-    city: 'Emmett',
-    state: 'ID',
-    zipCode: '83617',
-    county: 'Gem',
-    price: 240000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1679,
-    lotSize: 6804.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/0f714e46-a804-4583-b8c9-37f5ec301f80.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21983',
-    title: 'Forney Property',
-    address: '1322 Cress Garden Ln',
-    city: 'Forney',
-    state: 'TX',
-    zipCode: '75126',
-    county: 'Kaufman',
-    price: 339500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2951,
-    lotSize: 5875.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/34c85917-9249-4d6f-9085-8d3b617068e3.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21982',
-    title: 'Ruther Glen Property',
-    address: '594 Welsh Drive',
-    city: 'Ruther Glen',
-    state: 'VA',
-    zipCode: '22546',
-    county: 'Caroline',
-    price: 166000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 903,
-    lotSize: 12000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/6aa623fb-19c1-465a-af6c-d099070d8cb4.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21979',
-    title: 'Pontotoc Property',
-    address: '255 S Main St',
-    city: 'Pontotoc',
-    state: 'MS',
-    zipCode: '38863',
-    county: 'Pontotoc',
-    price: 140000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1717,
-    lotSize: 1.11,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7a917e99-ad68-4d7f-875c-c8b2ff6bfb3a.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21977',
-    title: 'Moncks Corner Property',
-    address: '111 Heatley St',
-    city: 'Moncks Corner',
-    state: 'SC',
-    zipCode: '29461',
-    county: 'Berkeley',
-    price: 192500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 899,
-    lotSize: 9670.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/82a42be3-3a3d-4d7e-b75f-cd4c504b8f79.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21976',
-    title: 'Phoenix Property',
-    address: '3944 W Camelback Rd',
-    city: 'Phoenix',
-    state: 'AZ',
-    zipCode: '85019',
-    county: 'Maricopa',
-    price: 117500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 920,
-    lotSize: 2126.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/5a2e02d7-4498-4b35-adce-41dcd7dcb979.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21975',
-    title: 'Clarksville Property',
-    address: '998 Hot Shot Dr',
-    city: 'Clarksville',
-    state: 'TN',
-    zipCode: '37042',
-    county: 'Montgomery',
-    price: 192500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1072,
-    lotSize: 20038.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/6487668f-70b1-40ec-8009-5edc16905b5d.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21970',
-    title: 'Casa Grande Property',
-    address: '1033 West Avalon Canyon Drive',
-    city: 'Casa Grande',
-    state: 'AZ',
-    zipCode: '85122',
-    county: 'Pinal',
-    price: 294270,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1543,
-    lotSize: 6001.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/8b74ea01-8dd1-4d55-a0e4-203d9da05c07.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21969',
-    title: 'Aurora Property',
-    address: '5703 N Gibralter Way #6-206',
-    city: 'Aurora',
-    state: 'CO',
-    zipCode: '80019',
-    county: 'Adams',
-    price: 255000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.0,
-    squareFeet: 1126,
-    lotSize: 2524.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7271d3b3-80b7-481c-8dcf-85d1b76d60c9.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21967',
-    title: 'Greenwood Property',
-    address: '8405 N Woodlands Trl',
-    city: 'Greenwood',
-    state: 'LA',
-    zipCode: '71033',
-    county: 'Caddo',
-    price: 90000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1456,
-    lotSize: 30401.0,
-    lotSizeSource: 'sf',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/0a07dfdc-e3a4-49fd-bec0-18032b9113a0.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: true,
-    isOnlineAuction: true,
-    isVendeeFinancing: false,
-    auctionStartDate: '2025-11-18T15:00:00',
-    auctionEndDate: '2025-11-20T17:00:00',
-    status: 'available',
-  },
-  {
-    id: '21957',
-    title: 'Medford Property',
-    address: '4427 San Juan Dr',
-    city: 'Medford',
-    state: 'OR',
-    zipCode: '97504',
-    county: 'Jackson',
-    price: 507000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 2266,
-    lotSize: 16117.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/621e8550-47b8-47e4-87b6-cf859f6e71c2.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21956',
-    title: 'Searcy Property',
-    address: '114 Choctaw Dr',
-    city: 'Searcy',
-    state: 'AR',
-    zipCode: '72143',
-    county: 'White',
-    price: 160000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1835,
-    lotSize: 12632.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/fdbde02d-071a-4422-a601-f063985ceb0f.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21955',
-    title: 'Georgetown Property',
-    address: '3021 Gabriel View Dr',
-    city: 'Georgetown',
-    state: 'TX',
-    zipCode: '78628',
-    county: 'Williamson',
-    price: 640000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 4194,
-    lotSize: 17829.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/a169993e-8358-4446-95ca-c833b6b2041b.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21949',
-    title: 'Dittmer Property',
-    address: '9123 Woodland Trl Dr',
-    city: 'Dittmer',
-    state: 'MO',
-    zipCode: '63023',
-    county: 'Jefferson',
-    price: 176000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1575,
-    lotSize: 3.94,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/1e66a7a3-8d8a-45e7-878a-cad4390ae3fc.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21948',
-    title: 'West Carrollton Property',
-    address: '949 Primrose Dr',
-    city: 'West Carrollton',
-    state: 'OH',
-    zipCode: '45449',
-    county: 'Montgomery',
-    price: 130000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 992,
-    lotSize: 10440.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/745c9dda-0cbf-4a79-9fe7-2ff2de098296.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21945',
-    title: 'Yuma Property',
-    address: '13251 E 41st St',
-    city: 'Yuma',
-    state: 'AZ',
-    zipCode: '85367',
-    county: 'Yuma',
-    price: 155000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.0,
-    squareFeet: 1059,
-    lotSize: 6615.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/495c40b0-0d86-4a92-bae6-0ae3fdcb7ca2.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21944',
-    title: 'Pueblo Property',
-    address: '1017 W 13th St',
-    city: 'Pueblo',
-    state: 'CO',
-    zipCode: '81003',
-    county: 'Pueblo',
-    price: 60000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1304,
-    lotSize: 5280.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/c4d1ada3-ec64-4f13-9b5c-19c4de06367a.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21943',
-    title: 'Wolfforth Property',
-    address: '723 E 17th St',
-    city: 'Wolfforth',
-    state: 'TX',
-    zipCode: '79382',
-    county: 'Lubbock',
-    price: 210000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1695,
-    lotSize: 5730.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/9299ab13-7045-4fb1-aa7d-b48eb1aecb96.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21938',
-    title: 'Sun City Property',
-    address: '19041 N Pierson Rd',
-    city: 'Sun City',
-    state: 'AZ',
-    zipCode: '85373',
-    county: 'Maricopa',
-    price: 266500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 1782,
-    lotSize: 6236.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/daa05b40-7962-4cd0-89b9-3909083212f7.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21936',
-    title: 'Mexico Property',
-    address: '4360 Church St',
-    city: 'Mexico',
-    state: 'NY',
-    zipCode: '13114',
-    county: 'Oswego',
-    price: 125000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2645,
-    lotSize: 1.1,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/64792765-0396-4521-9ad8-2a3a7a966f99.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21935',
-    title: 'Thibodaux Property',
-    address: '100 Wolfe St',
-    city: 'Thibodaux',
-    state: 'LA',
-    zipCode: '70301',
-    county: 'Lafourche',
-    price: 75500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 2.0,
-    squareFeet: 1108,
-    lotSize: 5323.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/e31a8386-8d9f-4182-94d0-612f97c9de30.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21930',
-    title: 'Jackson Property',
-    address: '433 Henderson Rd',
-    city: 'Jackson',
-    state: 'TN',
-    zipCode: '38305',
-    county: 'Madison',
-    price: 180000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1880,
-    lotSize: 35284.0,
-    lotSizeSource: 'sf',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/f34b0c1e-452a-434b-88cf-ed7ca0cafeb4.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: true,
-    isOnlineAuction: true,
-    isVendeeFinancing: false,
-    auctionStartDate: '2025-11-18T15:00:00',
-    auctionEndDate: '2025-11-20T17:00:00',
-    status: 'available',
-  },
-  {
-    id: '21927',
-    title: 'Omaha Property',
-    address: '7766 N 106th St',
-    city: 'Omaha',
-    state: 'NE',
-    zipCode: '68122',
-    county: 'Douglas',
-    price: 275000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1496,
-    lotSize: 11761.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/f3b68abd-0e58-4266-9147-3cc8cc9c8cff.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21925',
-    title: 'New Orleans Property',
-    address: '9119 Edinburgh St',
-    city: 'New Orleans',
-    state: 'LA',
-    zipCode: '70118',
-    county: 'Orleans',
-    price: 165000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1344,
-    lotSize: 3300.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/c8647bd5-16d9-40c2-9392-c5b8f74b76c3.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21924',
-    title: 'Belton Property',
-    address: '5202 Fenton Ln',
-    city: 'Belton',
-    state: 'TX',
-    zipCode: '76513',
-    county: 'Bell',
-    price: 247900,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1865,
-    lotSize: 6000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/974f35a6-aea2-4d47-b461-e1d2b47572e9.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21922',
-    title: 'New Iberia Property',
-    address: '2515 Erath St',
-    city: 'New Iberia',
-    state: 'LA',
-    zipCode: '70560',
-    county: 'Iberia',
-    price: 119000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 2.0,
-    squareFeet: 2326,
-    lotSize: 12568.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/5d4d3eaf-482f-4959-aee9-d4b44ee04107.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21921',
-    title: 'Lakehills Property',
-    address: '315 Cameron Trl',
-    city: 'Lakehills',
-    state: 'TX',
-    zipCode: '78063',
-    county: 'Bandera',
-    price: 115000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 2048,
-    lotSize: 1.06,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/95433ebf-1c43-4a06-ad7e-c7b1c307f78d.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21920',
-    title: 'Florence Property',
-    address: '807 Pine Acres Dr',
-    city: 'Florence',
-    state: 'SC',
-    zipCode: '29501',
-    county: 'Florence',
-    price: 177250,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1192,
-    lotSize: 10019.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/7b83bbe9-e92a-4de6-ae9c-3b3b87bbbbfb.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21918',
-    title: 'Calhoun Property',
-    address: '98 Echota 5th St',
-    city: 'Calhoun',
-    state: 'GA',
-    zipCode: '30701',
-    county: 'Gordon',
-    price: 191200,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1155,
-    lotSize: 5227.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2514c91a-8808-4f3b-b9fd-9c5c21acee82.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21916',
-    title: 'San Antonio Property',
-    address: '7114 Breeze Holw',
-    city: 'San Antonio',
-    state: 'TX',
-    zipCode: '78250',
-    county: 'Bexar',
-    price: 205000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1644,
-    lotSize: 7841.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/840022df-a496-426b-9ac0-1ac9a5dbd1fc.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21914',
-    title: 'Omak Property',
-    address: '105 Greenacres Road',
-    city: 'Omak',
-    state: 'WA',
-    zipCode: '98841',
-    county: 'Okanogan',
-    price: 115000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 11,
-    bathrooms: 1.0,
-    lotSize: 5.0,
-    lotSizeSource: 'ac',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/8b0e7c27-f6c4-4aeb-963b-1b854ba3c87b.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21899',
-    title: 'Crestview Property',
-    address: '174 Villacrest Dr',
-    city: 'Crestview',
-    state: 'FL',
-    zipCode: '32536',
-    county: 'Okaloosa',
-    price: 230000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1742,
-    lotSize: 12600.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/ae7478bf-bdee-406d-801e-91caac92d643.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21892',
-    title: 'Crosby Property',
-    address: '16315 Spinnaker Dr',
-    city: 'Crosby',
-    state: 'TX',
-    zipCode: '77532',
-    county: 'Harris',
-    price: 194500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1414,
-    lotSize: 9204.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/33600b3d-24e4-4a3f-a293-8e2fe6f4a5fe.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21886',
-    title: 'Cleveland Property',
-    address: '12115 Orme Rd',
-    city: 'Cleveland',
-    state: 'OH',
-    zipCode: '44125',
-    county: 'Cuyahoga',
-    price: 145000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1064,
-    lotSize: 5400.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/3fe856b6-9d99-490c-9968-87d4fe6a23b9.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21885',
-    title: 'Rockland Property',
-    address: '100 North Avenue',
-    city: 'Rockland',
-    state: 'MA',
-    zipCode: '02370',
-    county: 'Plymouth',
-    price: 455000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1093,
-    lotSize: 13400.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/45752baf-92b7-4ec4-bfd5-3c7164b396f2.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21881',
-    title: 'Erie Property',
-    address: '4224 Freeman Rd',
-    city: 'Erie',
-    state: 'PA',
-    zipCode: '16510',
-    county: 'Erie',
-    price: 167500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1464,
-    lotSize: 22686.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/ff376098-aee9-4644-ada5-272729cefdfc.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21880',
-    title: 'Canyon Lake Property',
-    address: '23561 Clara Pl',
-    city: 'Canyon Lake',
-    state: 'CA',
-    zipCode: '92587',
-    county: 'Riverside',
-    price: 370000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 2,
-    bathrooms: 1.0,
-    squareFeet: 910,
-    lotSize: 5000.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/d536aaa7-3f42-4112-8ccf-ae46954743f0.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21878',
-    title: 'Colorado Springs Property',
-    address: '2434 Cherokee Park Pl',
-    city: 'Colorado Springs',
-    state: 'CO',
-    zipCode: '80915',
-    county: 'El Paso',
-    price: 187500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 1.0,
-    squareFeet: 1140,
-    lotSize: 723.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/38320ef9-84c5-4278-8d32-7750cba1f76a.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21877',
-    title: 'Highlands Ranch Property',
-    address: '2220 Santini Trl Unit A',
-    city: 'Highlands Ranch',
-    state: 'CO',
-    zipCode: '80129',
-    county: 'Douglas',
-    price: 572500,
-    assetListingStatus: 'For Sale',
-    bedrooms: 4,
-    bathrooms: 3.0,
-    squareFeet: 1907,
-    lotSize: 1307.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/54477872-f7a5-414f-8b11-42c5ad108115.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-  {
-    id: '21876',
-    title: 'Fresno Property',
-    address: '4918 Natchez Trce',
-    city: 'Fresno',
-    state: 'TX',
-    zipCode: '77545',
-    county: 'Fort Bend',
-    price: 260000,
-    assetListingStatus: 'For Sale',
-    bedrooms: 3,
-    bathrooms: 2.0,
-    squareFeet: 1466,
-    lotSize: 6390.0,
-    lotSizeSource: 'SF',
-    image: 'https://s3.amazonaws.com/photos.vrmresales.com/2c0da988-fd84-40f3-a512-f38a6b249ef7.jpg',
-    isNewListing: true,
-    isFeatured: false,
-    isAuction: false,
-    isVendeeFinancing: false,
-    status: 'available',
-  },
-];
+/**
+ * The property catalog, generated from properties_combined.json.
+ * Do not edit properties.generated.json by hand - run `npm run import` instead.
+ */
+export const properties: Property[] = catalog.properties as Property[];
+
+/**
+ * When the catalog was last imported (ISO 8601). Every import restamps it,
+ * even when only existing listings changed.
+ */
+export const catalogImportedAt: string = catalog.importedAt;
 
 export const getPropertyById = (id: string): Property | undefined => {
   return properties.find(property => property.id === id);
@@ -0,0 +1,34 @@
+/**
+ * Next.js instrumentation hook, run once when a server process starts.
+ *
+ * Validates the HubSpot environment variables (see lib/hubspotConfig.ts); in
+ * production the server refuses to start when any is missing or malformed.
+ *
+ * Checks the configured association labels against the HubSpot portal (see
+ * lib/hubspotAssociations.ts) and refuses to start when they do not match,
+ * so label IDs from another portal are caught at deploy time. The check is
+ * skipped when HubSpot is not configured, and a transient HubSpot failure is
+ * logged without blocking startup.
+ *
+ * Starts the request-info outbox worker, which retries HubSpot deliveries in
+ * the background. The worker needs the filesystem, so it only runs in the
+ * Node.js runtime.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { checkHubSpotConfigAtStartup } = await import('@/lib/hubspotConfig');
+    const { config, valid } = checkHubSpotConfigAtStartup();
+
+    if (valid && (config.accessToken || config.transport === 'fake')) {
+      const { validateAssociationLabels } = await import('@/lib/hubspot');
+      const labelValidation = await validateAssociationLabels();
+      if (!labelValidation.success && !labelValidation.retryable) {
+        throw new Error(labelValidation.error);
+      }
+    }
+
+    const { startRequestInfoOutboxWorker } = await import('@/lib/requestInfoOutbox');
+    startRequestInfoOutboxWorker();
+  }
+}
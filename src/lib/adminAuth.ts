@@ -0,0 +1,40 @@
+/**
+ * Admin API Authorization
+ *
+ * Admin endpoints (under /api/admin) require `Authorization: Bearer <token>`
+ * matching ADMIN_API_TOKEN. When ADMIN_API_TOKEN is not set, the admin API is
+ * disabled entirely.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AdminAuthorizationResult =
+  | { authorized: true }
+  | { authorized: false; status: 401 | 503; message: string };
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+export function authorizeAdminRequest(request: Request): AdminAuthorizationResult {
+  const adminToken = process.env.ADMIN_API_TOKEN;
+  if (!adminToken) {
+    return { authorized: false, status: 503, message: 'Admin API is disabled: ADMIN_API_TOKEN is not set' };
+  }
+
+  const authorization = request.headers.get('Authorization') ?? '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+
+  // Compare in constant time so the token cannot be guessed byte by byte
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(token);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { authorized: false, status: 401, message: 'Unauthorized' };
+  }
+
+  return { authorized: true };
+}
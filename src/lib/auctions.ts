@@ -0,0 +1,222 @@
+/**
+ * Auction Model
+ *
+ * Builds a typed auction model from the flat auction fields on `Property` and
+ * derives the values the UI needs: the current phase (upcoming/live/ended),
+ * countdown targets and "ending soon" ordering.
+ *
+ * Feed timestamps have no UTC offset (e.g. "2025-11-18T15:00:00"). They are
+ * interpreted as UTC so that server and client renders agree.
+ *
+ * These helpers are pure and safe to import from client components.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AuctionPhase = 'upcoming' | 'live' | 'ended';
+
+export type AuctionFormat = 'online' | 'in-person';
+
+export interface Auction {
+  propertyId: string;
+  format: AuctionFormat;
+  /** ISO 8601 timestamp (UTC) */
+  startsAt?: string;
+  /** ISO 8601 timestamp (UTC) */
+  endsAt?: string;
+  /** Raw feed status text, e.g. "Bidding Started" */
+  feedStatus?: string;
+  /** True when the feed reports that bidding has opened */
+  biddingStarted: boolean;
+  /** True when the feed reports an offer under review */
+  offerPending: boolean;
+  highBid?: number;
+  /** ISO 8601 timestamp (UTC) */
+  highBidPlacedAt?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Feed `auctionStatusType` values. Only the codes present in the feed are
+ * known: 2 ("Bidding Started") and 4 ("For Sale", bidding not yet open).
+ */
+const AUCTION_STATUS_BIDDING_STARTED = 2;
+
+/**
+ * Feed `auctionOfferStatusType` value observed on auctions with an offer under review.
+ */
+const AUCTION_OFFER_STATUS_PENDING = 1;
+
+export const AUCTION_PHASE_LABELS: Record<AuctionPhase, string> = {
+  upcoming: 'Upcoming',
+  live: 'Live',
+  ended: 'Ended',
+};
+
+export const AUCTION_PHASES = Object.keys(AUCTION_PHASE_LABELS) as AuctionPhase[];
+
+// ============================================================================
+// Model
+// ============================================================================
+
+/**
+ * Normalizes a feed timestamp to an ISO 8601 UTC string.
+ * Timestamps without an offset are treated as UTC.
+ */
+export function toUtcTimestamp(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+  const time = Date.parse(hasOffset ? value : `${value}Z`);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Builds the auction model for a property.
+ *
+ * @returns The auction, or undefined when the property is not an auction
+ */
+export function getAuction(property: Property): Auction | undefined {
+  if (!property.isAuction) {
+    return undefined;
+  }
+
+  return {
+    propertyId: property.id,
+    format: property.isOnlineAuction === false ? 'in-person' : 'online',
+    startsAt: toUtcTimestamp(property.auctionStartDate),
+    endsAt: toUtcTimestamp(property.auctionEndDate),
+    feedStatus: property.auctionStatus,
+    biddingStarted: property.auctionStatusType === AUCTION_STATUS_BIDDING_STARTED,
+    offerPending: property.auctionOfferStatusType === AUCTION_OFFER_STATUS_PENDING,
+    highBid: property.highBid,
+    highBidPlacedAt: toUtcTimestamp(property.highBidPlacedAt),
+  };
+}
+
+/**
+ * Determines the auction phase at a point in time.
+ *
+ * Dates take precedence over the feed status because the feed is a snapshot
+ * and goes stale. When no dates are known, the feed's "bidding started" flag
+ * decides between live and upcoming.
+ */
+export function getAuctionPhase(auction: Auction, now: number = Date.now()): AuctionPhase {
+  const startsAt = auction.startsAt ? Date.parse(auction.startsAt) : undefined;
+  const endsAt = auction.endsAt ? Date.parse(auction.endsAt) : undefined;
+
+  if (endsAt !== undefined && now >= endsAt) {
+    return 'ended';
+  }
+  if (startsAt !== undefined) {
+    return now >= startsAt ? 'live' : 'upcoming';
+  }
+  return auction.biddingStarted ? 'live' : 'upcoming';
+}
+
+/**
+ * Returns the timestamp the countdown should run towards: the start for
+ * upcoming auctions and the end for live ones.
+ */
+export function getCountdownTarget(auction: Auction, phase: AuctionPhase): number | undefined {
+  const target = phase === 'upcoming' ? auction.startsAt : phase === 'live' ? auction.endsAt : undefined;
+  return target ? Date.parse(target) : undefined;
+}
+
+// ============================================================================
+// Sorting
+// ============================================================================
+
+/**
+ * Sorts auction properties so that the ones ending soonest come first.
+ * Live and upcoming auctions are ordered by end time (soonest first);
+ * ended auctions follow, most recently ended first. Non-auctions are dropped.
+ */
+export function sortByEndingSoon(properties: Property[], now: number = Date.now()): Property[] {
+  const entries = properties.flatMap(property => {
+    const auction = getAuction(property);
+    if (!auction) {
+      return [];
+    }
+    const endsAt = auction.endsAt ? Date.parse(auction.endsAt) : Infinity;
+    return [{ property, ended: getAuctionPhase(auction, now) === 'ended', endsAt }];
+  });
+
+  entries.sort((a, b) => {
+    if (a.ended !== b.ended) {
+      return a.ended ? 1 : -1;
+    }
+    return a.ended ? b.endsAt - a.endsAt : a.endsAt - b.endsAt;
+  });
+
+  return entries.map(entry => entry.property);
+}
+
+export interface AuctionListing {
+  /** Auction properties in "ending soon" order, with their current phase */
+  entries: { property: Property; phase: AuctionPhase }[];
+  counts: Record<AuctionPhase, number>;
+}
+
+/**
+ * Collects every auction in "ending soon" order along with per-phase counts,
+ * evaluated at a single point in time.
+ */
+export function getAuctionListing(properties: Property[], now: number = Date.now()): AuctionListing {
+  const counts = { upcoming: 0, live: 0, ended: 0 };
+  const entries = sortByEndingSoon(properties, now).map(property => {
+    const phase = getAuctionPhase(getAuction(property) as Auction, now);
+    counts[phase] += 1;
+    return { property, phase };
+  });
+  return { entries, counts };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Formats a remaining duration for countdowns, e.g. "2d 04h 12m" or "03:12:09".
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (days > 0) {
+    return `${days}d ${pad(hours)}h ${pad(minutes)}m`;
+  }
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * Formats how long ago a timestamp was, e.g. "5 minutes ago".
+ */
+export function formatTimeAgo(timestamp: string, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.floor((now - Date.parse(timestamp)) / 1000));
+  const units: [number, string][] = [
+    [86400, 'day'],
+    [3600, 'hour'],
+    [60, 'minute'],
+  ];
+
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size);
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+}
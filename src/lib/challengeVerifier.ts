@@ -0,0 +1,95 @@
+/**
+ * Challenge Verification
+ *
+ * Pluggable verification of bot challenge tokens (e.g. Cloudflare Turnstile,
+ * hCaptcha or reCAPTCHA) for public form endpoints. The form obtains a token
+ * from the challenge widget and sends it with the submission; the API route
+ * verifies it server-side before doing any work.
+ *
+ * The verifier is selected with CHALLENGE_VERIFIER:
+ * - unset: challenges are disabled and no token is required
+ * - `local`: the local stub, which accepts only LOCAL_CHALLENGE_TOKEN. Forms
+ *   send that token when NEXT_PUBLIC_CHALLENGE_VERIFIER is also `local`, so
+ *   the full flow can be exercised without a challenge provider
+ *
+ * A real provider is plugged in by implementing `ChallengeVerifier` and
+ * registering it with `setChallengeVerifier()`.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChallengeVerificationResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface ChallengeVerificationContext {
+  /** The client IP, which most providers accept for additional scoring */
+  remoteIp?: string;
+}
+
+/**
+ * Verifies a challenge token with the challenge provider.
+ */
+export type ChallengeVerifier = (
+  token: string,
+  context: ChallengeVerificationContext
+) => Promise<ChallengeVerificationResult>;
+
+// ============================================================================
+// Local Stub
+// ============================================================================
+
+/**
+ * The only token the local stub accepts.
+ */
+export const LOCAL_CHALLENGE_TOKEN = 'local-challenge-pass';
+
+/**
+ * Stand-in for a challenge provider in local development: passes
+ * LOCAL_CHALLENGE_TOKEN and fails every other token.
+ */
+export const localChallengeVerifier: ChallengeVerifier = async token => {
+  if (token === LOCAL_CHALLENGE_TOKEN) {
+    return { success: true };
+  }
+  return { success: false, error: 'Challenge token was not issued by the local challenge stub' };
+};
+
+// ============================================================================
+// Active Verifier
+// ============================================================================
+
+let activeVerifier: ChallengeVerifier | null | undefined;
+
+function createDefaultVerifier(): ChallengeVerifier | null {
+  const configured = process.env.CHALLENGE_VERIFIER;
+  if (!configured) {
+    return null;
+  }
+  if (configured === 'local') {
+    return localChallengeVerifier;
+  }
+  throw new Error(`CHALLENGE_VERIFIER is set to an unknown verifier: ${configured}`);
+}
+
+/**
+ * Returns the configured verifier, or null when challenges are disabled.
+ */
+export function getChallengeVerifier(): ChallengeVerifier | null {
+  if (activeVerifier === undefined) {
+    activeVerifier = createDefaultVerifier();
+  }
+  return activeVerifier;
+}
+
+/**
+ * Replaces the configured verifier, e.g. with a provider implementation. Pass
+ * `null` to disable challenges, or `undefined` to go back to the
+ * environment-configured verifier.
+ */
+export function setChallengeVerifier(verifier: ChallengeVerifier | null | undefined): void {
+  activeVerifier = verifier;
+}
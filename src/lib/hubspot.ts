@@ -8,111 +8,149 @@
  * 
  * All HubSpot identifiers and credentials are read from environment variables
  * to keep the codebase safe for public repositories.
+ * 
+ * HTTP calls go through the shared HubSpotClient (see lib/hubspotClient.ts),
+ * which can be pointed at the in-memory fake with HUBSPOT_TRANSPORT=fake.
+ * 
+ * Every helper takes an optional request logger (see lib/logger.ts) as its
+ * last argument, so its log entries carry the caller's correlation ID.
  */
 
+import {
+  ContactListingAssociationLabel,
+  getContactListingAssociationLabels,
+  getContactListingAssociationTypeId,
+  HUBSPOT_OBJECT_TYPE_IDS,
+} from '@/lib/hubspotAssociations';
+import {
+  getHubSpotClient,
+  isRetryableError,
+  isRetryableResponse,
+} from '@/lib/hubspotClient';
+import { getHubSpotConfig, HUBSPOT_REQUIRED_SCOPES, loadHubSpotConfig } from '@/lib/hubspotConfig';
+import { ContactInquiryPayload, InquiryPayload } from '@/lib/inquirySchema';
+import { LeadAttribution } from '@/lib/leadAttribution';
+import { cacheListing, getCachedListing } from '@/lib/listingIdCache';
+import { Logger, rootLogger } from '@/lib/logger';
+
 // ============================================================================
 // Types
 // ============================================================================
 
-export interface RequestInfoFormData {
-  firstname: string;
-  lastname: string;
-  email: string;
-  phone?: string;
+/**
+ * Contact form data submitted to HubSpot. The inquiry schema defines it;
+ * the notify-me and tour request payloads share its fields.
+ */
+export type RequestInfoFormData = InquiryPayload;
+
+/**
+ * Outcome shared by all HubSpot helper results.
+ */
+export interface HubSpotOperationResult {
+  success: boolean;
+  error?: string;
   /**
-   * The external listing ID used for HubSpot Listing lookups.
-   * This value corresponds to `assetId` from source property data.
-   * Do NOT use `assetReferenceId` - it's a secondary reference.
-   * See DATA_MAPPING.md for identifier documentation.
+   * Set on failure. True when the failure is transient (rate limiting, a 5xx
+   * outage or a network error that persisted through the client's retries), so
+   * the same operation can be attempted again later. False for terminal
+   * failures such as validation errors or missing configuration.
    */
-  external_listing_id: string;
-  marketing_opt_in: boolean;
-  pageUri?: string;
-  pageName?: string;
+  retryable?: boolean;
 }
 
-export interface HubSpotFormSubmissionResult {
-  success: boolean;
-  error?: string;
+export interface HubSpotFormSubmissionResult extends HubSpotOperationResult {
   contactId?: string;
 }
 
-export interface HubSpotListingLookupResult {
-  success: boolean;
+export interface HubSpotContactLookupResult extends HubSpotOperationResult {
+  /** Undefined when the search succeeded but no contact has the email */
+  contactId?: string;
+}
+
+export interface HubSpotMarketingConsentResult extends HubSpotOperationResult {
+  /** Set whenever the contact was found or created, even if the update failed */
+  contactId?: string;
+}
+
+export interface HubSpotListingLookupResult extends HubSpotOperationResult {
   listingId?: string;
-  error?: string;
   /**
    * Indicates whether the listing was not found (vs. an API error).
    * When true, the external_listing_id was valid but no matching record exists in HubSpot.
    * This allows callers to distinguish between "not found" and "API failure" scenarios.
    */
   notFound?: boolean;
+  /**
+   * The Listing's `hubspot_owner_id` (the listing agent), when assigned.
+   */
+  ownerId?: string;
 }
 
-export interface HubSpotAssociationResult {
-  success: boolean;
-  error?: string;
+export type HubSpotAssociationResult = HubSpotOperationResult;
+
+/** Defined with the label registry in lib/hubspotAssociations.ts */
+export type { ContactListingAssociationLabel };
+
+export interface HubSpotAssociationLabelValidationResult extends HubSpotOperationResult {
+  /** Each configured label that does not match the portal, described for the logs */
+  mismatches?: string[];
 }
 
-export interface HubSpotContactCreationResult {
-  success: boolean;
-  contactId?: string;
-  error?: string;
+export type HubSpotHealthCheckName = 'config' | 'access-token' | 'form' | 'listings' | 'association-labels';
+
+export interface HubSpotHealthCheck {
+  name: HubSpotHealthCheckName;
+  /** `warn` when the check could not be completed or found a non-fatal problem */
+  status: 'pass' | 'warn' | 'fail';
+  message: string;
 }
 
-// ============================================================================
-// Environment Variable Helpers
-// ============================================================================
+export interface HubSpotHealthResult extends HubSpotOperationResult {
+  checks: HubSpotHealthCheck[];
+}
 
-/**
- * Gets the HubSpot Portal ID from server-side environment variables.
- * Required for both Forms API and CRM API calls.
- * 
- * Note: This function only reads server-side environment variables (HUBSPOT_PORTAL_ID).
- * The NEXT_PUBLIC_ variant is only for client-side use and is not accessed here
- * to maintain clear separation between client and server credentials.
- */
-function getPortalId(): string {
-  const portalId = process.env.HUBSPOT_PORTAL_ID;
-  if (!portalId) {
-    throw new Error('HUBSPOT_PORTAL_ID environment variable is not set');
-  }
-  return portalId;
+export interface HubSpotTaskInput {
+  subject: string;
+  body: string;
+  /** When the task is due */
+  dueAt: Date;
+  /** HubSpot owner (user) the task is assigned to; unassigned when omitted */
+  ownerId?: string;
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH';
 }
 
-/**
- * Gets the HubSpot Form GUID from server-side environment variables.
- * Required for Forms API submissions.
- * 
- * Note: This function only reads server-side environment variables (HUBSPOT_FORM_GUID).
- * The NEXT_PUBLIC_ variant is only for client-side use and is not accessed here
- * to maintain clear separation between client and server credentials.
- */
-function getFormGuid(): string {
-  const formGuid = process.env.HUBSPOT_FORM_GUID;
-  if (!formGuid) {
-    throw new Error('HUBSPOT_FORM_GUID environment variable is not set');
-  }
-  return formGuid;
+export interface HubSpotTaskResult extends HubSpotOperationResult {
+  taskId?: string;
+  /**
+   * False when the task was created but could not be associated with every
+   * requested record. The task still exists in HubSpot.
+   */
+  associationsCreated?: boolean;
 }
 
-/**
- * Gets the HubSpot Private App Access Token from environment variables.
- * Required for CRM API calls (listing lookup, associations, marketing consent).
- * This is a server-side only secret and should never be exposed to the client.
- */
-function getAccessToken(): string {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  if (!accessToken) {
-    throw new Error('HUBSPOT_ACCESS_TOKEN environment variable is not set');
-  }
-  return accessToken;
+export interface HubSpotContactCreationResult extends HubSpotOperationResult {
+  contactId?: string;
 }
 
 // ============================================================================
 // HubSpot Forms API
 // ============================================================================
 
+/**
+ * Contact properties that receive the lead source attribution. The
+ * properties must exist in HubSpot and be on the form as hidden fields. The
+ * tracking cookie is not a property; it goes in the submission context.
+ */
+const LEAD_ATTRIBUTION_PROPERTIES: Record<Exclude<keyof LeadAttribution, 'hutk'>, string> = {
+  utm_source: 'utm_source',
+  utm_medium: 'utm_medium',
+  utm_campaign: 'utm_campaign',
+  utm_term: 'utm_term',
+  utm_content: 'utm_content',
+  referrer: 'lead_referrer',
+  landing_page: 'lead_landing_page',
+};
+
 /**
  * Submits contact data to HubSpot using the Forms API.
  * 
@@ -120,60 +158,74 @@ function getAccessToken(): string {
  * HubSpot automatically deduplicates contacts based on email address - if a contact
  * with the same email already exists, it will be updated instead of creating a duplicate.
  * 
+ * Listing inquiries include `external_listing_id`; general inquiries (see
+ * /api/contact) include a free-text `message` instead.
+ * 
+ * Lead source attribution, when present, is sent as contact properties (see
+ * LEAD_ATTRIBUTION_PROPERTIES), and the `hubspotutk` cookie as the context's
+ * `hutk`, which links the contact to the visitor's tracked page views.
+ * 
  * @param formData - The form data to submit
+ * @param logger - Request logger
  * @returns Result indicating success/failure and optional contact ID
  */
 export async function submitContactToHubSpot(
-  formData: RequestInfoFormData
+  formData: RequestInfoFormData | ContactInquiryPayload,
+  logger: Logger = rootLogger
 ): Promise<HubSpotFormSubmissionResult> {
   try {
-    const portalId = getPortalId();
-    const formGuid = getFormGuid();
-    
     // Build the HubSpot form fields array
     // The Forms API expects an array of {name, value} objects
     const fields = [
       { name: 'firstname', value: formData.firstname },
       { name: 'lastname', value: formData.lastname },
       { name: 'email', value: formData.email },
-      { name: 'external_listing_id', value: formData.external_listing_id },
     ];
 
+    if ('external_listing_id' in formData) {
+      fields.push({ name: 'external_listing_id', value: formData.external_listing_id });
+    }
+
     // Add optional phone field if provided
     if (formData.phone) {
       fields.push({ name: 'phone', value: formData.phone });
     }
 
+    if ('message' in formData && formData.message) {
+      fields.push({ name: 'message', value: formData.message });
+    }
+
     // Add marketing opt-in as a field (HubSpot will use this for consent tracking)
     fields.push({ name: 'marketing_opt_in', value: String(formData.marketing_opt_in) });
 
+    const attribution = formData.attribution ?? {};
+    for (const [key, property] of Object.entries(LEAD_ATTRIBUTION_PROPERTIES)) {
+      const value = attribution[key as keyof typeof LEAD_ATTRIBUTION_PROPERTIES];
+      if (value) {
+        fields.push({ name: property, value });
+      }
+    }
+
     const hubspotPayload = {
       fields,
       context: {
         pageUri: formData.pageUri || '',
         pageName: formData.pageName || '',
+        ...(attribution.hutk ? { hutk: attribution.hutk } : {}),
       },
     };
 
     // Submit to HubSpot Forms API
     // API endpoint: https://api.hsforms.com/submissions/v3/integration/submit/:portalId/:formId
-    const response = await fetch(
-      `https://api.hsforms.com/submissions/v3/integration/submit/${portalId}/${formGuid}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(hubspotPayload),
-      }
-    );
+    const response = await getHubSpotClient().submitForm(hubspotPayload, logger);
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      console.error('HubSpot Forms API error:', errorData);
+      logger.error('HubSpot Forms API error', { status: response.status, error: errorData });
       return {
         success: false,
         error: `HubSpot Forms API error: ${response.status} ${response.statusText}`,
+        retryable: isRetryableResponse(response),
       };
     }
 
@@ -185,10 +237,11 @@ export async function submitContactToHubSpot(
       contactId: result.contactId,
     };
   } catch (error) {
-    console.error('Error submitting to HubSpot Forms API:', error);
+    logger.error('Error submitting to HubSpot Forms API', { error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
     };
   }
 }
@@ -201,45 +254,36 @@ export async function submitContactToHubSpot(
  * Searches for a contact by email in HubSpot.
  * 
  * @param email - The email address to search for
+ * @param logger - Request logger
  * @returns Result containing the contact ID if found
  */
 export async function findContactByEmail(
-  email: string
-): Promise<{ success: boolean; contactId?: string; error?: string }> {
+  email: string,
+  logger: Logger = rootLogger
+): Promise<HubSpotContactLookupResult> {
   try {
-    const accessToken = getAccessToken();
-
-    const searchResponse = await fetch(
-      'https://api.hubapi.com/crm/v3/objects/contacts/search',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          filterGroups: [
+    const searchResponse = await getHubSpotClient().searchObjects('contacts', {
+      filterGroups: [
+        {
+          filters: [
             {
-              filters: [
-                {
-                  propertyName: 'email',
-                  operator: 'EQ',
-                  value: email,
-                },
-              ],
+              propertyName: 'email',
+              operator: 'EQ',
+              value: email,
             },
           ],
-          properties: ['email', 'firstname', 'lastname'],
-        }),
-      }
-    );
+        },
+      ],
+      properties: ['email', 'firstname', 'lastname'],
+    }, logger);
 
     if (!searchResponse.ok) {
       const errorData = await searchResponse.json().catch(() => ({}));
-      console.error('HubSpot contact search error:', errorData);
+      logger.error('HubSpot contact search error', { status: searchResponse.status, error: errorData });
       return {
         success: false,
         error: `Failed to search for contact: ${searchResponse.status}`,
+        retryable: isRetryableResponse(searchResponse),
       };
     }
 
@@ -257,10 +301,11 @@ export async function findContactByEmail(
       contactId: searchResult.results[0].id,
     };
   } catch (error) {
-    console.error('Error searching for contact:', error);
+    logger.error('Error searching for contact', { error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
     };
   }
 }
@@ -272,6 +317,7 @@ export async function findContactByEmail(
  * ensuring that the Request Info flow can create contacts on-the-fly.
  * 
  * @param contactData - The contact data to create
+ * @param logger - Request logger
  * @returns Result containing the new contact ID if successful
  */
 export async function createContact(
@@ -280,11 +326,10 @@ export async function createContact(
     firstname: string;
     lastname: string;
     phone?: string;
-  }
+  },
+  logger: Logger = rootLogger
 ): Promise<HubSpotContactCreationResult> {
   try {
-    const accessToken = getAccessToken();
-
     const properties: Record<string, string> = {
       email: contactData.email,
       firstname: contactData.firstname,
@@ -296,43 +341,175 @@ export async function createContact(
       properties.phone = contactData.phone;
     }
 
-    console.log(`Creating new contact in HubSpot for email: ${contactData.email}`);
+    logger.info('Creating new contact in HubSpot', { email: contactData.email });
 
-    const createResponse = await fetch(
-      'https://api.hubapi.com/crm/v3/objects/contacts',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ properties }),
-      }
-    );
+    const createResponse = await getHubSpotClient().createObject('contacts', properties, logger);
 
     if (!createResponse.ok) {
       const errorData = await createResponse.json().catch(() => ({}));
-      console.error('HubSpot contact creation error:', errorData);
+      logger.error('HubSpot contact creation error', { status: createResponse.status, error: errorData });
       return {
         success: false,
         error: `Failed to create contact: ${createResponse.status} ${createResponse.statusText}`,
+        retryable: isRetryableResponse(createResponse),
       };
     }
 
     const createResult = await createResponse.json();
-    console.log(`Successfully created contact in HubSpot: ${createResult.id}`);
+    logger.info('Created contact in HubSpot', { contactId: createResult.id });
 
     return {
       success: true,
       contactId: createResult.id,
     };
   } catch (error) {
-    console.error('Error creating contact:', error);
+    logger.error('Error creating contact', { error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
+    };
+  }
+}
+
+/**
+ * Finds a contact by email, creating it when it does not exist yet.
+ * 
+ * For workflows that do not submit a form (e.g. saved properties sync). After
+ * a Forms API submission use resolveSubmittedContact() instead, which waits
+ * for the submission's contact rather than creating a duplicate.
+ * 
+ * @param email - The contact's email address (used as identifier)
+ * @param contactData - Contact data for creating a new contact if not found
+ * @param logger - Request logger
+ * @returns Result containing the existing or new contact ID
+ */
+export async function findOrCreateContact(
+  email: string,
+  contactData?: {
+    firstname: string;
+    lastname: string;
+    phone?: string;
+  },
+  logger: Logger = rootLogger
+): Promise<HubSpotContactCreationResult> {
+  const searchResult = await findContactByEmail(email, logger);
+
+  if (!searchResult.success) {
+    return {
+      success: false,
+      error: searchResult.error,
+      retryable: searchResult.retryable,
+    };
+  }
+
+  if (searchResult.contactId) {
+    return {
+      success: true,
+      contactId: searchResult.contactId,
+    };
+  }
+
+  if (!contactData) {
+    logger.warn('Contact not found and no contact data provided for creation', { email });
+    return {
+      success: false,
+      error: 'Contact not found in HubSpot and no contact data provided for creation',
+      retryable: false,
     };
   }
+
+  logger.info('Contact not found, creating new contact', { email });
+  const createResult = await createContact({
+    email,
+    firstname: contactData.firstname,
+    lastname: contactData.lastname,
+    phone: contactData.phone,
+  }, logger);
+
+  if (!createResult.success || !createResult.contactId) {
+    logger.error('Failed to create contact', { error: createResult.error });
+    return {
+      success: false,
+      error: createResult.error || 'Failed to create contact',
+      retryable: createResult.retryable,
+    };
+  }
+
+  return createResult;
+}
+
+// ============================================================================
+// Submitted Contact Resolution
+// ============================================================================
+
+/**
+ * Polling interval bounds for resolveSubmittedContact(). The interval starts
+ * short and doubles, so a quickly processed submission resolves quickly.
+ */
+const CONTACT_RESOLUTION_INITIAL_INTERVAL_MS = 250;
+const CONTACT_RESOLUTION_MAX_INTERVAL_MS = 2000;
+
+/**
+ * Resolves the Contact created or updated by a Forms API submission.
+ * 
+ * The Forms API processes submissions asynchronously, so the contact may not
+ * exist (or be searchable) yet when the submission returns. Uses the contact ID
+ * from the submission response when HubSpot provides one; otherwise polls
+ * findContactByEmail() with a growing interval until the contact appears or
+ * HUBSPOT_CONTACT_RESOLUTION_TIMEOUT_MS (default: 10000ms) has passed.
+ * 
+ * This never creates a contact: creating one while the submission is still
+ * being processed would race it into a duplicate. A timeout is reported as a
+ * retryable failure instead.
+ * 
+ * @param email - The submitted email address
+ * @param submittedContactId - The contactId from the Forms API response, if any
+ * @param logger - Request logger
+ * @returns Result containing the contact ID once resolved
+ */
+export async function resolveSubmittedContact(
+  email: string,
+  submittedContactId?: string,
+  logger: Logger = rootLogger
+): Promise<HubSpotContactLookupResult> {
+  if (submittedContactId) {
+    return {
+      success: true,
+      contactId: submittedContactId,
+    };
+  }
+
+  const timeoutMs = getHubSpotConfig().contactResolutionTimeoutMs;
+  const startedAt = Date.now();
+  let intervalMs = CONTACT_RESOLUTION_INITIAL_INTERVAL_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    const searchResult = await findContactByEmail(email, logger);
+
+    if (!searchResult.success || searchResult.contactId) {
+      if (searchResult.contactId) {
+        logger.info('Resolved submitted contact', {
+          contactId: searchResult.contactId,
+          searches: attempt,
+          elapsedMs: Date.now() - startedAt,
+        });
+      }
+      return searchResult;
+    }
+
+    if (Date.now() - startedAt + intervalMs > timeoutMs) {
+      logger.warn('Submitted contact not found', { searches: attempt, elapsedMs: Date.now() - startedAt });
+      return {
+        success: false,
+        error: `Contact for the form submission was not found within ${timeoutMs}ms`,
+        retryable: true,
+      };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    intervalMs = Math.min(intervalMs * 2, CONTACT_RESOLUTION_MAX_INTERVAL_MS);
+  }
 }
 
 // ============================================================================
@@ -353,6 +530,7 @@ export async function createContact(
  * 
  * @param email - The contact's email address (used as identifier)
  * @param contactData - Optional contact data for creating a new contact if not found
+ * @param logger - Request logger
  * @returns Result indicating success/failure
  */
 export async function setMarketingConsent(
@@ -361,79 +539,55 @@ export async function setMarketingConsent(
     firstname: string;
     lastname: string;
     phone?: string;
-  }
-): Promise<{ success: boolean; error?: string; contactId?: string }> {
-  try {
-    const accessToken = getAccessToken();
+  },
+  logger: Logger = rootLogger
+): Promise<HubSpotMarketingConsentResult> {
+  // First, find the contact by email (creating it if needed) to get their ID
+  const contactResult = await findOrCreateContact(email, contactData, logger);
 
-    // First, search for the contact by email to get their ID
-    const searchResult = await findContactByEmail(email);
-
-    if (!searchResult.success) {
-      return {
-        success: false,
-        error: searchResult.error,
-      };
-    }
-
-    let contactId = searchResult.contactId;
-
-    // If contact not found, create a new one
-    if (!contactId) {
-      if (!contactData) {
-        console.warn('Contact not found for email:', email, 'and no contact data provided for creation');
-        return {
-          success: false,
-          error: 'Contact not found in HubSpot and no contact data provided for creation',
-        };
-      }
-
-      console.log(`Contact not found for email: ${email}, creating new contact`);
-      const createResult = await createContact({
-        email,
-        firstname: contactData.firstname,
-        lastname: contactData.lastname,
-        phone: contactData.phone,
-      });
-
-      if (!createResult.success || !createResult.contactId) {
-        console.error('Failed to create contact:', createResult.error);
-        return {
-          success: false,
-          error: createResult.error || 'Failed to create contact',
-        };
-      }
+  if (!contactResult.success || !contactResult.contactId) {
+    return {
+      success: false,
+      error: contactResult.error,
+      retryable: contactResult.retryable,
+    };
+  }
 
-      contactId = createResult.contactId;
-    }
+  return updateMarketingConsent(contactResult.contactId, logger);
+}
 
+/**
+ * Marks an existing contact as marketing-eligible.
+ * 
+ * Use this instead of setMarketingConsent() after a Forms API submission:
+ * resolve the submitted contact with resolveSubmittedContact() first, so that
+ * no second contact is created while the submission is still being processed.
+ * 
+ * @param contactId - The HubSpot Contact ID
+ * @param logger - Request logger
+ * @returns Result indicating success/failure
+ */
+export async function updateMarketingConsent(
+  contactId: string,
+  logger: Logger = rootLogger
+): Promise<HubSpotMarketingConsentResult> {
+  try {
     // Update the contact to mark them as marketing-eligible
     // We set the hs_legal_basis property to indicate lawful basis for processing
     // and update subscription status
-    const updateResponse = await fetch(
-      `https://api.hubapi.com/crm/v3/objects/contacts/${contactId}`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          properties: {
-            // Set legal basis for marketing communications
-            // This indicates the contact has given explicit consent
-            hs_legal_basis: 'Freely given consent from contact',
-          },
-        }),
-      }
-    );
+    const updateResponse = await getHubSpotClient().updateObject('contacts', contactId, {
+      // Set legal basis for marketing communications
+      // This indicates the contact has given explicit consent
+      hs_legal_basis: 'Freely given consent from contact',
+    }, logger);
 
     if (!updateResponse.ok) {
       const errorData = await updateResponse.json().catch(() => ({}));
-      console.error('HubSpot contact update error:', errorData);
+      logger.error('HubSpot contact update error', { status: updateResponse.status, contactId, error: errorData });
       return {
         success: false,
         error: `Failed to update contact marketing consent: ${updateResponse.status}`,
+        retryable: isRetryableResponse(updateResponse),
         contactId,
       };
     }
@@ -443,10 +597,11 @@ export async function setMarketingConsent(
       contactId,
     };
   } catch (error) {
-    console.error('Error setting marketing consent:', error);
+    logger.error('Error setting marketing consent', { contactId, error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
     };
   }
 }
@@ -455,34 +610,6 @@ export async function setMarketingConsent(
 // Listing Lookup
 // ============================================================================
 
-// ============================================================================
-// HubSpot Object Type Constants
-// ============================================================================
-
-/**
- * HubSpot Object Type IDs
- * 
- * Listings are Object Library objects that require numeric objectTypeIds.
- * They are NOT discoverable via /crm/v3/objects or /crm/v3/schemas.
- * Only the numeric objectTypeId works for CRM v4 associations.
- * 
- * Contact: 0-1 (core object)
- * Listings: 0-420 (Object Library object)
- */
-const HUBSPOT_CONTACT_OBJECT_TYPE_ID = '0-1';
-const HUBSPOT_LISTINGS_OBJECT_TYPE_ID = '0-420';
-
-/**
- * HubSpot Association Type ID for Contact ↔ Listing
- * 
- * This is a USER_DEFINED association type configured in HubSpot.
- * The typeId 57 corresponds to "Interested Buyer" label.
- * 
- * IMPORTANT: Associations MUST specify an explicit associationTypeId
- * or they will silently "succeed" and never render in the UI.
- */
-const HUBSPOT_CONTACT_LISTING_ASSOCIATION_TYPE_ID = 57;
-
 /**
  * Finds a Listing record in HubSpot by its external_listing_id.
  * 
@@ -503,62 +630,76 @@ const HUBSPOT_CONTACT_LISTING_ASSOCIATION_TYPE_ID = 57;
  * They are NOT discoverable via /crm/v3/objects or /crm/v3/schemas string names.
  * The search endpoint uses the numeric objectTypeId for lookups.
  * 
+ * **Caching**: Found and not-found outcomes are cached (see
+ * lib/listingIdCache.ts), so repeated inquiries about the same listing do not
+ * search HubSpot each time. Lookup errors are not cached.
+ * 
  * @param externalListingId - The external listing ID to search for (maps to assetId)
+ * @param logger - Request logger
  * @returns Result containing the HubSpot Listing ID if found, with notFound flag for disambiguation
  */
 export async function findListingByExternalId(
-  externalListingId: string
+  externalListingId: string,
+  logger: Logger = rootLogger
 ): Promise<HubSpotListingLookupResult> {
   // Guard: Validate the external listing ID format
   // assetId should be a numeric string (e.g., "22242")
   const trimmedId = externalListingId?.trim() ?? '';
   
   if (!trimmedId) {
-    console.error('findListingByExternalId called with empty external_listing_id');
+    logger.error('findListingByExternalId called with empty external_listing_id');
     return {
       success: false,
       error: 'external_listing_id is required and cannot be empty',
       notFound: false,
+      retryable: false,
     };
   }
   
+  const cached = await getCachedListing(trimmedId, logger);
+  if (cached) {
+    logger.debug('Listing lookup served from cache', { externalListingId: trimmedId, listingId: cached.listingId });
+    if (!cached.listingId) {
+      return {
+        success: false,
+        error: `No listing found with external_listing_id: ${trimmedId}. Ensure the Listing exists in HubSpot with this assetId.`,
+        notFound: true,
+        retryable: false,
+      };
+    }
+    return {
+      success: true,
+      listingId: cached.listingId,
+      notFound: false,
+      ownerId: cached.ownerId,
+    };
+  }
+
   // Log the lookup attempt for debugging
-  console.log(`Looking up HubSpot Listing by external_listing_id (assetId): ${trimmedId}`);
+  logger.debug('Looking up HubSpot Listing by external_listing_id (assetId)', { externalListingId: trimmedId });
 
   try {
-    const accessToken = getAccessToken();
-
     // Search for the Listing object by external_listing_id
     // Listings are Object Library objects requiring numeric objectTypeId (0-420)
     // Do NOT use string names like 'listings' - they won't work
-    const searchResponse = await fetch(
-      `https://api.hubapi.com/crm/v3/objects/${HUBSPOT_LISTINGS_OBJECT_TYPE_ID}/search`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          filterGroups: [
+    const searchResponse = await getHubSpotClient().searchObjects(HUBSPOT_OBJECT_TYPE_IDS.listing, {
+      filterGroups: [
+        {
+          filters: [
             {
-              filters: [
-                {
-                  propertyName: 'external_listing_id',
-                  operator: 'EQ',
-                  value: trimmedId,
-                },
-              ],
+              propertyName: 'external_listing_id',
+              operator: 'EQ',
+              value: trimmedId,
             },
           ],
-          properties: ['external_listing_id', 'name'],
-        }),
-      }
-    );
+        },
+      ],
+      properties: ['external_listing_id', 'name', 'hubspot_owner_id'],
+    }, logger);
 
     if (!searchResponse.ok) {
       const errorData = await searchResponse.json().catch(() => ({}));
-      console.error('HubSpot listing search API error:', {
+      logger.error('HubSpot listing search API error', {
         status: searchResponse.status,
         statusText: searchResponse.statusText,
         error: errorData,
@@ -568,6 +709,7 @@ export async function findListingByExternalId(
         success: false,
         error: `HubSpot API error: ${searchResponse.status} ${searchResponse.statusText}`,
         notFound: false,
+        retryable: isRetryableResponse(searchResponse),
       };
     }
 
@@ -575,31 +717,37 @@ export async function findListingByExternalId(
 
     if (!searchResult.results || searchResult.results.length === 0) {
       // Listing not found - this is a valid scenario that should fail fast for associations
-      console.warn(`No Listing found in HubSpot for external_listing_id (assetId): ${trimmedId}`);
+      logger.warn('No Listing found in HubSpot for external_listing_id (assetId)', { externalListingId: trimmedId });
+      await cacheListing(trimmedId, { listingId: null }, logger);
       return {
         success: false,
         error: `No listing found with external_listing_id: ${trimmedId}. Ensure the Listing exists in HubSpot with this assetId.`,
         notFound: true,
+        retryable: false,
       };
     }
 
     const listingId = searchResult.results[0].id;
-    console.log(`Found HubSpot Listing: external_listing_id=${trimmedId} -> HubSpot ID=${listingId}`);
+    const ownerId = searchResult.results[0].properties?.hubspot_owner_id || undefined;
+    logger.info('Found HubSpot Listing', { externalListingId: trimmedId, listingId });
+    await cacheListing(trimmedId, { listingId, ownerId }, logger);
 
     return {
       success: true,
       listingId,
       notFound: false,
+      ownerId,
     };
   } catch (error) {
-    console.error('Error finding listing by external ID:', {
-      error: error instanceof Error ? error.message : error,
+    logger.error('Error finding listing by external ID', {
+      error,
       externalListingId: trimmedId,
     });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
       notFound: false,
+      retryable: isRetryableError(error),
     };
   }
 }
@@ -631,43 +779,50 @@ export async function findListingByExternalId(
  * 
  * @param contactId - The HubSpot Contact ID (from contact lookup or consent result)
  * @param listingId - The HubSpot Listing ID (from findListingByExternalId, NOT the assetId)
+ * @param label - The association label to apply (default: "Interested Buyer")
+ * @param logger - Request logger
  * @returns Result indicating success/failure
  */
 export async function associateContactToListing(
   contactId: string,
-  listingId: string
+  listingId: string,
+  label: ContactListingAssociationLabel = 'interested-buyer',
+  logger: Logger = rootLogger
 ): Promise<HubSpotAssociationResult> {
   // Guard: Validate required IDs are present
   const trimmedContactId = contactId?.trim() ?? '';
   const trimmedListingId = listingId?.trim() ?? '';
 
   if (!trimmedContactId) {
-    console.error('associateContactToListing called with empty contactId');
+    logger.error('associateContactToListing called with empty contactId', { listingId: trimmedListingId });
     return {
       success: false,
       error: 'contactId is required for association',
+      retryable: false,
     };
   }
 
   if (!trimmedListingId) {
-    console.error('associateContactToListing called with empty listingId');
+    logger.error('associateContactToListing called with empty listingId', { contactId: trimmedContactId });
     return {
       success: false,
       error: 'listingId is required for association - resolve via findListingByExternalId first',
+      retryable: false,
     };
   }
 
   // Log the association attempt for debugging
-  console.log(`Creating CRM v4 association: Contact ${trimmedContactId} -> Listing ${trimmedListingId}`);
+  logger.debug('Creating CRM v4 association', { label, contactId: trimmedContactId, listingId: trimmedListingId });
 
   try {
-    const accessToken = getAccessToken();
+    const associationTypeId = getContactListingAssociationTypeId(label);
 
     // Use the CRM Associations API v4 batch endpoint to create the association.
     // 
     // CRITICAL: Listings are Object Library objects requiring:
     // 1. Numeric objectTypeIds in the URL path (0-1 for Contact, 0-420 for Listings)
-    // 2. Explicit associationTypeId in the request body (typeId 57 = "Interested Buyer")
+    // 2. Explicit associationTypeId in the request body, from the label registry
+    //    (lib/hubspotAssociations.ts)
     // 
     // Without explicit type specification, associations may return HTTP 200 but:
     // - Have no usable type
@@ -675,44 +830,39 @@ export async function associateContactToListing(
     // - Be effectively orphaned
     // 
     // The API endpoint uses numeric IDs: /crm/v4/associations/0-1/0-420/batch/create
-    const associationResponse = await fetch(
-      `https://api.hubapi.com/crm/v4/associations/${HUBSPOT_CONTACT_OBJECT_TYPE_ID}/${HUBSPOT_LISTINGS_OBJECT_TYPE_ID}/batch/create`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: [
+    const associationResponse = await getHubSpotClient().createAssociations(
+      HUBSPOT_OBJECT_TYPE_IDS.contact,
+      HUBSPOT_OBJECT_TYPE_IDS.listing,
+      [
+        {
+          from: { id: trimmedContactId },
+          to: { id: trimmedListingId },
+          types: [
             {
-              from: { id: trimmedContactId },
-              to: { id: trimmedListingId },
-              types: [
-                {
-                  associationCategory: 'USER_DEFINED',
-                  associationTypeId: HUBSPOT_CONTACT_LISTING_ASSOCIATION_TYPE_ID,
-                },
-              ],
+              associationCategory: 'USER_DEFINED',
+              associationTypeId,
             },
           ],
-        }),
-      }
+        },
+      ],
+      logger
     );
 
     if (!associationResponse.ok) {
       const errorData = await associationResponse.json().catch(() => ({}));
-      console.error('HubSpot CRM v4 association API error:', {
+      logger.error('HubSpot CRM v4 association API error', {
         status: associationResponse.status,
         statusText: associationResponse.statusText,
         error: errorData,
+        label,
         contactId: trimmedContactId,
         listingId: trimmedListingId,
-        endpoint: `/crm/v4/associations/${HUBSPOT_CONTACT_OBJECT_TYPE_ID}/${HUBSPOT_LISTINGS_OBJECT_TYPE_ID}/batch/create`,
+        endpoint: `/crm/v4/associations/${HUBSPOT_OBJECT_TYPE_IDS.contact}/${HUBSPOT_OBJECT_TYPE_IDS.listing}/batch/create`,
       });
       return {
         success: false,
         error: `HubSpot association error: ${associationResponse.status} - verify both Contact and Listing IDs are valid HubSpot record IDs`,
+        retryable: isRetryableResponse(associationResponse),
       };
     }
 
@@ -721,27 +871,415 @@ export async function associateContactToListing(
     
     // Check if there are any errors in the response
     if (responseData.errors && responseData.errors.length > 0) {
-      console.error('HubSpot CRM v4 association batch returned errors:', responseData.errors);
+      logger.error('HubSpot CRM v4 association batch returned errors', {
+        errors: responseData.errors,
+        label,
+        contactId: trimmedContactId,
+        listingId: trimmedListingId,
+      });
       return {
         success: false,
         error: `Association batch error: ${JSON.stringify(responseData.errors)}`,
+        retryable: false,
       };
     }
 
-    console.log(`Successfully associated Contact ${trimmedContactId} with Listing ${trimmedListingId} using CRM v4 API with typeId ${HUBSPOT_CONTACT_LISTING_ASSOCIATION_TYPE_ID}`);
+    logger.info('Associated Contact with Listing', {
+      label,
+      associationTypeId,
+      contactId: trimmedContactId,
+      listingId: trimmedListingId,
+    });
 
     return {
       success: true,
     };
   } catch (error) {
-    console.error('Error associating contact to listing:', {
-      error: error instanceof Error ? error.message : error,
+    logger.error('Error associating contact to listing', {
+      error,
+      label,
       contactId: trimmedContactId,
       listingId: trimmedListingId,
     });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
+    };
+  }
+}
+
+/**
+ * Checks the configured Contact ↔ Listing association labels against the
+ * portal's label definitions (GET /crm/v4/associations/0-1/0-420/labels).
+ * 
+ * Each configured type ID must exist in the portal as a USER_DEFINED
+ * Contact → Listing association type with the label's name (compared
+ * case-insensitively). Labels that are not configured are skipped.
+ * 
+ * Run once at startup (see instrumentation.ts): a type ID from another
+ * portal would otherwise make every association for that label fail, or
+ * apply the wrong label.
+ * 
+ * @param logger - Request logger
+ * @returns Result listing every mismatch; `success` is false when there is any
+ */
+export async function validateAssociationLabels(
+  logger: Logger = rootLogger
+): Promise<HubSpotAssociationLabelValidationResult> {
+  try {
+    const response = await getHubSpotClient().getAssociationLabels(
+      HUBSPOT_OBJECT_TYPE_IDS.contact,
+      HUBSPOT_OBJECT_TYPE_IDS.listing,
+      logger
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      logger.error('HubSpot association labels API error', { status: response.status, error: errorData });
+      return {
+        success: false,
+        error: `Failed to read association labels: ${response.status} ${response.statusText}`,
+        retryable: isRetryableResponse(response),
+      };
+    }
+
+    const data = await response.json();
+    const portalLabels: Array<{ category?: string; typeId?: number; label?: string | null }> = data.results ?? [];
+
+    const mismatches: string[] = [];
+    const unconfigured: string[] = [];
+
+    for (const configured of getContactListingAssociationLabels()) {
+      if (configured.invalidValue !== undefined) {
+        mismatches.push(`${configured.envVar} is "${configured.invalidValue}", which is not a valid association type ID`);
+        continue;
+      }
+      if (configured.typeId === undefined) {
+        unconfigured.push(configured.label);
+        continue;
+      }
+
+      const portalLabel = portalLabels.find(candidate => candidate.typeId === configured.typeId);
+      if (!portalLabel) {
+        mismatches.push(
+          `${configured.envVar} is ${configured.typeId}, but the portal has no Contact → Listing association type ${configured.typeId}`
+        );
+      } else if (portalLabel.category !== 'USER_DEFINED') {
+        mismatches.push(
+          `${configured.envVar} is ${configured.typeId}, which is a ${portalLabel.category} association type, not a label`
+        );
+      } else if ((portalLabel.label ?? '').trim().toLowerCase() !== configured.name.toLowerCase()) {
+        mismatches.push(
+          `${configured.envVar} is ${configured.typeId}, which is labeled "${portalLabel.label ?? ''}" in the portal, not "${configured.name}"`
+        );
+      }
+    }
+
+    if (unconfigured.length > 0) {
+      logger.info('Association labels not configured; their associations are disabled', { labels: unconfigured });
+    }
+
+    if (mismatches.length > 0) {
+      logger.error('Association labels do not match the HubSpot portal', {
+        mismatches,
+        portalLabels: portalLabels.map(({ typeId, label, category }) => ({ typeId, label, category })),
+      });
+      return {
+        success: false,
+        error: `Association labels do not match the HubSpot portal: ${mismatches.join('; ')}`,
+        mismatches,
+        retryable: false,
+      };
+    }
+
+    logger.info('Association labels match the HubSpot portal');
+    return {
+      success: true,
+      mismatches: [],
+    };
+  } catch (error) {
+    logger.error('Error validating association labels', { error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
+    };
+  }
+}
+
+// ============================================================================
+// Health Checks
+// ============================================================================
+
+/**
+ * A check's outcome, and whether a failure was transient (rate limiting, an
+ * outage or a network error).
+ */
+type HealthCheckOutcome = HubSpotHealthCheck & { transient?: boolean };
+
+/**
+ * Runs one health check, turning a thrown error into a failed check.
+ */
+async function runHealthCheck(
+  name: HubSpotHealthCheckName,
+  check: () => Promise<Omit<HealthCheckOutcome, 'name'>>,
+  logger: Logger
+): Promise<HealthCheckOutcome> {
+  try {
+    return { name, ...(await check()) };
+  } catch (error) {
+    logger.error('HubSpot health check error', { check: name, error });
+    return {
+      name,
+      status: 'fail',
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      transient: isRetryableError(error),
+    };
+  }
+}
+
+/**
+ * Verifies that the site can reach HubSpot with its configuration:
+ * 
+ * - config: every HUBSPOT_* and NEXT_PUBLIC_HUBSPOT_* variable is valid (see
+ *   lib/hubspotConfig.ts); the remaining checks are skipped when it fails
+ * - access-token: the token is accepted, belongs to HUBSPOT_PORTAL_ID and has
+ *   every scope in HUBSPOT_REQUIRED_SCOPES
+ * - form: HUBSPOT_FORM_GUID is a live form in the portal (a warning when the
+ *   token lacks the `forms` scope needed to read it)
+ * - listings: Listings (0-420) can be read
+ * - association-labels: the configured labels match the portal (see
+ *   validateAssociationLabels())
+ * 
+ * Makes four HubSpot API calls; GET /api/health/hubspot caches the result.
+ * 
+ * @param logger - Request logger
+ * @returns Every check's outcome; `success` is false when any check failed
+ */
+export async function checkHubSpotHealth(logger: Logger = rootLogger): Promise<HubSpotHealthResult> {
+  const { config, issues, valid } = loadHubSpotConfig();
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+  const describe = (list: typeof issues) => list.map(issue => `${issue.variable} ${issue.message}`).join('; ');
+
+  const configCheck: HubSpotHealthCheck = !valid
+    ? { name: 'config', status: 'fail', message: describe(errors) }
+    : warnings.length > 0
+      ? { name: 'config', status: 'warn', message: describe(warnings) }
+      : { name: 'config', status: 'pass', message: 'Configuration is valid' };
+
+  if (!valid) {
+    return {
+      success: false,
+      error: 'HubSpot configuration is invalid',
+      retryable: false,
+      checks: [configCheck],
+    };
+  }
+
+  const client = getHubSpotClient();
+  const { contact, listing } = HUBSPOT_OBJECT_TYPE_IDS;
+
+  const accessTokenCheck = await runHealthCheck('access-token', async () => {
+    const response = await client.getAccessTokenInfo(logger);
+    if (!response.ok) {
+      return {
+        status: 'fail',
+        message: isRetryableResponse(response)
+          ? `Failed to read the access token info: ${response.status} ${response.statusText}`
+          : `Access token was rejected: ${response.status} ${response.statusText}`,
+        transient: isRetryableResponse(response),
+      };
+    }
+
+    const tokenInfo = await response.json();
+    const scopes: string[] = tokenInfo.scopes ?? [];
+    const missingScopes = HUBSPOT_REQUIRED_SCOPES.filter(scope => !scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      return { status: 'fail', message: `Access token is missing scopes: ${missingScopes.join(', ')}` };
+    }
+    if (tokenInfo.hubId !== undefined && config.portalId && String(tokenInfo.hubId) !== config.portalId) {
+      return {
+        status: 'fail',
+        message: `Access token belongs to portal ${tokenInfo.hubId}, not HUBSPOT_PORTAL_ID ${config.portalId}`,
+      };
+    }
+    return { status: 'pass', message: 'Access token has the required scopes' };
+  }, logger);
+
+  const formCheck = await runHealthCheck('form', async () => {
+    const response = await client.getForm(client.formGuid, logger);
+    if (response.status === 403) {
+      return { status: 'warn', message: 'Form not verified: the access token lacks the forms scope' };
+    }
+    if (response.status === 404) {
+      return { status: 'fail', message: 'HUBSPOT_FORM_GUID does not match a form in the portal' };
+    }
+    if (!response.ok) {
+      return {
+        status: 'fail',
+        message: `Failed to read the form: ${response.status} ${response.statusText}`,
+        transient: isRetryableResponse(response),
+      };
+    }
+
+    const form = await response.json();
+    return form.archived
+      ? { status: 'fail', message: 'HUBSPOT_FORM_GUID is an archived form' }
+      : { status: 'pass', message: 'Form exists' };
+  }, logger);
+
+  const listingsCheck = await runHealthCheck('listings', async () => {
+    const response = await client.listObjects(listing, 1, logger);
+    return response.ok
+      ? { status: 'pass', message: 'Listings are readable' }
+      : {
+          status: 'fail',
+          message: `Failed to read Listings (${listing}): ${response.status} ${response.statusText}`,
+          transient: isRetryableResponse(response),
+        };
+  }, logger);
+
+  const labelsCheck = await runHealthCheck('association-labels', async () => {
+    const labelValidation = await validateAssociationLabels(logger);
+    return labelValidation.success
+      ? { status: 'pass', message: `Contact (${contact}) → Listing (${listing}) association labels match the portal` }
+      : {
+          status: 'fail',
+          message: labelValidation.error ?? 'Association labels could not be validated',
+          transient: labelValidation.retryable,
+        };
+  }, logger);
+
+  const checks: HealthCheckOutcome[] = [configCheck, accessTokenCheck, formCheck, listingsCheck, labelsCheck];
+  const failed = checks.filter(check => check.status === 'fail');
+
+  if (failed.length > 0) {
+    logger.warn('HubSpot health check failed', { failed: failed.map(check => check.name) });
+    return {
+      success: false,
+      error: `Failed checks: ${failed.map(check => check.name).join(', ')}`,
+      retryable: failed.every(check => check.transient),
+      checks: checks.map(({ name, status, message }) => ({ name, status, message })),
+    };
+  }
+
+  return {
+    success: true,
+    checks: checks.map(({ name, status, message }) => ({ name, status, message })),
+  };
+}
+
+// ============================================================================
+// Tasks
+// ============================================================================
+
+/**
+ * Creates a HubSpot task and associates it with a Contact and/or Listing.
+ * 
+ * Tasks are used to hand work to the listing agent (e.g. confirming a tour).
+ * The associations use HubSpot's default (unlabeled) association types via the
+ * CRM v4 "default" endpoint, so no portal-specific typeIds are required.
+ * 
+ * Association failures, including network errors, do not fail the call: the
+ * task has already been created, and failing would make callers retry into a
+ * duplicate task. The result reports `associationsCreated: false` instead.
+ * 
+ * @param task - The task to create
+ * @param associations - HubSpot record IDs to associate the task with
+ * @param logger - Request logger
+ * @returns Result containing the new task ID if successful
+ */
+export async function createTask(
+  task: HubSpotTaskInput,
+  associations: { contactId?: string; listingId?: string },
+  logger: Logger = rootLogger
+): Promise<HubSpotTaskResult> {
+  try {
+    const client = getHubSpotClient();
+
+    const properties: Record<string, string> = {
+      hs_task_subject: task.subject,
+      hs_task_body: task.body,
+      hs_timestamp: task.dueAt.toISOString(),
+      hs_task_status: 'NOT_STARTED',
+      hs_task_priority: task.priority ?? 'MEDIUM',
+      hs_task_type: 'TODO',
+    };
+
+    if (task.ownerId) {
+      properties.hubspot_owner_id = task.ownerId;
+    }
+
+    const createResponse = await client.createObject('tasks', properties, logger);
+
+    if (!createResponse.ok) {
+      const errorData = await createResponse.json().catch(() => ({}));
+      logger.error('HubSpot task creation error', { status: createResponse.status, error: errorData });
+      return {
+        success: false,
+        error: `Failed to create task: ${createResponse.status} ${createResponse.statusText}`,
+        retryable: isRetryableResponse(createResponse),
+      };
+    }
+
+    const createResult = await createResponse.json();
+    const taskId: string = createResult.id;
+    logger.info('Created task in HubSpot', { taskId });
+
+    // Associate the task with each requested record using the default association type
+    const targets = [
+      { objectTypeId: HUBSPOT_OBJECT_TYPE_IDS.contact, id: associations.contactId },
+      { objectTypeId: HUBSPOT_OBJECT_TYPE_IDS.listing, id: associations.listingId },
+    ].filter((target): target is { objectTypeId: string; id: string } => Boolean(target.id));
+
+    // The task exists from here on, so a failure must not fail the call: a
+    // retry would create a duplicate task
+    let associationsCreated = true;
+    for (const target of targets) {
+      try {
+        const associationResponse = await client.createDefaultAssociation(
+          HUBSPOT_OBJECT_TYPE_IDS.task,
+          taskId,
+          target.objectTypeId,
+          target.id,
+          logger
+        );
+
+        if (!associationResponse.ok) {
+          const errorData = await associationResponse.json().catch(() => ({}));
+          logger.warn('HubSpot task association error', {
+            status: associationResponse.status,
+            error: errorData,
+            taskId,
+            toObjectTypeId: target.objectTypeId,
+            toObjectId: target.id,
+          });
+          associationsCreated = false;
+        }
+      } catch (error) {
+        logger.warn('Error associating task', {
+          error,
+          taskId,
+          toObjectTypeId: target.objectTypeId,
+          toObjectId: target.id,
+        });
+        associationsCreated = false;
+      }
+    }
+
+    return {
+      success: true,
+      taskId,
+      associationsCreated,
+    };
+  } catch (error) {
+    logger.error('Error creating task', { error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
     };
   }
 }
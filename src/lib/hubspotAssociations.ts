@@ -0,0 +1,155 @@
+/**
+ * HubSpot Object Types and Association Labels
+ *
+ * The registry of HubSpot object type IDs and Contact ↔ Listing association
+ * labels the site uses. Everything that creates or checks associations reads
+ * it from here instead of hard-coding IDs.
+ *
+ * Object type IDs are defined by HubSpot and are the same in every portal.
+ * Association label type IDs are assigned per portal when the label is
+ * created, so sandbox and production portals differ; each label's type ID is
+ * read from its own environment variable.
+ *
+ * Labels that are not configured disable the feature that uses them: the
+ * association step fails and the workflow reports `associationCreated: false`.
+ *
+ * At startup, the configured type IDs are checked against the portal's label
+ * definitions (see `validateAssociationLabels()` in lib/hubspot.ts and
+ * instrumentation.ts), so a wrong ID stops the server instead of silently
+ * creating unlabeled associations.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HubSpotObjectType = 'contact' | 'listing' | 'task';
+
+/**
+ * Contact ↔ Listing association labels used by the site.
+ * - interested-buyer: the contact requested information about the listing
+ * - notify-when-available: the contact asked to be told when a Coming Soon listing goes on sale
+ * - saved: the contact saved (favorited) the listing on the site
+ * - tour-requested: the contact asked to tour the listing
+ * - offer-submitted: the contact submitted an offer on the listing
+ */
+export type ContactListingAssociationLabel =
+  | 'interested-buyer'
+  | 'notify-when-available'
+  | 'saved'
+  | 'tour-requested'
+  | 'offer-submitted';
+
+export interface AssociationLabelDefinition {
+  /** The label's name in HubSpot */
+  name: string;
+  /** Environment variable holding the label's association type ID */
+  envVar: string;
+  /** Type ID used when the environment variable is not set */
+  defaultTypeId?: number;
+}
+
+export interface ConfiguredAssociationLabel extends AssociationLabelDefinition {
+  label: ContactListingAssociationLabel;
+  /** Undefined when the label is not configured or its value is invalid */
+  typeId?: number;
+  /** The environment variable's value, when it is not a valid type ID */
+  invalidValue?: string;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * HubSpot Object Type IDs
+ *
+ * Listings are Object Library objects that require numeric objectTypeIds.
+ * They are NOT discoverable via /crm/v3/objects or /crm/v3/schemas.
+ * Only the numeric objectTypeId works for CRM v4 associations.
+ *
+ * Contact: 0-1 (core object)
+ * Listings: 0-420 (Object Library object)
+ * Tasks: 0-27 (engagement object)
+ */
+export const HUBSPOT_OBJECT_TYPE_IDS: Record<HubSpotObjectType, string> = {
+  contact: '0-1',
+  listing: '0-420',
+  task: '0-27',
+};
+
+/**
+ * Contact ↔ Listing association labels.
+ *
+ * All are USER_DEFINED labels, so that buyer inquiries, Coming Soon sign-ups,
+ * favorites, tour requests and offers can be told apart in HubSpot.
+ *
+ * IMPORTANT: Associations MUST specify an explicit associationTypeId or they
+ * will silently "succeed" and never render in the UI.
+ *
+ * "Interested Buyer" defaults to typeId 57, its ID in the production portal.
+ */
+export const CONTACT_LISTING_ASSOCIATION_LABELS: Record<ContactListingAssociationLabel, AssociationLabelDefinition> = {
+  'interested-buyer': {
+    name: 'Interested Buyer',
+    envVar: 'HUBSPOT_INTERESTED_BUYER_ASSOCIATION_TYPE_ID',
+    defaultTypeId: 57,
+  },
+  'notify-when-available': {
+    name: 'Notify When Available',
+    envVar: 'HUBSPOT_NOTIFY_ASSOCIATION_TYPE_ID',
+  },
+  'saved': {
+    name: 'Saved',
+    envVar: 'HUBSPOT_SAVED_ASSOCIATION_TYPE_ID',
+  },
+  'tour-requested': {
+    name: 'Tour Requested',
+    envVar: 'HUBSPOT_TOUR_ASSOCIATION_TYPE_ID',
+  },
+  'offer-submitted': {
+    name: 'Offer Submitted',
+    envVar: 'HUBSPOT_OFFER_ASSOCIATION_TYPE_ID',
+  },
+};
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function resolveLabel(label: ContactListingAssociationLabel, env: NodeJS.ProcessEnv): ConfiguredAssociationLabel {
+  const definition = CONTACT_LISTING_ASSOCIATION_LABELS[label];
+  const value = env[definition.envVar]?.trim();
+
+  if (!value) {
+    return { label, ...definition, typeId: definition.defaultTypeId };
+  }
+
+  const typeId = Number(value);
+  if (!Number.isInteger(typeId) || typeId <= 0) {
+    return { label, ...definition, invalidValue: value };
+  }
+  return { label, ...definition, typeId };
+}
+
+/**
+ * Returns every Contact ↔ Listing label with its configured type ID.
+ */
+export function getContactListingAssociationLabels(env: NodeJS.ProcessEnv = process.env): ConfiguredAssociationLabel[] {
+  return (Object.keys(CONTACT_LISTING_ASSOCIATION_LABELS) as ContactListingAssociationLabel[]).map(label =>
+    resolveLabel(label, env)
+  );
+}
+
+/**
+ * Resolves the HubSpot associationTypeId for a Contact ↔ Listing label.
+ *
+ * @throws When the label is not configured
+ */
+export function getContactListingAssociationTypeId(label: ContactListingAssociationLabel): number {
+  const { envVar, typeId } = resolveLabel(label, process.env);
+  if (typeId === undefined) {
+    throw new Error(`${envVar} environment variable is not set to a valid association type ID`);
+  }
+  return typeId;
+}
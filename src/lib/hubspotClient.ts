@@ -0,0 +1,571 @@
+/**
+ * HubSpot API Client
+ *
+ * Thin wrapper around the HubSpot HTTP endpoints used by the site. The
+ * helpers in lib/hubspot.ts call HubSpot only through this client, so the
+ * network layer can be replaced:
+ *
+ * - In production the transport is the global `fetch`
+ * - With HUBSPOT_TRANSPORT=fake the shared in-memory fake from
+ *   lib/hubspotFake.ts is used, so every workflow runs locally without a
+ *   HubSpot portal or network access. The fake (and the catalog it is seeded
+ *   from) is loaded on first use, so it is never part of a production code
+ *   path
+ * - Tests can inject any transport via `new HubSpotClient({ transport })`
+ *   and `setHubSpotClient()`
+ *
+ * The client only builds and sends requests; interpreting responses (and
+ * turning failures into result objects) stays with the helpers in
+ * lib/hubspot.ts.
+ *
+ * Every request goes through a shared retry layer:
+ * - HubSpot's rate-limit headers are honored: when a response reports no
+ *   remaining calls in the current window, later requests wait for the window
+ *   to reset, and a 429 waits for Retry-After (or the window) before retrying
+ * - 429s are retried for every operation, since HubSpot rejected the call
+ *   without processing it
+ * - 5xx responses and network failures are retried only for idempotent
+ *   operations, with jittered exponential backoff
+ * - Everything else (4xx, exhausted daily limit) is terminal
+ *
+ * After the last attempt the final response is returned (or the network error
+ * thrown as a HubSpotRequestError), so callers can classify it with
+ * `isRetryableResponse()` / `isRetryableError()`.
+ *
+ * Each request method takes an optional logger (see lib/logger.ts), so
+ * retries are logged with the calling request's correlation ID.
+ */
+
+import { getHubSpotConfig } from '@/lib/hubspotConfig';
+import { Logger, rootLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A fetch-compatible function that performs a single HTTP request.
+ */
+export type HubSpotTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface HubSpotRetryOptions {
+  /** Total attempts per request, including the first (default: 4) */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubled for each further retry (default: 250) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay (default: 4000) */
+  maxDelayMs: number;
+  /** Upper bound for a wait requested by rate-limit headers (default: 10000) */
+  maxRateLimitWaitMs: number;
+}
+
+export interface HubSpotClientOptions {
+  /** Defaults to HUBSPOT_PORTAL_ID */
+  portalId?: string;
+  /** Defaults to HUBSPOT_FORM_GUID */
+  formGuid?: string;
+  /** Defaults to HUBSPOT_ACCESS_TOKEN */
+  accessToken?: string;
+  /** Defaults to the global fetch */
+  transport?: HubSpotTransport;
+  apiBaseUrl?: string;
+  formsBaseUrl?: string;
+  retry?: Partial<HubSpotRetryOptions>;
+  /** Used for backoff and rate-limit waits; replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * One record to update through the CRM v3 batch update endpoint.
+ */
+export interface HubSpotBatchUpdateInput {
+  id: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * One association to create through the CRM v4 batch endpoint.
+ */
+export interface HubSpotAssociationInput {
+  from: { id: string };
+  to: { id: string };
+  types: Array<{
+    associationCategory: 'HUBSPOT_DEFINED' | 'USER_DEFINED';
+    associationTypeId: number;
+  }>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const HUBSPOT_API_BASE_URL = 'https://api.hubapi.com';
+export const HUBSPOT_FORMS_BASE_URL = 'https://api.hsforms.com';
+
+const DEFAULT_RETRY_OPTIONS: HubSpotRetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 250,
+  maxDelayMs: 4000,
+  maxRateLimitWaitMs: 10000,
+};
+
+/**
+ * Server errors worth retrying; other 5xx (e.g. 501) will not go away.
+ */
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+// ============================================================================
+// Errors and Classification
+// ============================================================================
+
+/**
+ * Thrown when a HubSpot request fails without a response (network error,
+ * DNS failure, connection reset). Always retryable.
+ */
+export class HubSpotRequestError extends Error {
+  readonly retryable = true;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'HubSpotRequestError';
+  }
+}
+
+function isDailyLimitExhausted(response: Response): boolean {
+  return response.headers.get('X-HubSpot-RateLimit-Daily-Remaining') === '0';
+}
+
+/**
+ * Whether a failed response is transient, i.e. the same call may succeed
+ * later: rate limiting (except an exhausted daily limit) and 5xx outages.
+ */
+export function isRetryableResponse(response: Response): boolean {
+  if (response.status === 429) {
+    return !isDailyLimitExhausted(response);
+  }
+  return RETRYABLE_SERVER_STATUSES.includes(response.status);
+}
+
+/**
+ * Whether an error thrown while calling HubSpot is transient. Configuration
+ * errors (e.g. a missing access token) are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof HubSpotRequestError;
+}
+
+function parseHeaderNumber(response: Response, name: string): number | undefined {
+  const value = Number(response.headers.get(name));
+  return response.headers.has(name) && Number.isFinite(value) ? value : undefined;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class HubSpotClient {
+  private readonly options: HubSpotClientOptions;
+  private readonly transport: HubSpotTransport;
+  private readonly retry: HubSpotRetryOptions;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  /** Set when HubSpot reports the current rate-limit window as used up */
+  private rateLimitedUntil = 0;
+
+  constructor(options: HubSpotClientOptions = {}) {
+    this.options = options;
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * HubSpot Portal ID. Required for Forms API submissions.
+   *
+   * Note: Only server-side environment variables are read. The NEXT_PUBLIC_
+   * variants are for client-side use and are not accessed here to maintain
+   * clear separation between client and server credentials.
+   *
+   * Configured values come from lib/hubspotConfig.ts, which also validates
+   * them when the server starts.
+   */
+  get portalId(): string {
+    const portalId = this.options.portalId ?? getHubSpotConfig().portalId;
+    if (!portalId) {
+      throw new Error('HUBSPOT_PORTAL_ID environment variable is not set');
+    }
+    return portalId;
+  }
+
+  /**
+   * HubSpot Form GUID. Required for Forms API submissions.
+   */
+  get formGuid(): string {
+    const formGuid = this.options.formGuid ?? getHubSpotConfig().formGuid;
+    if (!formGuid) {
+      throw new Error('HUBSPOT_FORM_GUID environment variable is not set');
+    }
+    return formGuid;
+  }
+
+  /**
+   * Private App access token. Required for all CRM API calls.
+   * This is a server-side only secret and should never be exposed to the client.
+   */
+  private get accessToken(): string {
+    const accessToken = this.options.accessToken ?? getHubSpotConfig().accessToken;
+    if (!accessToken) {
+      throw new Error('HUBSPOT_ACCESS_TOKEN environment variable is not set');
+    }
+    return accessToken;
+  }
+
+  // --------------------------------------------------------------------------
+  // Forms API
+  // --------------------------------------------------------------------------
+
+  /**
+   * POST /submissions/v3/integration/submit/:portalId/:formGuid
+   *
+   * Unauthenticated; HubSpot creates or updates the contact asynchronously.
+   * Treated as idempotent: contacts are deduplicated by email, so a repeated
+   * submission only adds a duplicate form submission entry, which is
+   * preferable to losing the lead.
+   */
+  submitForm(payload: unknown, logger: Logger = rootLogger): Promise<Response> {
+    const baseUrl = this.options.formsBaseUrl ?? HUBSPOT_FORMS_BASE_URL;
+    return this.send(
+      `${baseUrl}/submissions/v3/integration/submit/${this.portalId}/${this.formGuid}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      },
+      true,
+      logger
+    );
+  }
+
+  /**
+   * GET /marketing/v3/forms/:formGuid
+   *
+   * Reads the form definition (requires the `forms` scope).
+   */
+  getForm(formGuid: string, logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest('GET', `/marketing/v3/forms/${formGuid}`, undefined, true, logger);
+  }
+
+  // --------------------------------------------------------------------------
+  // Access Token
+  // --------------------------------------------------------------------------
+
+  /**
+   * POST /oauth/v2/private-apps/get/access-token-info
+   *
+   * Returns the portal (hubId) and scopes of the client's Private App token.
+   */
+  getAccessTokenInfo(logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest(
+      'POST',
+      '/oauth/v2/private-apps/get/access-token-info',
+      { tokenKey: this.accessToken },
+      true,
+      logger
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // CRM Objects
+  // --------------------------------------------------------------------------
+
+  /**
+   * GET /crm/v3/objects/:objectType?limit=:limit
+   */
+  listObjects(objectType: string, limit: number, logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest('GET', `/crm/v3/objects/${objectType}?limit=${limit}`, undefined, true, logger);
+  }
+
+  /**
+   * POST /crm/v3/objects/:objectType/search
+   */
+  searchObjects(objectType: string, search: unknown, logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest('POST', `/crm/v3/objects/${objectType}/search`, search, true, logger);
+  }
+
+  /**
+   * POST /crm/v3/objects/:objectType
+   *
+   * Not idempotent: a 5xx may still have created the record, so only 429s
+   * are retried.
+   */
+  createObject(objectType: string, properties: Record<string, string>, logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest('POST', `/crm/v3/objects/${objectType}`, { properties }, false, logger);
+  }
+
+  /**
+   * PATCH /crm/v3/objects/:objectType/:objectId
+   */
+  updateObject(
+    objectType: string,
+    objectId: string,
+    properties: Record<string, string>,
+    logger: Logger = rootLogger
+  ): Promise<Response> {
+    return this.crmRequest('PATCH', `/crm/v3/objects/${objectType}/${objectId}`, { properties }, true, logger);
+  }
+
+  /**
+   * POST /crm/v3/objects/:objectType/batch/create
+   *
+   * Up to 100 records per call. Not idempotent, like createObject.
+   */
+  batchCreateObjects(
+    objectType: string,
+    inputs: Array<{ properties: Record<string, string> }>,
+    logger: Logger = rootLogger
+  ): Promise<Response> {
+    return this.crmRequest('POST', `/crm/v3/objects/${objectType}/batch/create`, { inputs }, false, logger);
+  }
+
+  /**
+   * POST /crm/v3/objects/:objectType/batch/update
+   *
+   * Up to 100 records per call. Idempotent: the same properties are set again.
+   */
+  batchUpdateObjects(
+    objectType: string,
+    inputs: HubSpotBatchUpdateInput[],
+    logger: Logger = rootLogger
+  ): Promise<Response> {
+    return this.crmRequest('POST', `/crm/v3/objects/${objectType}/batch/update`, { inputs }, true, logger);
+  }
+
+  // --------------------------------------------------------------------------
+  // CRM v4 Associations
+  // --------------------------------------------------------------------------
+
+  /**
+   * POST /crm/v4/associations/:fromObjectTypeId/:toObjectTypeId/batch/create
+   *
+   * Idempotent: re-creating an existing association is a no-op in HubSpot.
+   */
+  createAssociations(
+    fromObjectTypeId: string,
+    toObjectTypeId: string,
+    inputs: HubSpotAssociationInput[],
+    logger: Logger = rootLogger
+  ): Promise<Response> {
+    return this.crmRequest(
+      'POST',
+      `/crm/v4/associations/${fromObjectTypeId}/${toObjectTypeId}/batch/create`,
+      { inputs },
+      true,
+      logger
+    );
+  }
+
+  /**
+   * GET /crm/v4/associations/:fromObjectTypeId/:toObjectTypeId/labels
+   *
+   * Lists the portal's association types (and their labels) between two
+   * object types.
+   */
+  getAssociationLabels(fromObjectTypeId: string, toObjectTypeId: string, logger: Logger = rootLogger): Promise<Response> {
+    return this.crmRequest(
+      'GET',
+      `/crm/v4/associations/${fromObjectTypeId}/${toObjectTypeId}/labels`,
+      undefined,
+      true,
+      logger
+    );
+  }
+
+  /**
+   * PUT /crm/v4/objects/:fromObjectTypeId/:fromId/associations/default/:toObjectTypeId/:toId
+   *
+   * Creates an unlabeled association using the default association type.
+   */
+  createDefaultAssociation(
+    fromObjectTypeId: string,
+    fromId: string,
+    toObjectTypeId: string,
+    toId: string,
+    logger: Logger = rootLogger
+  ): Promise<Response> {
+    return this.crmRequest(
+      'PUT',
+      `/crm/v4/objects/${fromObjectTypeId}/${fromId}/associations/default/${toObjectTypeId}/${toId}`,
+      undefined,
+      true,
+      logger
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // Request Layer
+  // --------------------------------------------------------------------------
+
+  private crmRequest(
+    method: string,
+    path: string,
+    body: unknown,
+    idempotent: boolean,
+    logger: Logger
+  ): Promise<Response> {
+    const baseUrl = this.options.apiBaseUrl ?? HUBSPOT_API_BASE_URL;
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.accessToken}`,
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    return this.send(
+      `${baseUrl}${path}`,
+      {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      idempotent,
+      logger
+    );
+  }
+
+  /**
+   * Sends a request, retrying transient failures (see the module header).
+   */
+  private async send(url: string, init: RequestInit, idempotent: boolean, logger: Logger): Promise<Response> {
+    const { pathname } = new URL(url);
+
+    for (let attempt = 1; ; attempt++) {
+      const throttleMs = this.rateLimitedUntil - Date.now();
+      if (throttleMs > 0) {
+        await this.sleep(throttleMs);
+      }
+
+      let response: Response;
+      try {
+        response = await this.transport(url, init);
+      } catch (error) {
+        const requestError = new HubSpotRequestError(
+          `HubSpot request failed: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        );
+        if (!idempotent || attempt >= this.retry.maxAttempts) {
+          throw requestError;
+        }
+        const delayMs = this.getBackoffMs(attempt);
+        logger.warn('HubSpot request failed; retrying', {
+          method: init.method,
+          path: pathname,
+          error: requestError.message,
+          delayMs,
+          nextAttempt: attempt + 1,
+          maxAttempts: this.retry.maxAttempts,
+        });
+        await this.sleep(delayMs);
+        continue;
+      }
+
+      const rateLimitWaitMs = this.noteRateLimit(response);
+
+      const retryable = isRetryableResponse(response) && (idempotent || response.status === 429);
+      if (response.ok || !retryable || attempt >= this.retry.maxAttempts) {
+        return response;
+      }
+
+      const delayMs = response.status === 429
+        ? Math.max(rateLimitWaitMs, this.getBackoffMs(attempt))
+        : this.getBackoffMs(attempt);
+      logger.warn('HubSpot request returned a retryable status; retrying', {
+        method: init.method,
+        path: pathname,
+        status: response.status,
+        delayMs,
+        nextAttempt: attempt + 1,
+        maxAttempts: this.retry.maxAttempts,
+      });
+      // Release the unread body before retrying
+      await response.body?.cancel().catch(() => undefined);
+      await this.sleep(delayMs);
+    }
+  }
+
+  /**
+   * Records HubSpot's rate-limit state from response headers.
+   *
+   * @returns How long to wait before the next call, per the headers (0 if no wait is needed)
+   */
+  private noteRateLimit(response: Response): number {
+    const retryAfterSeconds = parseHeaderNumber(response, 'Retry-After');
+    const remaining = parseHeaderNumber(response, 'X-HubSpot-RateLimit-Remaining');
+    const intervalMs = parseHeaderNumber(response, 'X-HubSpot-RateLimit-Interval-Milliseconds');
+
+    let waitMs = 0;
+    if (retryAfterSeconds !== undefined) {
+      waitMs = retryAfterSeconds * 1000;
+    } else if (remaining === 0 || response.status === 429) {
+      waitMs = intervalMs ?? 0;
+    }
+
+    waitMs = Math.min(waitMs, this.retry.maxRateLimitWaitMs);
+    if (waitMs > 0) {
+      this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + waitMs);
+    }
+    return waitMs;
+  }
+
+  /**
+   * Exponential backoff with full jitter: a random delay between 0 and
+   * baseDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+   */
+  private getBackoffMs(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+}
+
+// ============================================================================
+// Shared Client
+// ============================================================================
+
+let sharedClient: HubSpotClient | undefined;
+
+function createDefaultClient(): HubSpotClient {
+  const config = getHubSpotConfig();
+  if (config.transport === 'fake') {
+    rootLogger.warn('HUBSPOT_TRANSPORT=fake: HubSpot calls are served by the in-memory fake');
+    // Credentials are optional against the fake; real values are used when set
+    return new HubSpotClient({
+      portalId: config.portalId || 'fake-portal',
+      formGuid: config.formGuid || 'fake-form',
+      accessToken: config.accessToken || 'fake-access-token',
+      transport: async (url, init) => {
+        const { getSharedFakeHubSpot } = await import('@/lib/hubspotFake');
+        return getSharedFakeHubSpot().transport(url, init);
+      },
+    });
+  }
+
+  return new HubSpotClient();
+}
+
+/**
+ * Returns the client used by the lib/hubspot.ts helpers.
+ */
+export function getHubSpotClient(): HubSpotClient {
+  if (!sharedClient) {
+    sharedClient = createDefaultClient();
+  }
+  return sharedClient;
+}
+
+/**
+ * Replaces the client used by the lib/hubspot.ts helpers, e.g. with one
+ * backed by a `FakeHubSpotServer` in tests. Pass `undefined` to go back to
+ * the environment-configured client.
+ */
+export function setHubSpotClient(client: HubSpotClient | undefined): void {
+  sharedClient = client;
+}
@@ -0,0 +1,266 @@
+/**
+ * HubSpot Configuration
+ *
+ * Reads and validates every HUBSPOT_* and NEXT_PUBLIC_HUBSPOT_* environment
+ * variable in one place, so that a misconfigured deploy is caught when the
+ * server starts instead of on the first form submission:
+ *
+ * - `loadHubSpotConfig()` parses the variables into a typed `HubSpotConfig`
+ *   and lists every problem found
+ * - `checkHubSpotConfigAtStartup()` logs the problems when the server starts
+ *   (see instrumentation.ts) and, in production, refuses to start when any of
+ *   them is an error
+ * - GET /api/health and GET /api/health/hubspot report the same problems
+ *
+ * With HUBSPOT_TRANSPORT=fake the credentials are optional, since the
+ * in-memory fake does not check them.
+ *
+ * NEXT_PUBLIC_ variables are inlined into the client bundle at build time;
+ * the values checked here are the ones in the server's environment, which on
+ * Render are the same variables.
+ */
+
+import { getContactListingAssociationLabels } from '@/lib/hubspotAssociations';
+import { Logger, rootLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HubSpotTransportMode = 'fetch' | 'fake';
+
+export interface HubSpotConfig {
+  transport: HubSpotTransportMode;
+  /** Undefined when not set; required unless the transport is fake */
+  portalId?: string;
+  formGuid?: string;
+  accessToken?: string;
+  contactResolutionTimeoutMs: number;
+  /** Fallback owner of tour follow-up tasks */
+  tourTaskOwnerId?: string;
+  /** Portal ID and form GUID used by the tracking code and embedded forms */
+  publicPortalId?: string;
+  publicFormGuid?: string;
+}
+
+export interface HubSpotConfigIssue {
+  variable: string;
+  /** Errors break a workflow; warnings disable an optional feature or look like a mistake */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface HubSpotConfigValidation {
+  config: HubSpotConfig;
+  issues: HubSpotConfigIssue[];
+  /** False when any issue is an error */
+  valid: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_CONTACT_RESOLUTION_TIMEOUT_MS = 10000;
+
+/**
+ * Private App scopes needed by the site's HubSpot calls; checked by
+ * GET /api/health/hubspot.
+ */
+export const HUBSPOT_REQUIRED_SCOPES = [
+  'crm.objects.contacts.read',
+  'crm.objects.contacts.write',
+  'crm.objects.listings.read',
+  'crm.objects.listings.write',
+  'crm.objects.tasks.write',
+];
+
+const NUMERIC_ID_PATTERN = /^\d+$/;
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Variables read outside the association label registry; anything else with
+ * a HubSpot prefix is reported as unused, which usually means a typo.
+ */
+const KNOWN_VARIABLES = [
+  'HUBSPOT_TRANSPORT',
+  'HUBSPOT_PORTAL_ID',
+  'HUBSPOT_FORM_GUID',
+  'HUBSPOT_ACCESS_TOKEN',
+  'HUBSPOT_CONTACT_RESOLUTION_TIMEOUT_MS',
+  'HUBSPOT_TOUR_TASK_OWNER_ID',
+  'NEXT_PUBLIC_HUBSPOT_PORTAL_ID',
+  'NEXT_PUBLIC_HUBSPOT_FORM_GUID',
+];
+
+const configLogger = rootLogger.child({ component: 'hubspot-config' });
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Thrown at startup when the HubSpot configuration has errors.
+ */
+export class HubSpotConfigError extends Error {
+  readonly issues: HubSpotConfigIssue[];
+
+  constructor(issues: HubSpotConfigIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`Invalid HubSpot configuration: ${errors.map(issue => `${issue.variable} ${issue.message}`).join('; ')}`);
+    this.name = 'HubSpotConfigError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// Loading and Validation
+// ============================================================================
+
+/**
+ * Parses and validates the HubSpot environment variables.
+ */
+export function loadHubSpotConfig(env: NodeJS.ProcessEnv = process.env): HubSpotConfigValidation {
+  const issues: HubSpotConfigIssue[] = [];
+  const read = (variable: string) => env[variable]?.trim() || undefined;
+  const error = (variable: string, message: string) => issues.push({ variable, severity: 'error', message });
+  const warning = (variable: string, message: string) => issues.push({ variable, severity: 'warning', message });
+
+  // Transport
+  const transportValue = read('HUBSPOT_TRANSPORT');
+  if (transportValue && transportValue !== 'fake') {
+    error('HUBSPOT_TRANSPORT', `must be unset or "fake", not "${transportValue}"`);
+  }
+  const transport: HubSpotTransportMode = transportValue === 'fake' ? 'fake' : 'fetch';
+  const credentialsRequired = transport === 'fetch';
+
+  // Server-side credentials
+  const portalId = read('HUBSPOT_PORTAL_ID');
+  if (!portalId) {
+    if (credentialsRequired) {
+      error('HUBSPOT_PORTAL_ID', 'is not set');
+    }
+  } else if (!NUMERIC_ID_PATTERN.test(portalId)) {
+    error('HUBSPOT_PORTAL_ID', 'must be the numeric portal ID (Hub ID)');
+  }
+
+  const formGuid = read('HUBSPOT_FORM_GUID');
+  if (!formGuid) {
+    if (credentialsRequired) {
+      error('HUBSPOT_FORM_GUID', 'is not set');
+    }
+  } else if (!GUID_PATTERN.test(formGuid)) {
+    error('HUBSPOT_FORM_GUID', 'must be a form GUID (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)');
+  }
+
+  const accessToken = read('HUBSPOT_ACCESS_TOKEN');
+  if (!accessToken) {
+    if (credentialsRequired) {
+      error('HUBSPOT_ACCESS_TOKEN', 'is not set');
+    }
+  } else if (!accessToken.startsWith('pat-')) {
+    warning('HUBSPOT_ACCESS_TOKEN', 'does not look like a Private App access token (pat-...)');
+  }
+
+  // Optional settings
+  let contactResolutionTimeoutMs = DEFAULT_CONTACT_RESOLUTION_TIMEOUT_MS;
+  const timeoutValue = read('HUBSPOT_CONTACT_RESOLUTION_TIMEOUT_MS');
+  if (timeoutValue) {
+    const parsed = Number(timeoutValue);
+    if (Number.isInteger(parsed) && parsed > 0) {
+      contactResolutionTimeoutMs = parsed;
+    } else {
+      error('HUBSPOT_CONTACT_RESOLUTION_TIMEOUT_MS', 'must be a positive number of milliseconds');
+    }
+  }
+
+  const tourTaskOwnerId = read('HUBSPOT_TOUR_TASK_OWNER_ID');
+  if (tourTaskOwnerId && !NUMERIC_ID_PATTERN.test(tourTaskOwnerId)) {
+    error('HUBSPOT_TOUR_TASK_OWNER_ID', 'must be a numeric HubSpot owner ID');
+  }
+
+  for (const label of getContactListingAssociationLabels(env)) {
+    if (label.invalidValue !== undefined) {
+      error(label.envVar, `must be a positive association type ID, not "${label.invalidValue}"`);
+    }
+  }
+
+  // Client-side tracking and embedded forms
+  const publicPortalId = read('NEXT_PUBLIC_HUBSPOT_PORTAL_ID');
+  if (!publicPortalId) {
+    warning('NEXT_PUBLIC_HUBSPOT_PORTAL_ID', 'is not set; the tracking code and embedded forms are disabled');
+  } else if (!NUMERIC_ID_PATTERN.test(publicPortalId)) {
+    error('NEXT_PUBLIC_HUBSPOT_PORTAL_ID', 'must be the numeric portal ID (Hub ID)');
+  } else if (portalId && publicPortalId !== portalId) {
+    warning('NEXT_PUBLIC_HUBSPOT_PORTAL_ID', 'differs from HUBSPOT_PORTAL_ID; visitors are tracked in another portal');
+  }
+
+  const publicFormGuid = read('NEXT_PUBLIC_HUBSPOT_FORM_GUID');
+  if (!publicFormGuid) {
+    warning('NEXT_PUBLIC_HUBSPOT_FORM_GUID', 'is not set; the embedded forms are disabled');
+  } else if (!GUID_PATTERN.test(publicFormGuid)) {
+    error('NEXT_PUBLIC_HUBSPOT_FORM_GUID', 'must be a form GUID (xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx)');
+  }
+
+  // Unused variables, usually misspelled
+  const knownVariables = new Set([
+    ...KNOWN_VARIABLES,
+    ...getContactListingAssociationLabels(env).map(label => label.envVar),
+  ]);
+  for (const variable of Object.keys(env)) {
+    if (/^(NEXT_PUBLIC_)?HUBSPOT_/.test(variable) && !knownVariables.has(variable)) {
+      warning(variable, 'is not used by the site (misspelled?)');
+    }
+  }
+
+  return {
+    config: {
+      transport,
+      portalId,
+      formGuid,
+      accessToken,
+      contactResolutionTimeoutMs,
+      tourTaskOwnerId,
+      publicPortalId,
+      publicFormGuid,
+    },
+    issues,
+    valid: !issues.some(issue => issue.severity === 'error'),
+  };
+}
+
+/**
+ * Returns the HubSpot configuration. Values that failed validation are
+ * returned as set; callers that need a valid value check it themselves.
+ */
+export function getHubSpotConfig(): HubSpotConfig {
+  return loadHubSpotConfig().config;
+}
+
+/**
+ * Validates the configuration when the server starts and logs every issue.
+ *
+ * @throws HubSpotConfigError in production when there are errors; in
+ *   development the server starts anyway, so pages can be worked on without
+ *   HubSpot credentials
+ */
+export function checkHubSpotConfigAtStartup(logger: Logger = configLogger): HubSpotConfigValidation {
+  const validation = loadHubSpotConfig();
+
+  for (const issue of validation.issues) {
+    if (issue.severity === 'error') {
+      logger.error(`${issue.variable} ${issue.message}`, { variable: issue.variable });
+    } else {
+      logger.warn(`${issue.variable} ${issue.message}`, { variable: issue.variable });
+    }
+  }
+
+  if (!validation.valid && process.env.NODE_ENV === 'production') {
+    throw new HubSpotConfigError(validation.issues);
+  }
+
+  if (validation.valid) {
+    logger.info('HubSpot configuration is valid', { transport: validation.config.transport });
+  }
+  return validation;
+}
@@ -0,0 +1,782 @@
+/**
+ * In-Memory Fake HubSpot
+ *
+ * Implements the subset of the HubSpot HTTP API that the site uses, backed by
+ * in-memory records, so the request-info, notify-me, saved-properties and
+ * tour-request workflows can run end-to-end without a portal:
+ *
+ * - Forms API submit (upserts the contact by email)
+ * - CRM v3 object search / create / read / update, and batch create / update,
+ *   for contacts (0-1), listings (0-420) and tasks (0-27)
+ * - CRM v3 object list (first page only), used by the health check
+ * - CRM v4 batch association create, default association create and
+ *   association label definitions
+ * - Private App access token info and form definitions, used by the health
+ *   check
+ *
+ * Transient failures (rate limits, outages, network errors) can be queued with
+ * `queueFailures()` to exercise the client's retry handling.
+ *
+ * Use it through `FakeHubSpotServer.transport`, which has the same signature as
+ * `fetch` and plugs into `HubSpotClient`. Recorded state (records,
+ * associations, form submissions and requests) is public for inspection.
+ *
+ * Only the behaviour the site relies on is modelled; for example, search
+ * supports the EQ, IN and HAS_PROPERTY operators only. Like the real Forms
+ * API, submissions can be processed asynchronously (`formProcessingDelayMs`).
+ */
+
+import { getContactListingAssociationLabels, HUBSPOT_OBJECT_TYPE_IDS } from '@/lib/hubspotAssociations';
+import type { HubSpotTransport } from '@/lib/hubspotClient';
+import { HUBSPOT_REQUIRED_SCOPES } from '@/lib/hubspotConfig';
+import { properties } from '@/data/properties';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FakeHubSpotRecord {
+  id: string;
+  properties: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeHubSpotAssociation {
+  fromObjectTypeId: string;
+  fromId: string;
+  toObjectTypeId: string;
+  toId: string;
+  associationCategory: string;
+  /** Null for default (unlabeled) associations */
+  associationTypeId: number | null;
+}
+
+/**
+ * An association type defined in the portal, as returned by the v4 labels
+ * endpoint.
+ */
+export interface FakeHubSpotAssociationLabel {
+  fromObjectTypeId: string;
+  toObjectTypeId: string;
+  category: 'HUBSPOT_DEFINED' | 'USER_DEFINED';
+  typeId: number;
+  /** Null for unlabeled types */
+  label: string | null;
+}
+
+export interface FakeHubSpotFormSubmission {
+  portalId: string;
+  formGuid: string;
+  fields: Array<{ name: string; value: string }>;
+  context?: Record<string, unknown>;
+  submittedAt: string;
+}
+
+export interface FakeHubSpotRequest {
+  method: string;
+  path: string;
+}
+
+/**
+ * A failure served instead of the next request: an HTTP error response, or a
+ * network error thrown by the transport.
+ */
+export type FakeHubSpotFailure =
+  | { status: number; headers?: Record<string, string> }
+  | 'network-error';
+
+export interface FakeHubSpotServerOptions {
+  /** Listing (0-420) records to start with, as property maps */
+  listings?: Array<Record<string, string>>;
+  /** Association types defined in the portal (default: none) */
+  associationLabels?: FakeHubSpotAssociationLabel[];
+  /** Portal ID reported as the access token's hubId (default: none reported) */
+  portalId?: string;
+  /** Scopes of the access token (default: every scope the site needs, plus `forms`) */
+  scopes?: string[];
+  /** GUIDs of the forms that exist (default: any GUID exists) */
+  formGuids?: string[];
+  /**
+   * Delay before a form submission creates or updates its contact, as with
+   * HubSpot's asynchronous processing (default: 0, i.e. immediately)
+   */
+  formProcessingDelayMs?: number;
+}
+
+type FakeObjectStore = 'contacts' | 'listings' | 'tasks';
+
+interface SearchFilter {
+  propertyName?: string;
+  operator?: string;
+  value?: string;
+  values?: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Object type names and numeric objectTypeIds accepted in URLs.
+ */
+const OBJECT_STORES: Record<string, FakeObjectStore> = {
+  'contacts': 'contacts',
+  '0-1': 'contacts',
+  'listings': 'listings',
+  '0-420': 'listings',
+  'tasks': 'tasks',
+  '0-27': 'tasks',
+};
+
+const OBJECT_TYPE_IDS: Record<FakeObjectStore, string> = {
+  contacts: '0-1',
+  listings: '0-420',
+  tasks: '0-27',
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  207: 'Multi-Status',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  409: 'Conflict',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(status: number, category: string, message: string): Response {
+  return jsonResponse(status, { status: 'error', category, message });
+}
+
+function parseBody(init: RequestInit): Record<string, unknown> | null {
+  if (typeof init.body !== 'string') {
+    return null;
+  }
+  try {
+    const body = JSON.parse(init.body);
+    return body && typeof body === 'object' ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesFilter(record: FakeHubSpotRecord, filter: SearchFilter): boolean {
+  const value = filter.propertyName ? record.properties[filter.propertyName] : undefined;
+
+  switch (filter.operator) {
+    case 'EQ':
+      return value !== undefined && value === String(filter.value);
+    case 'IN':
+      return value !== undefined && (filter.values ?? []).map(String).includes(value);
+    case 'HAS_PROPERTY':
+      return value !== undefined && value !== '';
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Fake Server
+// ============================================================================
+
+export class FakeHubSpotServer {
+  readonly objects: Record<FakeObjectStore, Map<string, FakeHubSpotRecord>> = {
+    contacts: new Map(),
+    listings: new Map(),
+    tasks: new Map(),
+  };
+  readonly associations: FakeHubSpotAssociation[] = [];
+  readonly associationLabels: FakeHubSpotAssociationLabel[];
+  readonly formSubmissions: FakeHubSpotFormSubmission[] = [];
+  readonly requests: FakeHubSpotRequest[] = [];
+
+  private nextId = 1001;
+  private readonly pendingFailures: FakeHubSpotFailure[] = [];
+  private readonly formProcessingDelayMs: number;
+  private readonly portalId?: string;
+  private readonly scopes: string[];
+  private readonly formGuids?: string[];
+
+  constructor(options: FakeHubSpotServerOptions = {}) {
+    this.formProcessingDelayMs = options.formProcessingDelayMs ?? 0;
+    this.associationLabels = [...(options.associationLabels ?? [])];
+    this.portalId = options.portalId;
+    this.scopes = options.scopes ?? [...HUBSPOT_REQUIRED_SCOPES, 'forms'];
+    this.formGuids = options.formGuids;
+    for (const listing of options.listings ?? []) {
+      this.addRecord('listings', listing);
+    }
+  }
+
+  /**
+   * Fetch-compatible entry point; pass to `new HubSpotClient({ transport })`.
+   */
+  readonly transport: HubSpotTransport = async (url, init) => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const { pathname } = new URL(url);
+    this.requests.push({ method, path: pathname });
+
+    const failure = this.pendingFailures.shift();
+    if (failure === 'network-error') {
+      throw new TypeError('fetch failed');
+    }
+    if (failure) {
+      return new Response(JSON.stringify({ status: 'error', message: 'Injected failure' }), {
+        status: failure.status,
+        statusText: STATUS_TEXT[failure.status] ?? '',
+        headers: { 'Content-Type': 'application/json', ...failure.headers },
+      });
+    }
+
+    return this.handle(method, pathname, init);
+  };
+
+  /**
+   * Serves the given failures, in order, instead of the next requests, e.g.
+   * `queueFailures({ status: 502 }, { status: 429, headers: { 'Retry-After': '1' } })`.
+   */
+  queueFailures(...failures: FakeHubSpotFailure[]): void {
+    this.pendingFailures.push(...failures);
+  }
+
+  /**
+   * Adds a record directly, bypassing the HTTP API (for seeding).
+   */
+  addRecord(objectType: string, recordProperties: Record<string, string>): FakeHubSpotRecord {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      throw new Error(`Unknown object type: ${objectType}`);
+    }
+
+    const now = new Date().toISOString();
+    const record: FakeHubSpotRecord = {
+      id: String(this.nextId++),
+      properties: { ...recordProperties },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.objects[store].set(record.id, record);
+    return record;
+  }
+
+  findContactByEmail(email: string): FakeHubSpotRecord | undefined {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.objects.contacts.values()).find(
+      contact => contact.properties.email?.toLowerCase() === normalized
+    );
+  }
+
+  /**
+   * Returns the associations from one record, optionally to one object type.
+   */
+  getAssociations(fromObjectType: string, fromId: string, toObjectType?: string): FakeHubSpotAssociation[] {
+    const fromStore = OBJECT_STORES[fromObjectType];
+    const toStore = toObjectType ? OBJECT_STORES[toObjectType] : undefined;
+    return this.associations.filter(association =>
+      association.fromObjectTypeId === OBJECT_TYPE_IDS[fromStore] &&
+      association.fromId === fromId &&
+      (!toStore || association.toObjectTypeId === OBJECT_TYPE_IDS[toStore])
+    );
+  }
+
+  // --------------------------------------------------------------------------
+  // Routing
+  // --------------------------------------------------------------------------
+
+  private handle(method: string, path: string, init: RequestInit): Response {
+    const formMatch = path.match(/^\/submissions\/v3\/integration\/submit\/([^/]+)\/([^/]+)$/);
+    if (formMatch && method === 'POST') {
+      return this.submitForm(formMatch[1], formMatch[2], init);
+    }
+
+    if (path === '/oauth/v2/private-apps/get/access-token-info' && method === 'POST') {
+      return this.getAccessTokenInfo(init);
+    }
+
+    if (path.startsWith('/crm/') || path.startsWith('/marketing/')) {
+      const authorization = new Headers(init.headers).get('Authorization') ?? '';
+      if (!/^Bearer \S+$/.test(authorization)) {
+        return errorResponse(401, 'INVALID_AUTHENTICATION', 'Authentication credentials not found.');
+      }
+    }
+
+    let match = path.match(/^\/crm\/v3\/objects\/([^/]+)\/search$/);
+    if (match && method === 'POST') {
+      return this.searchObjects(match[1], init);
+    }
+
+    match = path.match(/^\/crm\/v3\/objects\/([^/]+)$/);
+    if (match && (method === 'GET' || method === 'POST')) {
+      return method === 'GET' ? this.listObjects(match[1]) : this.createObject(match[1], init);
+    }
+
+    match = path.match(/^\/marketing\/v3\/forms\/([^/]+)$/);
+    if (match && method === 'GET') {
+      return this.getForm(match[1]);
+    }
+
+    match = path.match(/^\/crm\/v3\/objects\/([^/]+)\/batch\/(create|update)$/);
+    if (match && method === 'POST') {
+      return match[2] === 'create' ? this.batchCreateObjects(match[1], init) : this.batchUpdateObjects(match[1], init);
+    }
+
+    match = path.match(/^\/crm\/v3\/objects\/([^/]+)\/([^/]+)$/);
+    if (match && (method === 'GET' || method === 'PATCH')) {
+      return method === 'GET' ? this.getObject(match[1], match[2]) : this.updateObject(match[1], match[2], init);
+    }
+
+    match = path.match(/^\/crm\/v4\/associations\/([^/]+)\/([^/]+)\/batch\/create$/);
+    if (match && method === 'POST') {
+      return this.createAssociations(match[1], match[2], init);
+    }
+
+    match = path.match(/^\/crm\/v4\/associations\/([^/]+)\/([^/]+)\/labels$/);
+    if (match && method === 'GET') {
+      return this.getAssociationLabels(match[1], match[2]);
+    }
+
+    match = path.match(/^\/crm\/v4\/objects\/([^/]+)\/([^/]+)\/associations\/default\/([^/]+)\/([^/]+)$/);
+    if (match && method === 'PUT') {
+      return this.createDefaultAssociation(match[1], match[2], match[3], match[4]);
+    }
+
+    return errorResponse(404, 'OBJECT_NOT_FOUND', `No fake HubSpot route for ${method} ${path}`);
+  }
+
+  // --------------------------------------------------------------------------
+  // Forms API
+  // --------------------------------------------------------------------------
+
+  private submitForm(portalId: string, formGuid: string, init: RequestInit): Response {
+    const body = parseBody(init);
+    const fields = Array.isArray(body?.fields) ? (body.fields as Array<{ name: string; value: string }>) : [];
+    const email = fields.find(field => field.name === 'email')?.value;
+
+    if (!email) {
+      return jsonResponse(400, {
+        status: 'error',
+        message: 'The request is not valid',
+        errors: [{ message: 'Error in \'fields.email\'. Required field \'email\' is missing', errorType: 'REQUIRED_FIELD' }],
+      });
+    }
+
+    this.formSubmissions.push({
+      portalId,
+      formGuid,
+      fields,
+      context: body?.context as Record<string, unknown> | undefined,
+      submittedAt: new Date().toISOString(),
+    });
+
+    // Form fields map onto contact properties; HubSpot dedupes contacts by email
+    const submitted = Object.fromEntries(fields.map(field => [field.name, String(field.value)]));
+    const upsertContact = () => {
+      const existing = this.findContactByEmail(email);
+      if (existing) {
+        existing.properties = { ...existing.properties, ...submitted };
+        existing.updatedAt = new Date().toISOString();
+      } else {
+        this.addRecord('contacts', submitted);
+      }
+    };
+
+    if (this.formProcessingDelayMs > 0) {
+      setTimeout(upsertContact, this.formProcessingDelayMs);
+    } else {
+      upsertContact();
+    }
+
+    return jsonResponse(200, { inlineMessage: 'Thanks for submitting the form.' });
+  }
+
+  private getForm(formGuid: string): Response {
+    if (this.formGuids && !this.formGuids.includes(formGuid)) {
+      return errorResponse(404, 'OBJECT_NOT_FOUND', `Form ${formGuid} not found`);
+    }
+    return jsonResponse(200, { id: formGuid, name: 'Fake form', archived: false });
+  }
+
+  // --------------------------------------------------------------------------
+  // Access Token
+  // --------------------------------------------------------------------------
+
+  private getAccessTokenInfo(init: RequestInit): Response {
+    if (typeof parseBody(init)?.tokenKey !== 'string') {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must include tokenKey');
+    }
+
+    return jsonResponse(200, {
+      userId: 1,
+      appId: 1,
+      ...(this.portalId ? { hubId: Number(this.portalId) } : {}),
+      scopes: this.scopes,
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // CRM Objects
+  // --------------------------------------------------------------------------
+
+  private searchObjects(objectType: string, init: RequestInit): Response {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unable to infer object type from: ${objectType}`);
+    }
+
+    const body = parseBody(init) ?? {};
+    const filterGroups = Array.isArray(body.filterGroups)
+      ? (body.filterGroups as Array<{ filters?: SearchFilter[] }>)
+      : [];
+    const requestedProperties = Array.isArray(body.properties) ? (body.properties as string[]) : [];
+    const limit = typeof body.limit === 'number' ? body.limit : DEFAULT_SEARCH_LIMIT;
+
+    // Filter groups are ORed together; the filters within a group are ANDed
+    const matches = Array.from(this.objects[store].values()).filter(record =>
+      filterGroups.length === 0 ||
+      filterGroups.some(group => (group.filters ?? []).every(filter => matchesFilter(record, filter)))
+    );
+
+    return jsonResponse(200, {
+      total: matches.length,
+      results: matches.slice(0, limit).map(record => this.toApiRecord(record, requestedProperties)),
+    });
+  }
+
+  private listObjects(objectType: string): Response {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unable to infer object type from: ${objectType}`);
+    }
+
+    return jsonResponse(200, {
+      results: Array.from(this.objects[store].values())
+        .slice(0, DEFAULT_SEARCH_LIMIT)
+        .map(record => this.toApiRecord(record)),
+    });
+  }
+
+  private createObject(objectType: string, init: RequestInit): Response {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unable to infer object type from: ${objectType}`);
+    }
+
+    const recordProperties = parseBody(init)?.properties as Record<string, string> | undefined;
+    if (!recordProperties || typeof recordProperties !== 'object') {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must include properties');
+    }
+
+    if (store === 'contacts') {
+      if (!recordProperties.email) {
+        return errorResponse(400, 'VALIDATION_ERROR', 'Property "email" is required');
+      }
+      const existing = this.findContactByEmail(recordProperties.email);
+      if (existing) {
+        return errorResponse(409, 'CONFLICT', `Contact already exists. Existing ID: ${existing.id}`);
+      }
+    }
+
+    const record = this.addRecord(store, recordProperties);
+    return jsonResponse(201, this.toApiRecord(record));
+  }
+
+  private getObject(objectType: string, objectId: string): Response {
+    const record = this.getRecord(objectType, objectId);
+    if (!record) {
+      return errorResponse(404, 'OBJECT_NOT_FOUND', `Object ${objectType}/${objectId} not found`);
+    }
+    return jsonResponse(200, this.toApiRecord(record));
+  }
+
+  private updateObject(objectType: string, objectId: string, init: RequestInit): Response {
+    const record = this.getRecord(objectType, objectId);
+    if (!record) {
+      return errorResponse(404, 'OBJECT_NOT_FOUND', `Object ${objectType}/${objectId} not found`);
+    }
+
+    const recordProperties = parseBody(init)?.properties as Record<string, string> | undefined;
+    if (!recordProperties || typeof recordProperties !== 'object') {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must include properties');
+    }
+
+    record.properties = { ...record.properties, ...recordProperties };
+    record.updatedAt = new Date().toISOString();
+    return jsonResponse(200, this.toApiRecord(record));
+  }
+
+  private batchCreateObjects(objectType: string, init: RequestInit): Response {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unable to infer object type from: ${objectType}`);
+    }
+
+    const inputs = parseBody(init)?.inputs;
+    if (!Array.isArray(inputs) || inputs.some(input => !input?.properties || typeof input.properties !== 'object')) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Each input must include properties');
+    }
+
+    const records = inputs.map(input => this.addRecord(store, input.properties as Record<string, string>));
+    return jsonResponse(201, {
+      status: 'COMPLETE',
+      results: records.map(record => this.toApiRecord(record)),
+    });
+  }
+
+  private batchUpdateObjects(objectType: string, init: RequestInit): Response {
+    const store = OBJECT_STORES[objectType];
+    if (!store) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unable to infer object type from: ${objectType}`);
+    }
+
+    const inputs = parseBody(init)?.inputs;
+    if (!Array.isArray(inputs)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must include inputs');
+    }
+
+    const results: unknown[] = [];
+    const errors: unknown[] = [];
+
+    for (const input of inputs) {
+      const id = String(input?.id ?? '');
+      const record = this.objects[store].get(id);
+      if (!record || !input?.properties || typeof input.properties !== 'object') {
+        errors.push({
+          status: 'error',
+          category: 'OBJECT_NOT_FOUND',
+          message: `Object ${objectType}/${id} not found`,
+          context: { ids: [id] },
+        });
+        continue;
+      }
+
+      record.properties = { ...record.properties, ...(input.properties as Record<string, string>) };
+      record.updatedAt = new Date().toISOString();
+      results.push(this.toApiRecord(record));
+    }
+
+    return jsonResponse(errors.length > 0 ? 207 : 200, {
+      status: 'COMPLETE',
+      results,
+      ...(errors.length > 0 ? { numErrors: errors.length, errors } : {}),
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // CRM v4 Associations
+  // --------------------------------------------------------------------------
+
+  private createAssociations(fromObjectType: string, toObjectType: string, init: RequestInit): Response {
+    const fromStore = OBJECT_STORES[fromObjectType];
+    const toStore = OBJECT_STORES[toObjectType];
+    if (!fromStore || !toStore) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unknown object types: ${fromObjectType} -> ${toObjectType}`);
+    }
+
+    const inputs = parseBody(init)?.inputs;
+    if (!Array.isArray(inputs)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Request body must include inputs');
+    }
+
+    const results: unknown[] = [];
+    const errors: unknown[] = [];
+
+    for (const input of inputs) {
+      const fromId = String(input?.from?.id ?? '');
+      const toId = String(input?.to?.id ?? '');
+      const types = Array.isArray(input?.types) ? input.types : [];
+
+      if (!this.objects[fromStore].has(fromId) || !this.objects[toStore].has(toId)) {
+        errors.push({
+          status: 'error',
+          category: 'OBJECT_NOT_FOUND',
+          message: `No ${fromObjectType} with ID ${fromId} or ${toObjectType} with ID ${toId} exists`,
+          context: { fromId: [fromId], toId: [toId] },
+        });
+        continue;
+      }
+
+      const invalidType = types.find((type: { associationTypeId?: unknown }) =>
+        !Number.isInteger(type?.associationTypeId) || (type.associationTypeId as number) <= 0
+      );
+      if (types.length === 0 || invalidType) {
+        errors.push({
+          status: 'error',
+          category: 'VALIDATION_ERROR',
+          message: 'Each input must specify a valid associationTypeId',
+        });
+        continue;
+      }
+
+      for (const type of types) {
+        this.addAssociation({
+          fromObjectTypeId: OBJECT_TYPE_IDS[fromStore],
+          fromId,
+          toObjectTypeId: OBJECT_TYPE_IDS[toStore],
+          toId,
+          associationCategory: type.associationCategory ?? 'USER_DEFINED',
+          associationTypeId: type.associationTypeId,
+        });
+      }
+
+      results.push({
+        fromObjectTypeId: OBJECT_TYPE_IDS[fromStore],
+        fromObjectId: fromId,
+        toObjectTypeId: OBJECT_TYPE_IDS[toStore],
+        toObjectId: toId,
+        labels: [],
+      });
+    }
+
+    return jsonResponse(errors.length > 0 ? 207 : 201, {
+      status: 'COMPLETE',
+      results,
+      ...(errors.length > 0 ? { numErrors: errors.length, errors } : {}),
+    });
+  }
+
+  private getAssociationLabels(fromObjectType: string, toObjectType: string): Response {
+    const fromStore = OBJECT_STORES[fromObjectType];
+    const toStore = OBJECT_STORES[toObjectType];
+    if (!fromStore || !toStore) {
+      return errorResponse(400, 'VALIDATION_ERROR', `Unknown object types: ${fromObjectType} -> ${toObjectType}`);
+    }
+
+    const results = this.associationLabels
+      .filter(label =>
+        label.fromObjectTypeId === OBJECT_TYPE_IDS[fromStore] && label.toObjectTypeId === OBJECT_TYPE_IDS[toStore]
+      )
+      .map(({ category, typeId, label }) => ({ category, typeId, label }));
+
+    return jsonResponse(200, { results });
+  }
+
+  private createDefaultAssociation(
+    fromObjectType: string,
+    fromId: string,
+    toObjectType: string,
+    toId: string
+  ): Response {
+    const fromRecord = this.getRecord(fromObjectType, fromId);
+    const toRecord = this.getRecord(toObjectType, toId);
+    if (!fromRecord || !toRecord) {
+      return errorResponse(404, 'OBJECT_NOT_FOUND', `No ${fromObjectType} with ID ${fromId} or ${toObjectType} with ID ${toId} exists`);
+    }
+
+    const association: FakeHubSpotAssociation = {
+      fromObjectTypeId: OBJECT_TYPE_IDS[OBJECT_STORES[fromObjectType]],
+      fromId,
+      toObjectTypeId: OBJECT_TYPE_IDS[OBJECT_STORES[toObjectType]],
+      toId,
+      associationCategory: 'HUBSPOT_DEFINED',
+      associationTypeId: null,
+    };
+    this.addAssociation(association);
+
+    return jsonResponse(200, {
+      status: 'COMPLETE',
+      results: [{ from: { id: fromId }, to: { id: toId }, associationSpec: { associationCategory: 'HUBSPOT_DEFINED' } }],
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Records
+  // --------------------------------------------------------------------------
+
+  private getRecord(objectType: string, objectId: string): FakeHubSpotRecord | undefined {
+    const store = OBJECT_STORES[objectType];
+    return store ? this.objects[store].get(objectId) : undefined;
+  }
+
+  /**
+   * Associations are idempotent: an identical association is stored once.
+   */
+  private addAssociation(association: FakeHubSpotAssociation): void {
+    const exists = this.associations.some(existing =>
+      existing.fromObjectTypeId === association.fromObjectTypeId &&
+      existing.fromId === association.fromId &&
+      existing.toObjectTypeId === association.toObjectTypeId &&
+      existing.toId === association.toId &&
+      existing.associationTypeId === association.associationTypeId
+    );
+    if (!exists) {
+      this.associations.push(association);
+    }
+  }
+
+  private toApiRecord(record: FakeHubSpotRecord, requestedProperties?: string[]) {
+    const recordProperties = requestedProperties && requestedProperties.length > 0
+      ? Object.fromEntries(
+          requestedProperties
+            .filter(name => record.properties[name] !== undefined)
+            .map(name => [name, record.properties[name]])
+        )
+      : { ...record.properties };
+
+    return {
+      id: record.id,
+      properties: { ...recordProperties, hs_object_id: record.id },
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+      archived: false,
+    };
+  }
+}
+
+// ============================================================================
+// Shared Instance
+// ============================================================================
+
+/**
+ * Kept on globalThis because Next.js bundles each route separately; a module
+ * variable would give every API route its own, disconnected fake.
+ */
+const globalForFake = globalThis as typeof globalThis & { fakeHubSpotServer?: FakeHubSpotServer };
+
+/**
+ * Returns the process-wide fake used when HUBSPOT_TRANSPORT=fake. It starts
+ * with one Listing per catalog property, keyed by external_listing_id, so that
+ * every listing on the site can be associated, and defines the configured
+ * Contact ↔ Listing association labels. Form submissions take a moment to
+ * create their contact, as they do in HubSpot.
+ */
+export function getSharedFakeHubSpot(): FakeHubSpotServer {
+  if (!globalForFake.fakeHubSpotServer) {
+    globalForFake.fakeHubSpotServer = new FakeHubSpotServer({
+      listings: properties.map(property => ({
+        external_listing_id: property.id,
+        name: `${property.address}, ${property.city}, ${property.state}`,
+      })),
+      associationLabels: getContactListingAssociationLabels()
+        .filter(configured => configured.typeId !== undefined)
+        .map(configured => ({
+          fromObjectTypeId: HUBSPOT_OBJECT_TYPE_IDS.contact,
+          toObjectTypeId: HUBSPOT_OBJECT_TYPE_IDS.listing,
+          category: 'USER_DEFINED' as const,
+          typeId: configured.typeId as number,
+          label: configured.name,
+        })),
+      formProcessingDelayMs: 500,
+    });
+  }
+  return globalForFake.fakeHubSpotServer;
+}
@@ -0,0 +1,278 @@
+/**
+ * Inquiry Payload Schema
+ *
+ * The single definition of the inquiry payloads and the validators that both
+ * sides run:
+ *
+ * - InquiryPayload: a "Request Info" inquiry about a listing, sent to
+ *   /api/request-info
+ * - ContactInquiryPayload: a general inquiry with a free-text message and no
+ *   listing, sent to /api/contact
+ *
+ * PropertyInquiryForm validates before submitting and renders the errors
+ * inline, next to each field. The API routes validate the submitted JSON and
+ * return the same errors, which the form renders the same way. lib/hubspot.ts
+ * submits the validated payload to HubSpot.
+ *
+ * Lead source attribution (UTM parameters, referrer, HubSpot tracking cookie)
+ * is optional and never fails validation; see lib/leadAttribution.ts.
+ *
+ * Spam-check fields (honeypot, time-to-submit, challenge token) are not part
+ * of the inquiry itself; see lib/spamProtection.ts.
+ */
+
+import { LeadAttribution, parseLeadAttribution } from '@/lib/leadAttribution';
+import { parsePhoneNumber } from '@/lib/phoneNumber';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InquiryPayload {
+  firstname: string;
+  lastname: string;
+  email: string;
+  /** E.164 format once validated (see lib/phoneNumber.ts) */
+  phone?: string;
+  /**
+   * The external listing ID used for HubSpot Listing lookups.
+   * This value corresponds to `assetId` from source property data.
+   * Do NOT use `assetReferenceId` - it's a secondary reference.
+   * See DATA_MAPPING.md for identifier documentation.
+   */
+  external_listing_id: string;
+  marketing_opt_in: boolean;
+  pageUri?: string;
+  pageName?: string;
+  /** Where the visitor came from (see lib/leadAttribution.ts) */
+  attribution?: LeadAttribution;
+}
+
+export interface ContactInquiryPayload {
+  firstname: string;
+  lastname: string;
+  email: string;
+  /** E.164 format once validated (see lib/phoneNumber.ts) */
+  phone?: string;
+  message?: string;
+  marketing_opt_in: boolean;
+  pageUri?: string;
+  pageName?: string;
+  /** Where the visitor came from (see lib/leadAttribution.ts) */
+  attribution?: LeadAttribution;
+}
+
+export type InquiryField = keyof InquiryPayload | keyof ContactInquiryPayload;
+
+/**
+ * A field-level validation error. `body` is used when the payload is not an
+ * object at all.
+ */
+export interface InquiryFieldError {
+  field: InquiryField | 'body';
+  message: string;
+}
+
+/**
+ * The first error message for each field, for rendering next to the inputs.
+ */
+export type InquiryFieldErrors = Partial<Record<InquiryFieldError['field'], string>>;
+
+export type InquiryValidationResult<T = InquiryPayload> =
+  | { valid: true; data: T }
+  | { valid: false; errors: InquiryFieldError[] };
+
+/**
+ * The contact fields shared by every inquiry payload, including those of the
+ * notify-me, tour request and saved properties routes.
+ */
+export type InquiryContactFields = Omit<ContactInquiryPayload, 'message'>;
+
+export interface ContactFieldsOptions {
+  /**
+   * Whether marketing_opt_in must be true (default) or may be false, in
+   * which case consent is only recorded when given.
+   */
+  marketingOptIn?: 'required' | 'optional';
+  /** Error message for a missing required opt-in */
+  marketingOptInMessage?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Longest accepted inquiry message, in characters.
+ */
+export const MAX_INQUIRY_MESSAGE_LENGTH = 5000;
+
+const NOT_AN_OBJECT_ERROR: InquiryFieldError = { field: 'body', message: 'Request body must be a JSON object' };
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim() === '';
+}
+
+/**
+ * Validates the contact fields shared by every inquiry, adding any errors to
+ * `errors`. Returns the fields sanitized: strings trimmed, the email
+ * lowercased and the phone number in E.164 format.
+ *
+ * API routes with payloads of their own validate their extra fields next to
+ * this, so contact fields are validated the same way everywhere.
+ */
+export function validateContactFields(
+  data: Record<string, unknown>,
+  errors: Array<{ field: string; message: string }>,
+  options: ContactFieldsOptions = {}
+): InquiryContactFields {
+  if (isBlank(data.firstname)) {
+    errors.push({ field: 'firstname', message: 'First name is required' });
+  }
+
+  if (isBlank(data.lastname)) {
+    errors.push({ field: 'lastname', message: 'Last name is required' });
+  }
+
+  if (isBlank(data.email)) {
+    errors.push({ field: 'email', message: 'Email is required' });
+  } else if (!EMAIL_PATTERN.test((data.email as string).trim())) {
+    errors.push({ field: 'email', message: 'Email must be a valid email address' });
+  }
+
+  // Optional, but normalized to E.164 so HubSpot stores one format
+  let phone: string | undefined;
+  if (typeof data.phone === 'string' && data.phone.trim() !== '') {
+    const parsedPhone = parsePhoneNumber(data.phone);
+    if (parsedPhone.valid) {
+      phone = parsedPhone.e164;
+    } else {
+      errors.push({ field: 'phone', message: parsedPhone.message });
+    }
+  } else if (data.phone !== undefined && data.phone !== null && typeof data.phone !== 'string') {
+    errors.push({ field: 'phone', message: 'Phone number must be a string' });
+  }
+
+  if (options.marketingOptIn !== 'optional' && data.marketing_opt_in !== true) {
+    errors.push({
+      field: 'marketing_opt_in',
+      message: options.marketingOptInMessage ?? 'You must agree to receive marketing communications to submit this form.',
+    });
+  }
+
+  return {
+    firstname: typeof data.firstname === 'string' ? data.firstname.trim() : '',
+    lastname: typeof data.lastname === 'string' ? data.lastname.trim() : '',
+    email: typeof data.email === 'string' ? data.email.trim().toLowerCase() : '',
+    phone,
+    marketing_opt_in: data.marketing_opt_in === true,
+    pageUri: typeof data.pageUri === 'string' ? data.pageUri : undefined,
+    pageName: typeof data.pageName === 'string' ? data.pageName : undefined,
+    // Malformed attribution is dropped rather than rejecting the inquiry
+    attribution: parseLeadAttribution(data.attribution),
+  };
+}
+
+/**
+ * Validates a "Request Info" inquiry payload and returns it sanitized.
+ *
+ * Required fields:
+ * - firstname, lastname
+ * - email: Must be a valid email address
+ * - external_listing_id: Must be provided
+ * - marketing_opt_in: Must be explicitly true (user must consent)
+ *
+ * An optional phone number must be a valid US or international number.
+ */
+export function validateInquiryPayload(payload: unknown): InquiryValidationResult {
+  if (!payload || typeof payload !== 'object') {
+    return { valid: false, errors: [NOT_AN_OBJECT_ERROR] };
+  }
+
+  const data = payload as Record<string, unknown>;
+  const errors: InquiryFieldError[] = [];
+  const contactFields = validateContactFields(data, errors);
+
+  if (isBlank(data.external_listing_id)) {
+    errors.push({ field: 'external_listing_id', message: 'External listing ID is required' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    data: {
+      ...contactFields,
+      external_listing_id: (data.external_listing_id as string).trim(),
+    },
+  };
+}
+
+/**
+ * Validates the optional free-text `message` of an inquiry, adding any error
+ * to `errors`. Returns it trimmed, or undefined when it is blank or missing.
+ */
+export function validateInquiryMessage(
+  data: Record<string, unknown>,
+  errors: Array<{ field: string; message: string }>
+): string | undefined {
+  if (typeof data.message === 'string') {
+    const message = data.message.trim() || undefined;
+    if (message && message.length > MAX_INQUIRY_MESSAGE_LENGTH) {
+      errors.push({
+        field: 'message',
+        message: `Message must be at most ${MAX_INQUIRY_MESSAGE_LENGTH} characters`,
+      });
+    }
+    return message;
+  }
+
+  if (data.message !== undefined && data.message !== null) {
+    errors.push({ field: 'message', message: 'Message must be a string' });
+  }
+  return undefined;
+}
+
+/**
+ * Validates a general (non-listing) inquiry payload and returns it sanitized.
+ *
+ * Required fields are the same as for a listing inquiry, without
+ * external_listing_id. The optional message may be up to
+ * MAX_INQUIRY_MESSAGE_LENGTH characters.
+ */
+export function validateContactInquiryPayload(payload: unknown): InquiryValidationResult<ContactInquiryPayload> {
+  if (!payload || typeof payload !== 'object') {
+    return { valid: false, errors: [NOT_AN_OBJECT_ERROR] };
+  }
+
+  const data = payload as Record<string, unknown>;
+  const errors: InquiryFieldError[] = [];
+  const contactFields = validateContactFields(data, errors);
+  const message = validateInquiryMessage(data, errors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, data: { ...contactFields, message } };
+}
+
+/**
+ * Groups validation errors by field for inline display, keeping the first
+ * message for each field.
+ */
+export function getInquiryFieldErrors(errors: InquiryFieldError[]): InquiryFieldErrors {
+  const fieldErrors: InquiryFieldErrors = {};
+  for (const error of errors) {
+    fieldErrors[error.field] ??= error.message;
+  }
+  return fieldErrors;
+}
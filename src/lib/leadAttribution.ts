@@ -0,0 +1,195 @@
+/**
+ * Lead Source Attribution
+ *
+ * Records where a visitor came from, so that inquiries can be credited to the
+ * campaign that drove them:
+ *
+ * - UTM parameters (utm_source, utm_medium, utm_campaign, utm_term,
+ *   utm_content) and the landing page URL, from the first page of the visit
+ * - The referrer of that first page, when it is another site
+ * - The HubSpot tracking cookie (`hubspotutk`), which lets HubSpot tie the
+ *   form submission to the visitor's page views
+ *
+ * `captureLeadAttribution()` runs on every full page load (see
+ * components/LeadAttributionCapture.tsx) and stores the first capture in
+ * sessionStorage, so later pages of the visit keep the original source. The
+ * tracking script sets `hubspotutk` after the first page has loaded, so the
+ * cookie is read again when the attribution is read.
+ *
+ * The inquiry forms send the attribution with their payload;
+ * `parseLeadAttribution()` validates it on the server (see
+ * lib/inquirySchema.ts), dropping anything malformed rather than rejecting
+ * the inquiry.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LeadAttribution {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  /** URL of the external page that linked to the first page of the visit */
+  referrer?: string;
+  /** URL of the first page of the visit */
+  landing_page?: string;
+  /** Value of the HubSpot `hubspotutk` tracking cookie */
+  hutk?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+const STORAGE_KEY = 'vrm:lead-attribution';
+
+const HUBSPOT_TRACKING_COOKIE = 'hubspotutk';
+
+/** hubspotutk values are 32 hex characters */
+const HUTK_PATTERN = /^[0-9a-f]{32}$/i;
+
+const MAX_UTM_LENGTH = 255;
+const MAX_URL_LENGTH = 2000;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function parseString(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+}
+
+function parseUrl(value: unknown): string | undefined {
+  const url = parseString(value, MAX_URL_LENGTH);
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+/**
+ * Validates attribution data from a request body. Unknown keys and malformed
+ * values are dropped; returns undefined when nothing usable is left.
+ */
+export function parseLeadAttribution(value: unknown): LeadAttribution | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const data = value as Record<string, unknown>;
+  const attribution: LeadAttribution = {};
+
+  for (const parameter of UTM_PARAMETERS) {
+    const parsed = parseString(data[parameter], MAX_UTM_LENGTH);
+    if (parsed) {
+      attribution[parameter] = parsed;
+    }
+  }
+
+  const referrer = parseUrl(data.referrer);
+  if (referrer) {
+    attribution.referrer = referrer;
+  }
+
+  const landingPage = parseUrl(data.landing_page);
+  if (landingPage) {
+    attribution.landing_page = landingPage;
+  }
+
+  if (typeof data.hutk === 'string' && HUTK_PATTERN.test(data.hutk)) {
+    attribution.hutk = data.hutk;
+  }
+
+  return Object.keys(attribution).length > 0 ? attribution : undefined;
+}
+
+// ============================================================================
+// Browser Capture
+// ============================================================================
+
+/**
+ * Reads the HubSpot tracking cookie. Valid values are plain hex and need no
+ * decoding, so anything else (including malformed percent-encoding, which
+ * would make decodeURIComponent throw) is ignored.
+ */
+function readTrackingCookie(): string | undefined {
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${HUBSPOT_TRACKING_COOKIE}=([^;]+)`));
+  return match && HUTK_PATTERN.test(match[1]) ? match[1] : undefined;
+}
+
+function readStoredAttribution(): LeadAttribution | undefined {
+  try {
+    const raw = window.sessionStorage.getItem(STORAGE_KEY);
+    return raw === null ? undefined : parseLeadAttribution(JSON.parse(raw)) ?? {};
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies) or hold bad JSON
+    return undefined;
+  }
+}
+
+function storeAttribution(attribution: LeadAttribution): void {
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(attribution));
+  } catch (error) {
+    console.warn(`Could not write ${STORAGE_KEY} to sessionStorage:`, error);
+  }
+}
+
+/**
+ * Records the current page as the start of the visit, unless the visit
+ * already has a recorded start. Call from the browser only.
+ */
+export function captureLeadAttribution(): void {
+  if (readStoredAttribution() !== undefined) {
+    return;
+  }
+
+  const url = new URL(window.location.href);
+  const attribution: LeadAttribution = { landing_page: url.href };
+
+  for (const parameter of UTM_PARAMETERS) {
+    const value = url.searchParams.get(parameter);
+    if (value) {
+      attribution[parameter] = value;
+    }
+  }
+
+  // Internal referrers say nothing about the source of the visit
+  if (document.referrer) {
+    try {
+      if (new URL(document.referrer).origin !== url.origin) {
+        attribution.referrer = document.referrer;
+      }
+    } catch {
+      // Ignore unparseable referrers
+    }
+  }
+
+  const hutk = readTrackingCookie();
+  if (hutk) {
+    attribution.hutk = hutk;
+  }
+
+  storeAttribution(parseLeadAttribution(attribution) ?? {});
+}
+
+/**
+ * Returns the visit's attribution for an inquiry payload, with the current
+ * HubSpot tracking cookie. Call from the browser only.
+ */
+export function getLeadAttribution(): LeadAttribution | undefined {
+  const attribution = { ...readStoredAttribution() };
+
+  const hutk = readTrackingCookie();
+  if (hutk) {
+    attribution.hutk = hutk;
+  }
+
+  return parseLeadAttribution(attribution);
+}
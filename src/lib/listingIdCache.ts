@@ -0,0 +1,313 @@
+/**
+ * Listing ID Cache
+ *
+ * Caches the outcome of looking up a HubSpot Listing by external_listing_id,
+ * so that `findListingByExternalId` does not search HubSpot on every form
+ * post. The assetId → Listing ID mapping only changes when Listings are
+ * created or deleted.
+ *
+ * - Found Listings are cached for LISTING_ID_CACHE_TTL_SECONDS (default: 1
+ *   hour), along with the Listing's owner
+ * - Listings that were not found are cached for
+ *   LISTING_ID_CACHE_NEGATIVE_TTL_SECONDS (default: 60 seconds), so a Listing
+ *   created in HubSpot is picked up soon
+ * - Lookup errors are never cached
+ *
+ * Entries are held in memory per server process. A persistent store can be
+ * layered behind it, so entries survive restarts and are shared between
+ * processes. The store is selected with LISTING_ID_CACHE_STORE:
+ * - unset: memory only
+ * - `file`: one JSON file per entry in LISTING_ID_CACHE_DIR (default:
+ *   .data/listing-id-cache)
+ *
+ * Other backends (e.g. Redis) are plugged in by implementing
+ * `ListingIdCacheStore` and registering it with `setListingIdCacheStore()`.
+ * Store failures are logged and otherwise ignored; the lookup goes to
+ * HubSpot instead.
+ *
+ * The listing sync calls `invalidateListingIdCache()` for the Listings it
+ * creates. Other processes drop their in-memory entries when these expire.
+ */
+
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger, rootLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The cached outcome of one Listing lookup.
+ */
+export interface CachedListing {
+  /** Null when no Listing has the external_listing_id */
+  listingId: string | null;
+  ownerId?: string;
+}
+
+export interface ListingIdCacheEntry extends CachedListing {
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * A persistent backend for the cache, keyed by external_listing_id. Expired
+ * entries may be returned; the cache checks `expiresAt`.
+ */
+export interface ListingIdCacheStore {
+  get(externalListingId: string): Promise<ListingIdCacheEntry | undefined>;
+  set(externalListingId: string, entry: ListingIdCacheEntry): Promise<void>;
+  delete(externalListingId: string): Promise<void>;
+  /** Removes every entry */
+  clear(): Promise<void>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_NEGATIVE_TTL_SECONDS = 60;
+
+/**
+ * Expired in-memory entries are swept once the cache grows past this many keys.
+ */
+const MEMORY_SWEEP_THRESHOLD = 10000;
+
+/**
+ * external_listing_ids are numeric assetIds; anything else is not cached in
+ * the file store, since it names a file.
+ */
+const FILE_STORE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const cacheLogger = rootLogger.child({ component: 'listing-id-cache' });
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+function getCacheDir(): string {
+  return path.resolve(process.env.LISTING_ID_CACHE_DIR || '.data/listing-id-cache');
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Persistent store that keeps one JSON file per entry. Writes are atomic
+ * (temp file, then rename).
+ */
+export const fileListingIdCacheStore: ListingIdCacheStore = {
+  async get(externalListingId) {
+    if (!FILE_STORE_KEY_PATTERN.test(externalListingId)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await readFile(path.join(getCacheDir(), `${externalListingId}.json`), 'utf8'));
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  },
+
+  async set(externalListingId, entry) {
+    if (!FILE_STORE_KEY_PATTERN.test(externalListingId)) {
+      return;
+    }
+    const filePath = path.join(getCacheDir(), `${externalListingId}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await mkdir(getCacheDir(), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await rename(tempPath, filePath);
+  },
+
+  async delete(externalListingId) {
+    if (!FILE_STORE_KEY_PATTERN.test(externalListingId)) {
+      return;
+    }
+    await unlink(path.join(getCacheDir(), `${externalListingId}.json`)).catch(error => {
+      if (!isMissingFileError(error)) {
+        throw error;
+      }
+    });
+  },
+
+  async clear() {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(getCacheDir());
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return;
+      }
+      throw error;
+    }
+    await Promise.all(
+      fileNames
+        .filter(name => name.endsWith('.json'))
+        .map(name => unlink(path.join(getCacheDir(), name)).catch(() => undefined))
+    );
+  },
+};
+
+// ============================================================================
+// Active Store
+// ============================================================================
+
+let activeStore: ListingIdCacheStore | null | undefined;
+
+function createDefaultStore(): ListingIdCacheStore | null {
+  const configured = process.env.LISTING_ID_CACHE_STORE;
+  if (!configured) {
+    return null;
+  }
+  if (configured === 'file') {
+    return fileListingIdCacheStore;
+  }
+  throw new Error(`LISTING_ID_CACHE_STORE is set to an unknown store: ${configured}`);
+}
+
+/**
+ * Returns the configured persistent store, or null when the cache is memory only.
+ */
+export function getListingIdCacheStore(): ListingIdCacheStore | null {
+  if (activeStore === undefined) {
+    activeStore = createDefaultStore();
+  }
+  return activeStore;
+}
+
+/**
+ * Replaces the persistent store, e.g. with a shared cache service. Pass
+ * `null` for a memory-only cache, or `undefined` to go back to the
+ * environment-configured store.
+ */
+export function setListingIdCacheStore(store: ListingIdCacheStore | null | undefined): void {
+  activeStore = store;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+/**
+ * Entries live on globalThis so that every route bundle in the process
+ * shares them.
+ */
+const globalForListingIdCache = globalThis as typeof globalThis & {
+  listingIdCacheEntries?: Map<string, ListingIdCacheEntry>;
+};
+const memoryEntries = (globalForListingIdCache.listingIdCacheEntries ??= new Map<string, ListingIdCacheEntry>());
+
+function getTtlMs(envVar: string, defaultSeconds: number): number {
+  const seconds = parseInt(process.env[envVar] || '', 10);
+  return (Number.isInteger(seconds) && seconds >= 0 ? seconds : defaultSeconds) * 1000;
+}
+
+function setMemoryEntry(externalListingId: string, entry: ListingIdCacheEntry, now: number): void {
+  if (memoryEntries.size > MEMORY_SWEEP_THRESHOLD) {
+    for (const [key, existing] of memoryEntries) {
+      if (existing.expiresAt <= now) {
+        memoryEntries.delete(key);
+      }
+    }
+  }
+  memoryEntries.set(externalListingId, entry);
+}
+
+/**
+ * Returns the cached lookup outcome for an external_listing_id, or undefined
+ * when there is no live entry.
+ */
+export async function getCachedListing(
+  externalListingId: string,
+  logger: Logger = cacheLogger,
+  now: number = Date.now()
+): Promise<CachedListing | undefined> {
+  const memoryEntry = memoryEntries.get(externalListingId);
+  if (memoryEntry && memoryEntry.expiresAt > now) {
+    return { listingId: memoryEntry.listingId, ownerId: memoryEntry.ownerId };
+  }
+  memoryEntries.delete(externalListingId);
+
+  const store = getListingIdCacheStore();
+  if (!store) {
+    return undefined;
+  }
+
+  try {
+    const storedEntry = await store.get(externalListingId);
+    if (!storedEntry || storedEntry.expiresAt <= now) {
+      return undefined;
+    }
+    setMemoryEntry(externalListingId, storedEntry, now);
+    return { listingId: storedEntry.listingId, ownerId: storedEntry.ownerId };
+  } catch (error) {
+    logger.warn('Listing ID cache store read failed', { externalListingId, error });
+    return undefined;
+  }
+}
+
+/**
+ * Caches a lookup outcome: a found Listing for the full TTL, or `listingId:
+ * null` (not found) for the negative TTL. A TTL of 0 disables that kind of
+ * entry.
+ */
+export async function cacheListing(
+  externalListingId: string,
+  listing: CachedListing,
+  logger: Logger = cacheLogger,
+  now: number = Date.now()
+): Promise<void> {
+  const ttlMs = listing.listingId
+    ? getTtlMs('LISTING_ID_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS)
+    : getTtlMs('LISTING_ID_CACHE_NEGATIVE_TTL_SECONDS', DEFAULT_NEGATIVE_TTL_SECONDS);
+  if (ttlMs === 0) {
+    return;
+  }
+
+  const entry: ListingIdCacheEntry = {
+    listingId: listing.listingId,
+    ...(listing.ownerId ? { ownerId: listing.ownerId } : {}),
+    expiresAt: now + ttlMs,
+  };
+  setMemoryEntry(externalListingId, entry, now);
+
+  try {
+    await getListingIdCacheStore()?.set(externalListingId, entry);
+  } catch (error) {
+    logger.warn('Listing ID cache store write failed', { externalListingId, error });
+  }
+}
+
+/**
+ * Drops cached lookups, e.g. after Listings were created or deleted in
+ * HubSpot, so the next lookup searches again.
+ *
+ * @param externalListingIds - The IDs to drop; every entry when omitted
+ */
+export async function invalidateListingIdCache(
+  externalListingIds?: string[],
+  logger: Logger = cacheLogger
+): Promise<void> {
+  const store = getListingIdCacheStore();
+
+  try {
+    if (!externalListingIds) {
+      memoryEntries.clear();
+      await store?.clear();
+      return;
+    }
+
+    for (const externalListingId of externalListingIds) {
+      memoryEntries.delete(externalListingId);
+      await store?.delete(externalListingId);
+    }
+  } catch (error) {
+    logger.warn('Listing ID cache store invalidation failed', { error });
+  }
+}
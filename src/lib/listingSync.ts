@@ -0,0 +1,409 @@
+/**
+ * HubSpot Listing Sync
+ *
+ * Upserts the property catalog into HubSpot's Listings object (0-420), keyed
+ * on `external_listing_id` (the feed's `assetId`, see DATA_MAPPING.md), so
+ * that every property on the site has a Listing for `findListingByExternalId`
+ * to find and for contacts to be associated with.
+ *
+ * For each batch of up to 100 properties:
+ *
+ * 1. Existing Listings are looked up with one search on external_listing_id
+ * 2. Properties without a Listing are created with the batch create endpoint
+ * 3. Listings whose synced properties differ from the catalog are updated with
+ *    the batch update endpoint; only the changed properties are sent
+ * 4. Listings that already match are left alone
+ *
+ * In a dry run the lookups still happen, but nothing is written; the result
+ * reports what would be created and updated.
+ *
+ * Created Listings are dropped from the listing ID cache (lib/listingIdCache.ts),
+ * which may hold a "not found" entry for them.
+ *
+ * Run with `npm run sync-listings` (see scripts/sync-listings.ts). Only the
+ * properties in LISTING_SYNC_PROPERTIES are written; other Listing
+ * properties (such as the owner) are never touched.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+import { HubSpotOperationResult } from '@/lib/hubspot';
+import { HUBSPOT_OBJECT_TYPE_IDS } from '@/lib/hubspotAssociations';
+import { getHubSpotClient, isRetryableError, isRetryableResponse } from '@/lib/hubspotClient';
+import { invalidateListingIdCache } from '@/lib/listingIdCache';
+import { Logger, rootLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the sync did (or, in a dry run, would do) for one catalog property.
+ */
+export type ListingSyncAction = 'create' | 'update' | 'unchanged';
+
+export interface ListingSyncChange {
+  externalListingId: string;
+  /** Not set when the existing Listing could not be looked up */
+  action?: ListingSyncAction;
+  /** The HubSpot Listing ID; not set for creates in a dry run */
+  listingId?: string;
+  /** For updates: the synced properties whose values changed */
+  changedProperties?: string[];
+  /** Set when the create or update failed */
+  error?: string;
+}
+
+export interface ListingSyncOptions {
+  /** Look up and compare, but do not create or update anything */
+  dryRun?: boolean;
+}
+
+export interface ListingSyncResult extends HubSpotOperationResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  changes: ListingSyncChange[];
+}
+
+interface ExistingListing {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * The Listing properties written by the sync. All of them must exist on the
+ * Listings object in HubSpot.
+ */
+export const LISTING_SYNC_PROPERTIES = [
+  'external_listing_id',
+  'name',
+  'price',
+  'listing_status',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'reference_id',
+] as const;
+
+export type ListingSyncProperty = (typeof LISTING_SYNC_PROPERTIES)[number];
+
+/**
+ * HubSpot's limit for batch create/update inputs and for IN filter values.
+ */
+const SYNC_BATCH_SIZE = 100;
+
+const syncLogger = rootLogger.child({ component: 'listing-sync' });
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Maps a catalog property to the Listing properties kept in sync.
+ *
+ * - price is cleared for unpriced listings (Coming Soon, auctions without a
+ *   price), which the catalog stores as 0
+ * - reference_id is the feed's assetReferenceId; it is never used for lookups
+ */
+export function toListingProperties(property: Property): Record<ListingSyncProperty, string> {
+  const address = property.addressLine2 ? `${property.address} ${property.addressLine2}` : property.address;
+  return {
+    external_listing_id: property.id,
+    name: `${property.address}, ${property.city}, ${property.state}`,
+    price: property.price > 0 ? String(property.price) : '',
+    listing_status: property.status,
+    address,
+    city: property.city,
+    state: property.state,
+    zip: property.zipCode,
+    reference_id: property.referenceId ?? '',
+  };
+}
+
+/**
+ * Compares one synced property. Missing and empty values are equal, and
+ * numbers are compared by value since HubSpot may format them differently
+ * (e.g. "125000.0").
+ */
+function isSameValue(property: ListingSyncProperty, current: string | null | undefined, desired: string): boolean {
+  const currentValue = current ?? '';
+  if (property === 'price' && currentValue !== '' && desired !== '') {
+    return Number(currentValue) === Number(desired);
+  }
+  return currentValue === desired;
+}
+
+/**
+ * Returns the synced properties whose values differ from the catalog.
+ */
+function getChangedProperties(
+  existing: ExistingListing,
+  desired: Record<ListingSyncProperty, string>
+): ListingSyncProperty[] {
+  return LISTING_SYNC_PROPERTIES.filter(name => !isSameValue(name, existing.properties[name], desired[name]));
+}
+
+// ============================================================================
+// HubSpot Calls
+// ============================================================================
+
+/**
+ * Finds the existing Listings for a batch of external listing IDs, following
+ * search pages until all are read. When HubSpot has more than one Listing for
+ * an ID, the first is kept and a warning logged.
+ */
+async function findListingsByExternalIds(
+  externalListingIds: string[],
+  logger: Logger
+): Promise<{ success: true; listings: Map<string, ExistingListing> } | { success: false; error: string; retryable: boolean }> {
+  const listings = new Map<string, ExistingListing>();
+  let after: string | undefined;
+
+  try {
+    do {
+      const response = await getHubSpotClient().searchObjects(HUBSPOT_OBJECT_TYPE_IDS.listing, {
+        filterGroups: [
+          {
+            filters: [{ propertyName: 'external_listing_id', operator: 'IN', values: externalListingIds }],
+          },
+        ],
+        properties: [...LISTING_SYNC_PROPERTIES],
+        limit: SYNC_BATCH_SIZE,
+        ...(after ? { after } : {}),
+      }, logger);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        logger.error('HubSpot listing search API error', { status: response.status, error: errorData });
+        return {
+          success: false,
+          error: `HubSpot API error: ${response.status} ${response.statusText}`,
+          retryable: isRetryableResponse(response),
+        };
+      }
+
+      const result = await response.json();
+      for (const record of result.results ?? []) {
+        const externalListingId = record.properties?.external_listing_id;
+        if (!externalListingId) {
+          continue;
+        }
+        if (listings.has(externalListingId)) {
+          logger.warn('Duplicate HubSpot Listings for external_listing_id; updating the first', {
+            externalListingId,
+            listingId: listings.get(externalListingId)?.id,
+            duplicateListingId: record.id,
+          });
+          continue;
+        }
+        listings.set(externalListingId, { id: record.id, properties: record.properties });
+      }
+
+      after = result.paging?.next?.after;
+    } while (after);
+  } catch (error) {
+    logger.error('Error searching HubSpot Listings', { error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      retryable: isRetryableError(error),
+    };
+  }
+
+  return { success: true, listings };
+}
+
+/**
+ * Reads a batch response. Returns the records HubSpot wrote, or the error
+ * when the whole call failed. Partial failures (207) return the records that
+ * were written; the caller treats the rest as failed.
+ */
+async function readBatchResponse(
+  response: Response,
+  operation: string,
+  logger: Logger
+): Promise<{ results: ExistingListing[]; error?: string; retryable?: boolean }> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    logger.error(`HubSpot listing batch ${operation} API error`, { status: response.status, error: errorData });
+    return {
+      results: [],
+      error: `HubSpot API error: ${response.status} ${response.statusText}`,
+      retryable: isRetryableResponse(response),
+    };
+  }
+
+  const result = await response.json();
+  if (Array.isArray(result.errors) && result.errors.length > 0) {
+    logger.warn(`HubSpot listing batch ${operation} partially failed`, { errors: result.errors });
+  }
+  return { results: result.results ?? [] };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Creates or updates one batch of Listings and records the outcome of each
+ * change. Changes are edited in place; their error is set when they failed.
+ *
+ * @returns True when a failure was transient, so a later run may succeed
+ */
+async function applyBatch(
+  creates: ListingSyncChange[],
+  updates: ListingSyncChange[],
+  desiredById: Map<string, Record<ListingSyncProperty, string>>,
+  logger: Logger
+): Promise<boolean> {
+  const client = getHubSpotClient();
+  let retryable = false;
+
+  if (creates.length > 0) {
+    try {
+      const response = await client.batchCreateObjects(
+        HUBSPOT_OBJECT_TYPE_IDS.listing,
+        creates.map(change => ({ properties: desiredById.get(change.externalListingId)! })),
+        logger
+      );
+      const { results, error, retryable: createRetryable } = await readBatchResponse(response, 'create', logger);
+      retryable ||= createRetryable ?? false;
+      const createdIds = new Map(results.map(record => [record.properties.external_listing_id, record.id]));
+      for (const change of creates) {
+        change.listingId = createdIds.get(change.externalListingId);
+        if (!change.listingId) {
+          change.error = error ?? 'HubSpot did not create the Listing';
+        }
+      }
+    } catch (error) {
+      logger.error('Error creating HubSpot Listings', { error });
+      retryable ||= isRetryableError(error);
+      creates.forEach(change => { change.error = error instanceof Error ? error.message : 'Unknown error occurred'; });
+    }
+  }
+
+  if (updates.length > 0) {
+    try {
+      const response = await client.batchUpdateObjects(
+        HUBSPOT_OBJECT_TYPE_IDS.listing,
+        updates.map(change => {
+          const desired = desiredById.get(change.externalListingId)!;
+          return {
+            id: change.listingId as string,
+            properties: Object.fromEntries(
+              (change.changedProperties as ListingSyncProperty[]).map(name => [name, desired[name]])
+            ),
+          };
+        }),
+        logger
+      );
+      const { results, error, retryable: updateRetryable } = await readBatchResponse(response, 'update', logger);
+      retryable ||= updateRetryable ?? false;
+      const updatedIds = new Set(results.map(record => record.id));
+      for (const change of updates) {
+        if (!updatedIds.has(change.listingId as string)) {
+          change.error = error ?? 'HubSpot did not update the Listing';
+        }
+      }
+    } catch (error) {
+      logger.error('Error updating HubSpot Listings', { error });
+      retryable ||= isRetryableError(error);
+      updates.forEach(change => { change.error = error instanceof Error ? error.message : 'Unknown error occurred'; });
+    }
+  }
+
+  return retryable;
+}
+
+/**
+ * Upserts catalog properties into HubSpot Listings (see the module header).
+ *
+ * Batches are independent: a failed batch is reported and the sync moves on
+ * to the next one. The result fails when any change failed.
+ *
+ * @param catalog - The normalized property catalog
+ * @param options - `dryRun` to only report what would change
+ * @param logger - Logger for the run
+ * @returns Counts of created, updated, unchanged and failed Listings, with every change
+ */
+export async function syncListings(
+  catalog: Property[],
+  options: ListingSyncOptions = {},
+  logger: Logger = syncLogger
+): Promise<ListingSyncResult> {
+  const dryRun = options.dryRun ?? false;
+  const changes: ListingSyncChange[] = [];
+  let retryable = false;
+
+  logger.info('Starting HubSpot listing sync', { properties: catalog.length, dryRun });
+
+  for (let start = 0; start < catalog.length; start += SYNC_BATCH_SIZE) {
+    const batch = catalog.slice(start, start + SYNC_BATCH_SIZE);
+    const desiredById = new Map(batch.map(property => [property.id, toListingProperties(property)]));
+
+    const existing = await findListingsByExternalIds([...desiredById.keys()], logger);
+    if (!existing.success) {
+      retryable ||= existing.retryable;
+      for (const externalListingId of desiredById.keys()) {
+        changes.push({ externalListingId, error: existing.error });
+      }
+      continue;
+    }
+
+    const creates: ListingSyncChange[] = [];
+    const updates: ListingSyncChange[] = [];
+
+    for (const [externalListingId, desired] of desiredById) {
+      const listing = existing.listings.get(externalListingId);
+      if (!listing) {
+        creates.push({ externalListingId, action: 'create' });
+        continue;
+      }
+
+      const changedProperties = getChangedProperties(listing, desired);
+      if (changedProperties.length === 0) {
+        changes.push({ externalListingId, action: 'unchanged', listingId: listing.id });
+      } else {
+        updates.push({ externalListingId, action: 'update', listingId: listing.id, changedProperties });
+      }
+    }
+
+    if (!dryRun) {
+      retryable = (await applyBatch(creates, updates, desiredById, logger)) || retryable;
+      await invalidateListingIdCache(creates.map(change => change.externalListingId), logger);
+    }
+    changes.push(...creates, ...updates);
+  }
+
+  const failed = changes.filter(change => change.error).length;
+  const countSucceeded = (action: ListingSyncAction) =>
+    changes.filter(change => change.action === action && !change.error).length;
+
+  const result: ListingSyncResult = {
+    success: failed === 0,
+    dryRun,
+    created: countSucceeded('create'),
+    updated: countSucceeded('update'),
+    unchanged: countSucceeded('unchanged'),
+    failed,
+    changes,
+    ...(failed > 0 ? { error: `${failed} Listings could not be synced`, retryable } : {}),
+  };
+
+  logger.info('Finished HubSpot listing sync', {
+    dryRun,
+    created: result.created,
+    updated: result.updated,
+    unchanged: result.unchanged,
+    failed,
+  });
+
+  return result;
+}
@@ -0,0 +1,257 @@
+/**
+ * Structured Logger
+ *
+ * Server-side logger that writes one JSON object per line, so log entries can
+ * be searched and filtered by field in the hosting platform's log viewer:
+ *
+ *   {"timestamp":"…","level":"warn","message":"…","correlationId":"…","listingId":"…"}
+ *
+ * - Levels: debug, info, warn, error. Entries below LOG_LEVEL (default: info)
+ *   are dropped.
+ * - Correlation: API routes create a logger per request with
+ *   `createRequestLogger()`, which binds a correlation ID (taken from the
+ *   incoming X-Correlation-Id / X-Request-Id header, or generated). The logger
+ *   is passed down to every HubSpot helper and the HubSpot client, so all
+ *   entries for one submission share the ID; `child()` binds further fields
+ *   such as a submission ID.
+ * - PII redaction: email addresses and phone numbers are replaced before an
+ *   entry is written, both in fields named like `email`/`phone` and inside any
+ *   other string (error messages, HubSpot error bodies).
+ */
+
+import { randomUUID } from 'crypto';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log entry. Error values are serialized with
+ * their name, message and stack.
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  /** The correlation ID bound to this logger, if any */
+  readonly correlationId?: string;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Returns a logger that adds `fields` to every entry */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Logger for one API request; always bound to a correlation ID.
+ */
+export interface RequestLogger extends Logger {
+  readonly correlationId: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Response header that carries the request's correlation ID back to the
+ * caller, so a failed submission can be found in the logs.
+ */
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * Incoming headers accepted as a caller-supplied correlation ID, in order of
+ * preference.
+ */
+const INCOMING_CORRELATION_ID_HEADERS = ['x-correlation-id', 'x-request-id'];
+
+/**
+ * Caller-supplied IDs must look like an ID; anything else is replaced with a
+ * generated one rather than being written to the logs.
+ */
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+/**
+ * Field names whose values are always redacted, whatever they contain.
+ */
+const PII_FIELD_PATTERN = /email|phone|mobile/i;
+
+const EMAIL_PATTERN = /[^\s@"'<>(),;:]+@[^\s@"'<>(),;:]+\.[A-Za-z]{2,}/g;
+
+/**
+ * International numbers (+ followed by digits) and North American numbers
+ * written with separators, e.g. "(555) 123-4567" or "555.123.4567". Bare digit
+ * runs are not matched, since HubSpot record IDs look the same.
+ */
+const PHONE_PATTERN = /\+\d[\d\s().-]{6,}\d|\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Nested fields beyond this depth are summarized rather than serialized.
+ */
+const MAX_FIELD_DEPTH = 6;
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Replaces email addresses and phone numbers within a string.
+ */
+export function redactString(value: string): string {
+  return value
+    .replace(EMAIL_PATTERN, '[REDACTED_EMAIL]')
+    .replace(PHONE_PATTERN, '[REDACTED_PHONE]');
+}
+
+/**
+ * Returns a JSON-safe copy of a log field value with PII redacted.
+ */
+function sanitize(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+
+  if (depth >= MAX_FIELD_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {}),
+      ...(value.cause !== undefined ? { cause: sanitize(value.cause, depth + 1, seen) } : {}),
+    };
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item, depth + 1, seen));
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    sanitized[key] = PII_FIELD_PATTERN.test(key) && fieldValue !== undefined && fieldValue !== null
+      ? REDACTED
+      : sanitize(fieldValue, depth + 1, seen);
+  }
+  return sanitized;
+}
+
+/**
+ * Redacts PII from a set of log fields.
+ */
+export function redactFields(fields: LogFields): LogFields {
+  return sanitize(fields, 0, new WeakSet()) as LogFields;
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+function getMinimumLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.toLowerCase();
+  return configured && configured in LOG_LEVEL_PRIORITY ? configured as LogLevel : DEFAULT_LOG_LEVEL;
+}
+
+function writeEntry(level: LogLevel, message: string, bindings: LogFields, fields?: LogFields): void {
+  if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[getMinimumLevel()]) {
+    return;
+  }
+
+  const entry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message: redactString(message),
+    ...redactFields({ ...bindings, ...fields }),
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ timestamp: entry.timestamp, level, message: entry.message, logError: 'Fields could not be serialized' });
+  }
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Creates a logger that adds `bindings` (e.g. a correlation ID or component
+ * name) to every entry.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    correlationId: typeof bindings.correlationId === 'string' ? bindings.correlationId : undefined,
+    debug: (message, fields) => writeEntry('debug', message, bindings, fields),
+    info: (message, fields) => writeEntry('info', message, bindings, fields),
+    warn: (message, fields) => writeEntry('warn', message, bindings, fields),
+    error: (message, fields) => writeEntry('error', message, bindings, fields),
+    child: fields => createLogger({ ...bindings, ...fields }),
+  };
+}
+
+/**
+ * Logger for code that runs outside a request (startup, background workers)
+ * and the default for helpers called without a request logger.
+ */
+export const rootLogger = createLogger();
+
+// ============================================================================
+// Request Correlation
+// ============================================================================
+
+/**
+ * Returns the caller-supplied correlation ID from the request headers when it
+ * is well-formed, or a new random ID.
+ */
+export function getCorrelationId(headers: Headers): string {
+  for (const name of INCOMING_CORRELATION_ID_HEADERS) {
+    const value = headers.get(name)?.trim();
+    if (value && CORRELATION_ID_PATTERN.test(value)) {
+      return value;
+    }
+  }
+  return randomUUID();
+}
+
+/**
+ * Creates the logger for one API request, bound to the request's correlation
+ * ID and the route that handles it.
+ */
+export function createRequestLogger(request: Request, route: string): RequestLogger {
+  const correlationId = getCorrelationId(request.headers);
+  return { ...createLogger({ correlationId, route }), correlationId };
+}
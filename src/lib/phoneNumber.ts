@@ -0,0 +1,120 @@
+/**
+ * Phone Number Parsing
+ *
+ * Normalizes phone numbers to E.164 (e.g. "+15555555555") so that every
+ * formatting of the same number reaches HubSpot as the same string.
+ *
+ * - US/NANP numbers are accepted in any common format: "(555) 555-5555",
+ *   "555.555.5555", "+1 555 555 5555", "1-555-555-5555"
+ * - International numbers must start with "+" (or "00") and the country code
+ *   (e.g. "+44 20 7946 0958"). Only their length is checked, since
+ *   per-country numbering plans are not bundled
+ *
+ * Used by the API routes to validate and normalize submissions, and by the
+ * forms to show the same validation before submitting.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PhoneNumberParseResult =
+  | { valid: true; e164: string }
+  | { valid: false; message: string };
+
+export interface PhoneNumberParseOptions {
+  /** Accept numbers outside the North American Numbering Plan (default: true) */
+  allowInternational?: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Characters people use to format phone numbers; anything else (letters,
+ * extensions) makes the input invalid.
+ */
+const PHONE_FORMATTING_PATTERN = /[\s().\-/]/g;
+
+/**
+ * NANP: a 3-digit area code and 3-digit exchange, each starting with 2-9 and
+ * not an N11 service code (211-911), then a 4-digit line number.
+ */
+const NANP_PATTERN = /^(?!\d11)[2-9]\d{2}(?!\d11)[2-9]\d{2}\d{4}$/;
+
+/**
+ * E.164 allows at most 15 digits including the country code; fewer than 8
+ * is not a dialable international number.
+ */
+const MIN_INTERNATIONAL_DIGITS = 8;
+const MAX_INTERNATIONAL_DIGITS = 15;
+
+const US_FORMAT_MESSAGE = 'Phone number must be a valid 10-digit US number, e.g. (555) 123-4567';
+const INTERNATIONAL_FORMAT_MESSAGE = 'Phone number must be a valid US number, or an international number starting with + and the country code';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses a phone number and returns it in E.164 format.
+ *
+ * @param input - The phone number as entered
+ * @returns The E.164 number, or a message suitable for a field-level validation error
+ */
+export function parsePhoneNumber(input: string, options: PhoneNumberParseOptions = {}): PhoneNumberParseResult {
+  const allowInternational = options.allowInternational ?? true;
+  const invalidMessage = allowInternational ? INTERNATIONAL_FORMAT_MESSAGE : US_FORMAT_MESSAGE;
+
+  let digits = input.trim().replace(PHONE_FORMATTING_PATTERN, '');
+  let hasCountryCode = false;
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+    hasCountryCode = true;
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+    hasCountryCode = true;
+  }
+
+  if (!/^\d+$/.test(digits)) {
+    return { valid: false, message: invalidMessage };
+  }
+
+  // NANP numbers: 10 digits, optionally preceded by the country code 1
+  const isNanpLength = digits.length === 10 || (digits.length === 11 && digits.startsWith('1'));
+  if ((!hasCountryCode && isNanpLength) || (hasCountryCode && digits.startsWith('1'))) {
+    const nationalNumber = digits.length === 11 ? digits.slice(1) : digits;
+    if (NANP_PATTERN.test(nationalNumber)) {
+      return { valid: true, e164: `+1${nationalNumber}` };
+    }
+    return { valid: false, message: invalidMessage };
+  }
+
+  if (!hasCountryCode || !allowInternational) {
+    return { valid: false, message: invalidMessage };
+  }
+
+  if (
+    digits.startsWith('0') ||
+    digits.length < MIN_INTERNATIONAL_DIGITS ||
+    digits.length > MAX_INTERNATIONAL_DIGITS
+  ) {
+    return { valid: false, message: invalidMessage };
+  }
+
+  return { valid: true, e164: `+${digits}` };
+}
+
+/**
+ * Field-level check for an optional phone input, as used by the forms.
+ *
+ * @returns The validation message, or undefined when the input is empty or valid
+ */
+export function getPhoneNumberError(input: string): string | undefined {
+  if (input.trim() === '') {
+    return undefined;
+  }
+  const parsed = parsePhoneNumber(input);
+  return parsed.valid ? undefined : parsed.message;
+}
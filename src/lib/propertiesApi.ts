@@ -0,0 +1,150 @@
+/**
+ * Public Listings API Helpers
+ *
+ * Shared types and HTTP helpers for the read-only `/api/properties` endpoints.
+ * See PROPERTIES_API.md for the documented response envelope.
+ *
+ * Responses carry `ETag` and `Last-Modified` headers so that partners can make
+ * conditional requests (`If-None-Match` / `If-Modified-Since`) and receive a
+ * 304 Not Modified when the catalog has not changed.
+ */
+
+import { createHash } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Property } from '@/components/PropertyCard';
+import type { Facet, FacetSelection } from '@/lib/propertyFacets';
+import type { PropertyFilters, PropertySort } from '@/lib/propertySearch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Version of the response envelope. Bump on breaking changes to the shape.
+ */
+export const API_VERSION = '1';
+
+export interface PropertiesListMeta {
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  sort: PropertySort;
+  filters: PropertyFilters;
+  facetSelection: FacetSelection;
+  /** Only present when the request includes `facets=true` */
+  facets?: Facet[];
+}
+
+export interface PropertiesListLinks {
+  self: string;
+  first: string;
+  last: string;
+  prev: string | null;
+  next: string | null;
+}
+
+export interface PropertiesListResponse {
+  success: true;
+  apiVersion: string;
+  data: Property[];
+  meta: PropertiesListMeta;
+  links: PropertiesListLinks;
+}
+
+export interface PropertyDetailResponse {
+  success: true;
+  apiVersion: string;
+  data: Property;
+  links: { self: string; html: string };
+}
+
+export interface ApiErrorResponse {
+  success: false;
+  apiVersion: string;
+  message: string;
+}
+
+// ============================================================================
+// Conditional Responses
+// ============================================================================
+
+/**
+ * Returns the `Last-Modified` value for the catalog: the time it was
+ * imported, since listing dates do not change when an import updates an
+ * existing listing. Falls back to the Unix epoch when the time is unknown.
+ *
+ * @param importedAt - The catalog's `importedAt` timestamp
+ */
+export function getLastModified(importedAt: string | undefined): Date {
+  const time = importedAt ? Date.parse(importedAt) : NaN;
+  // HTTP dates have one-second resolution
+  return new Date(Number.isNaN(time) ? 0 : Math.floor(time / 1000) * 1000);
+}
+
+/**
+ * Checks the request's conditional headers against the response validators.
+ * `If-None-Match` takes precedence over `If-Modified-Since` (RFC 9110).
+ */
+function isNotModified(request: NextRequest, etag: string, lastModified: Date): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map(tag => tag.trim())
+      .some(tag => tag === '*' || tag === etag || tag === `W/${etag}`);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && lastModified.getTime() <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Builds a JSON response with `ETag`, `Last-Modified` and `Cache-Control`
+ * headers, or a 304 Not Modified when the client's copy is current.
+ *
+ * @param request - The incoming request (for conditional headers)
+ * @param body - The response body
+ * @param lastModified - When the underlying data last changed
+ */
+export function cachedJsonResponse<T>(
+  request: NextRequest,
+  body: T,
+  lastModified: Date
+): NextResponse<T> {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha1').update(json).digest('base64url')}"`;
+  const headers = {
+    'ETag': etag,
+    'Last-Modified': lastModified.toUTCString(),
+    'Cache-Control': 'public, max-age=60, must-revalidate',
+  };
+
+  if (isNotModified(request, etag, lastModified)) {
+    return new NextResponse(null, { status: 304, headers }) as NextResponse<T>;
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  }) as NextResponse<T>;
+}
+
+/**
+ * Builds an error response in the versioned envelope.
+ */
+export function apiErrorResponse(message: string, status: number): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    {
+      success: false,
+      apiVersion: API_VERSION,
+      message,
+    },
+    { status }
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * Property Facets
+ *
+ * This module implements faceted search over the property catalog. It is shared
+ * by the /search page and the listings API so both report identical counts.
+ *
+ * Semantics:
+ * - Values selected within one facet are OR'ed (e.g. state=TX&state=FL)
+ * - Facets are AND'ed with each other
+ * - Each facet's counts are computed with every *other* facet applied, so a
+ *   facet never collapses to only its selected values
+ *
+ * Facet selections are read from repeated query parameters named after the
+ * facet key, e.g. `?state=TX&bedrooms=3&price=100k-200k&auction=yes`.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+import { SearchParams } from '@/lib/propertySearch';
+import { getStateName } from '@/lib/usStates';
+import { isPropertyType, PROPERTY_TYPE_LABELS, PROPERTY_TYPES } from '@/lib/propertyTypes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FacetKey =
+  | 'state'
+  | 'county'
+  | 'city'
+  | 'type'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'price'
+  | 'status'
+  | 'auction'
+  | 'financing';
+
+export type FacetSelection = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface Facet {
+  key: FacetKey;
+  label: string;
+  values: FacetValue[];
+}
+
+interface FacetDefinition {
+  key: FacetKey;
+  label: string;
+  /** Returns the facet value a property falls into, or undefined if none */
+  getValue: (property: Property) => string | undefined;
+  getLabel: (value: string) => string;
+  /**
+   * Canonical form of a selected value, so that e.g. `state=tx` selects the
+   * same properties as `state=TX`. Values are used as given when unset.
+   */
+  normalize?: (value: string) => string;
+  /**
+   * Fixed value order. Facets without one (state, county, city) are sorted
+   * by descending count, then label.
+   */
+  order?: string[];
+}
+
+// ============================================================================
+// Facet Definitions
+// ============================================================================
+
+/**
+ * Price bands, in display order. `max` is exclusive.
+ * Properties without a published price fall into the "unpriced" band.
+ */
+const PRICE_BANDS: { value: string; label: string; min: number; max: number }[] = [
+  { value: 'under-50k', label: 'Under $50k', min: 1, max: 50000 },
+  { value: '50k-100k', label: '$50k - $100k', min: 50000, max: 100000 },
+  { value: '100k-200k', label: '$100k - $200k', min: 100000, max: 200000 },
+  { value: '200k-300k', label: '$200k - $300k', min: 200000, max: 300000 },
+  { value: '300k-500k', label: '$300k - $500k', min: 300000, max: 500000 },
+  { value: '500k-plus', label: '$500k+', min: 500000, max: Infinity },
+];
+
+const UNPRICED_BAND = { value: 'unpriced', label: 'Price Not Yet Published' };
+
+const STATUS_LABELS: Record<Property['status'], string> = {
+  'available': 'For Sale',
+  'coming-soon': 'Coming Soon',
+  'sold': 'Sold',
+};
+
+/**
+ * Bedrooms and bathrooms are bucketed so that rare large values share one option.
+ * Bathrooms are bucketed by full baths (2.5 baths counts as 2).
+ */
+const MAX_BEDROOM_BUCKET = 5;
+const MAX_BATHROOM_BUCKET = 4;
+
+function bucketCount(value: number, max: number): string {
+  const whole = Math.floor(value);
+  return whole >= max ? `${max}+` : String(whole);
+}
+
+function bucketOrder(max: number): string[] {
+  return [...Array.from({ length: max }, (_, n) => String(n)), `${max}+`];
+}
+
+function pluralize(value: string, singular: string, plural: string): string {
+  return `${value} ${value === '1' ? singular : plural}`;
+}
+
+const FACET_DEFINITIONS: FacetDefinition[] = [
+  {
+    key: 'state',
+    label: 'State',
+    getValue: property => property.state,
+    getLabel: getStateName,
+    normalize: value => value.toUpperCase(),
+  },
+  {
+    key: 'county',
+    label: 'County',
+    // County and city names repeat across states, so values carry the state
+    getValue: property => (property.county ? `${property.county}, ${property.state}` : undefined),
+    getLabel: value => {
+      const [county, state] = value.split(', ');
+      return `${county} County, ${state}`;
+    },
+  },
+  {
+    key: 'city',
+    label: 'City',
+    getValue: property => `${property.city}, ${property.state}`,
+    getLabel: value => value,
+  },
+  {
+    key: 'type',
+    label: 'Property Type',
+    getValue: property => property.propertyType,
+    getLabel: value => (isPropertyType(value) ? PROPERTY_TYPE_LABELS[value] : value),
+    normalize: value => value.toLowerCase(),
+    order: PROPERTY_TYPES,
+  },
+  {
+    key: 'bedrooms',
+    label: 'Bedrooms',
+    getValue: property => bucketCount(property.bedrooms, MAX_BEDROOM_BUCKET),
+    getLabel: value => pluralize(value, 'bed', 'beds'),
+    order: bucketOrder(MAX_BEDROOM_BUCKET),
+  },
+  {
+    key: 'bathrooms',
+    label: 'Bathrooms',
+    getValue: property => bucketCount(property.bathrooms, MAX_BATHROOM_BUCKET),
+    getLabel: value => pluralize(value, 'bath', 'baths'),
+    order: bucketOrder(MAX_BATHROOM_BUCKET),
+  },
+  {
+    key: 'price',
+    label: 'Price',
+    getValue: property => {
+      if (property.price <= 0) {
+        return UNPRICED_BAND.value;
+      }
+      return PRICE_BANDS.find(band => property.price >= band.min && property.price < band.max)?.value;
+    },
+    getLabel: value =>
+      PRICE_BANDS.find(band => band.value === value)?.label ?? UNPRICED_BAND.label,
+    order: [...PRICE_BANDS.map(band => band.value), UNPRICED_BAND.value],
+  },
+  {
+    key: 'status',
+    label: 'Listing Status',
+    getValue: property => property.status,
+    // Own keys only: facet values come from the query string
+    getLabel: value => (Object.hasOwn(STATUS_LABELS, value) ? STATUS_LABELS[value as Property['status']] : value),
+    order: Object.keys(STATUS_LABELS),
+  },
+  {
+    key: 'auction',
+    label: 'Auction',
+    getValue: property => (property.isAuction ? 'yes' : 'no'),
+    getLabel: value => (value === 'yes' ? 'Auction' : 'Traditional Sale'),
+    order: ['yes', 'no'],
+  },
+  {
+    key: 'financing',
+    label: 'VA / Vendee Financing',
+    getValue: property => (property.isVendeeFinancing ? 'yes' : 'no'),
+    getLabel: value => (value === 'yes' ? 'Vendee Financing Available' : 'Standard Financing'),
+    order: ['yes', 'no'],
+  },
+];
+
+export const FACET_KEYS: FacetKey[] = FACET_DEFINITIONS.map(definition => definition.key);
+
+// ============================================================================
+// Selection Parsing
+// ============================================================================
+
+/**
+ * Parses facet selections from query parameters.
+ * Repeated parameters select multiple values; empty values are dropped, and
+ * state and property type values are case-insensitive like the page filters.
+ */
+export function parseFacetSelection(params: SearchParams): FacetSelection {
+  const selection: FacetSelection = {};
+
+  for (const { key, normalize } of FACET_DEFINITIONS) {
+    const raw = params[key];
+    const values = (Array.isArray(raw) ? raw : raw ? [raw] : [])
+      .map(value => value.trim())
+      .filter(Boolean)
+      .map(value => (normalize ? normalize(value) : value));
+
+    if (values.length > 0) {
+      selection[key] = Array.from(new Set(values));
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Serializes a facet selection to query parameters (without the leading "?").
+ */
+export function toFacetQuery(selection: FacetSelection): string {
+  const query = new URLSearchParams();
+  for (const key of FACET_KEYS) {
+    for (const value of selection[key] ?? []) {
+      query.append(key, value);
+    }
+  }
+  return query.toString();
+}
+
+/**
+ * Returns a copy of the selection with a single facet value toggled on or off.
+ */
+export function toggleFacetValue(selection: FacetSelection, key: FacetKey, value: string): FacetSelection {
+  const current = selection[key] ?? [];
+  const next = current.includes(value)
+    ? current.filter(selected => selected !== value)
+    : [...current, value];
+
+  const updated: FacetSelection = { ...selection, [key]: next };
+  if (next.length === 0) {
+    delete updated[key];
+  }
+  return updated;
+}
+
+// ============================================================================
+// Facet Computation
+// ============================================================================
+
+/**
+ * Checks whether a property matches every selected facet, optionally ignoring one.
+ */
+function matchesSelection(property: Property, selection: FacetSelection, ignoreKey?: FacetKey): boolean {
+  return FACET_DEFINITIONS.every(definition => {
+    const selected = selection[definition.key];
+    if (!selected || definition.key === ignoreKey) {
+      return true;
+    }
+    const value = definition.getValue(property);
+    return value !== undefined && selected.includes(value);
+  });
+}
+
+/**
+ * Filters properties by a facet selection, preserving catalog order.
+ */
+export function applyFacetSelection(properties: Property[], selection: FacetSelection): Property[] {
+  return properties.filter(property => matchesSelection(property, selection));
+}
+
+/**
+ * Computes every facet with live counts for the given selection.
+ *
+ * Selected values are always included (with a count of 0 if nothing matches)
+ * so that the user can deselect them.
+ *
+ * @param properties - The properties to facet over (already filtered by any free-text search)
+ * @param selection - The currently selected facet values
+ * @returns Facets in display order
+ */
+export function computeFacets(properties: Property[], selection: FacetSelection): Facet[] {
+  return FACET_DEFINITIONS.map(definition => {
+    const counts = new Map<string, number>();
+
+    for (const property of properties) {
+      if (!matchesSelection(property, selection, definition.key)) {
+        continue;
+      }
+      const value = definition.getValue(property);
+      if (value !== undefined) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    const selected = selection[definition.key] ?? [];
+    for (const value of selected) {
+      if (!counts.has(value)) {
+        counts.set(value, 0);
+      }
+    }
+
+    const values: FacetValue[] = Array.from(counts, ([value, count]) => ({
+      value,
+      label: definition.getLabel(value),
+      count,
+      selected: selected.includes(value),
+    }));
+
+    if (definition.order) {
+      const order = definition.order;
+      values.sort((a, b) => order.indexOf(a.value) - order.indexOf(b.value));
+    } else {
+      values.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+    }
+
+    return { key: definition.key, label: definition.label, values };
+  });
+}
@@ -0,0 +1,374 @@
+/**
+ * Property Feed Import
+ *
+ * This module normalizes raw VRM property feed records (properties_combined.json)
+ * into the `Property` shape used throughout the site:
+ * - Title-cases the uppercase addresses, cities and counties from the feed
+ * - Maps `assetListingStatus` to the UI `status` value
+ * - Maps the numeric `propertyType` code to a `PropertyType`
+ * - Groups the media items of records sharing an `assetId` into `media`
+ * - Rejects records that cannot be rendered or associated in HubSpot
+ *
+ * The `id` of every imported property is the feed's `assetId`, which is also the
+ * `external_listing_id` used for HubSpot lookups. The `assetReferenceId` is
+ * kept as `referenceId`. See DATA_MAPPING.md.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+import { mapPropertyTypeCode } from '@/lib/propertyTypes';
+import { getMediaUrl, PLACEHOLDER_IMAGE, PropertyMedia, sortMedia } from '@/lib/propertyMedia';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single record from the raw property feed.
+ * Only the fields consumed by the importer are typed as non-optional.
+ */
+export interface RawPropertyRecord {
+  assetId: number | null;
+  assetItemId?: number | null;
+  assetReferenceId?: string | null;
+  listPrice?: number | null;
+  displayPrice: number | null;
+  listingStartDate?: string | null;
+  assetListingStatus: string | null;
+  isNewListing?: boolean | null;
+  isFeatured?: boolean | null;
+  isVendeeFinancing?: boolean | null;
+  propertyType?: number | null;
+  addressLine1: string | null;
+  addressLine2?: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  county?: string | null;
+  squareFootage?: number | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  lotSize?: number | null;
+  lotSizeSource?: string | null;
+  soldDate?: string | null;
+  salePrice?: number | null;
+  isAuction?: boolean | null;
+  isOnlineAuction?: boolean | null;
+  auctionStartDate?: string | null;
+  auctionEndDate?: string | null;
+  auctionStatusType?: number | null;
+  auctionStatus?: string | null;
+  auctionOfferStatusType?: number | null;
+  highBid?: number | null;
+  highBidPlacedAt?: string | null;
+  underContractDate?: string | null;
+  mediaId?: number | null;
+  mediaGuid?: string | null;
+  mediaOrder?: number | null;
+  mediaTitle?: string | null;
+  mediaDescription?: string | null;
+  mediaTypeId?: number | null;
+  mediaFileExtension?: string | null;
+  imageUrl?: string | null;
+}
+
+/**
+ * Top-level shape of properties_combined.json.
+ */
+export interface RawPropertyFeed {
+  count: number;
+  properties: RawPropertyRecord[];
+}
+
+export interface RejectedRecord {
+  /** The record's assetId, or null when the record has none */
+  assetId: number | null;
+  /** Zero-based position of the record in the feed */
+  index: number;
+  reasons: string[];
+}
+
+export interface PropertyImportResult {
+  properties: Property[];
+  rejected: RejectedRecord[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Maps the feed's `assetListingStatus` text to the UI status.
+ * Records with a `soldDate` are always treated as sold regardless of this value.
+ */
+const LISTING_STATUS_MAP: Record<string, Property['status']> = {
+  'for sale': 'available',
+  'coming soon': 'coming-soon',
+  'sold': 'sold',
+};
+
+/**
+ * Address tokens that stay uppercase after title-casing (street directionals).
+ */
+const UPPERCASE_TOKENS = new Set(['NE', 'NW', 'SE', 'SW']);
+
+// ============================================================================
+// Text Normalization
+// ============================================================================
+
+/**
+ * Title-cases a single word, including the parts of hyphenated and
+ * apostrophe-joined words (e.g. "WINSTON-SALEM" -> "Winston-Salem").
+ */
+function titleCaseWord(word: string): string {
+  if (UPPERCASE_TOKENS.has(word)) {
+    return word;
+  }
+
+  // Ordinals like 10TH or 1ST become 10th and 1st
+  if (/^\d+(ST|ND|RD|TH)$/.test(word)) {
+    return word.toLowerCase();
+  }
+
+  // Unit numbers and house numbers with suffixes (#11C, 102N) are kept as-is
+  if (/\d/.test(word)) {
+    return word;
+  }
+
+  return word
+    .toLowerCase()
+    .replace(/(^|[-'/.])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+/**
+ * Converts an uppercase feed value such as "158 BRIANS WOODS RD" to
+ * "158 Brians Woods Rd". Collapses repeated whitespace.
+ */
+export function toTitleCase(value: string): string {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map(titleCaseWord)
+    .join(' ');
+}
+
+/**
+ * Trims a nullable string and returns undefined when nothing is left.
+ */
+function cleanString(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Maps a raw record's listing status to the UI status.
+ * Returns undefined for statuses the site does not know how to display.
+ */
+export function mapListingStatus(record: RawPropertyRecord): Property['status'] | undefined {
+  if (record.soldDate) {
+    return 'sold';
+  }
+  const status = cleanString(record.assetListingStatus)?.toLowerCase();
+  return status ? LISTING_STATUS_MAP[status] : undefined;
+}
+
+/**
+ * Checks a raw record for problems that prevent it from being imported.
+ *
+ * @returns A list of human-readable reasons; empty when the record is valid
+ */
+function validateRecord(record: RawPropertyRecord): string[] {
+  const reasons: string[] = [];
+
+  if (typeof record.assetId !== 'number' || !Number.isInteger(record.assetId) || record.assetId <= 0) {
+    reasons.push('missing or invalid assetId');
+  }
+  if (!cleanString(record.addressLine1)) {
+    reasons.push('missing addressLine1');
+  }
+  if (!cleanString(record.city)) {
+    reasons.push('missing city');
+  }
+  if (!/^[A-Z]{2}$/.test(record.state?.trim().toUpperCase() ?? '')) {
+    reasons.push(`invalid state: ${JSON.stringify(record.state)}`);
+  }
+  if (!/^\d{5}(-\d{4})?$/.test(record.zip?.trim() ?? '')) {
+    reasons.push(`invalid zip: ${JSON.stringify(record.zip)}`);
+  }
+  if (typeof record.bedrooms !== 'number' || record.bedrooms < 0) {
+    reasons.push('missing or invalid bedrooms');
+  }
+  if (typeof record.bathrooms !== 'number' || record.bathrooms < 0) {
+    reasons.push('missing or invalid bathrooms');
+  }
+
+  const status = mapListingStatus(record);
+  if (!status) {
+    reasons.push(`unknown assetListingStatus: ${JSON.stringify(record.assetListingStatus)}`);
+  } else if (
+    status === 'available' &&
+    !record.isAuction &&
+    !(typeof record.displayPrice === 'number' && record.displayPrice > 0)
+  ) {
+    // Coming Soon listings and auctions are published without a price,
+    // but regular For Sale listings must have one
+    reasons.push('for-sale listing has no displayPrice');
+  }
+
+  return reasons;
+}
+
+/**
+ * Extracts the media item carried by a feed record.
+ *
+ * @returns The media item, or undefined when the record has no media type or
+ * no photo to point at
+ */
+export function normalizeMedia(record: RawPropertyRecord): PropertyMedia | undefined {
+  const guid = cleanString(record.mediaGuid);
+  const url = cleanString(record.imageUrl) ??
+    (guid ? getMediaUrl(guid, cleanString(record.mediaFileExtension)) : undefined);
+
+  if (record.mediaTypeId == null || record.mediaId == null || !guid || !url) {
+    return undefined;
+  }
+
+  const media: PropertyMedia = {
+    id: record.mediaId,
+    guid,
+    order: record.mediaOrder ?? Number.MAX_SAFE_INTEGER,
+    typeId: record.mediaTypeId,
+    url,
+  };
+
+  const title = cleanString(record.mediaTitle);
+  const description = cleanString(record.mediaDescription);
+  if (title) media.title = title;
+  if (description) media.description = description;
+
+  return media;
+}
+
+/**
+ * Normalizes a single raw feed record into a `Property`.
+ * The record must already have passed validation.
+ */
+export function normalizeRecord(record: RawPropertyRecord): Property {
+  const city = toTitleCase(record.city as string);
+  const addressLine2 = cleanString(record.addressLine2);
+  const county = cleanString(record.county);
+  const propertyType = mapPropertyTypeCode(record.propertyType);
+  const referenceId = cleanString(record.assetReferenceId);
+
+  const property: Property = {
+    id: String(record.assetId),
+    ...(referenceId && { referenceId }),
+    title: `${city} Property`,
+    address: toTitleCase(record.addressLine1 as string),
+    ...(addressLine2 && { addressLine2: toTitleCase(addressLine2) }),
+    city,
+    state: (record.state as string).trim().toUpperCase(),
+    zipCode: (record.zip as string).trim(),
+    ...(county && { county: toTitleCase(county) }),
+    price: record.displayPrice ?? 0,
+    assetListingStatus: (record.assetListingStatus as string).trim(),
+    ...(propertyType && { propertyType }),
+    bedrooms: record.bedrooms as number,
+    bathrooms: record.bathrooms as number,
+    image: PLACEHOLDER_IMAGE,
+    media: [],
+    isNewListing: record.isNewListing ?? false,
+    isFeatured: record.isFeatured ?? false,
+    isAuction: record.isAuction ?? false,
+    isVendeeFinancing: record.isVendeeFinancing ?? false,
+    status: mapListingStatus(record) as Property['status'],
+  };
+
+  // Optional fields are only set when the feed provides them, keeping the
+  // generated catalog free of null/undefined noise
+  if (record.squareFootage) property.squareFeet = record.squareFootage;
+  if (record.lotSize) property.lotSize = record.lotSize;
+  if (record.lotSize && record.lotSizeSource) property.lotSizeSource = record.lotSizeSource;
+  if (record.listingStartDate) property.listingStartDate = record.listingStartDate;
+  if (record.underContractDate) property.underContractDate = record.underContractDate;
+  if (record.soldDate) property.soldDate = record.soldDate;
+  if (record.salePrice) property.salePrice = record.salePrice;
+  if (record.isOnlineAuction != null) property.isOnlineAuction = record.isOnlineAuction;
+  if (record.auctionStartDate) property.auctionStartDate = record.auctionStartDate;
+  if (record.auctionEndDate) property.auctionEndDate = record.auctionEndDate;
+  if (record.auctionStatusType != null) property.auctionStatusType = record.auctionStatusType;
+  if (record.auctionStatus) property.auctionStatus = record.auctionStatus;
+  if (record.auctionOfferStatusType != null) property.auctionOfferStatusType = record.auctionOfferStatusType;
+  if (record.highBid) property.highBid = record.highBid;
+  if (record.highBidPlacedAt) property.highBidPlacedAt = record.highBidPlacedAt;
+
+  const media = normalizeMedia(record);
+  if (media) {
+    property.media = [media];
+    property.image = media.url;
+  }
+
+  return property;
+}
+
+/**
+ * Adds a media item to an already imported property, keeping `media` in
+ * `mediaOrder` and `image` pointing at the primary photo.
+ *
+ * @returns False when the property already has this media item
+ */
+function addMedia(property: Property, media: PropertyMedia): boolean {
+  if (property.media.some(existing => existing.id === media.id)) {
+    return false;
+  }
+  property.media = sortMedia([...property.media, media]);
+  property.image = property.media[0].url;
+  return true;
+}
+
+/**
+ * Imports a raw property feed, returning the normalized catalog along with
+ * every record that was rejected and why.
+ *
+ * Records are kept in feed order. The feed repeats a property's record once per
+ * media item, so later records with the same assetId only contribute their
+ * media item to the first occurrence. A repeated record that adds no new media
+ * is rejected as a duplicate so that property URLs and HubSpot lookups stay
+ * unambiguous.
+ *
+ * @param feed - The parsed contents of properties_combined.json
+ * @returns The normalized properties and the rejected records
+ */
+export function importPropertyFeed(feed: RawPropertyFeed): PropertyImportResult {
+  const properties: Property[] = [];
+  const rejected: RejectedRecord[] = [];
+  const propertiesById = new Map<string, Property>();
+
+  (feed.properties ?? []).forEach((record, index) => {
+    const reasons = validateRecord(record);
+    const id = String(record.assetId);
+    const existing = propertiesById.get(id);
+
+    if (reasons.length === 0 && existing) {
+      const media = normalizeMedia(record);
+      if (media && addMedia(existing, media)) {
+        return;
+      }
+      reasons.push(`duplicate assetId: ${id}`);
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({ assetId: record.assetId ?? null, index, reasons });
+      return;
+    }
+
+    const property = normalizeRecord(record);
+    propertiesById.set(id, property);
+    properties.push(property);
+  });
+
+  return { properties, rejected };
+}
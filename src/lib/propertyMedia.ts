@@ -0,0 +1,92 @@
+/**
+ * Property Media
+ *
+ * Types and helpers for listing photos. The feed carries one media item per
+ * record (`mediaId`, `mediaGuid`, `mediaOrder`, `mediaTitle`, `mediaTypeId`);
+ * the importer groups the items of every record sharing an `assetId` into
+ * `Property.media`, ordered by `mediaOrder`.
+ *
+ * Records without a media type have no photo. Those properties get an empty
+ * `media` array and the gallery falls back to the placeholder image.
+ *
+ * These helpers are pure and safe to import from client components.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PropertyMedia {
+  /** Feed `mediaId` */
+  id: number;
+  /** Feed `mediaGuid`, also the photo's file name */
+  guid: string;
+  /** Feed `mediaOrder` (1 = primary photo) */
+  order: number;
+  /** Feed `mediaTypeId` (1 = photo) */
+  typeId: number;
+  /** Feed `mediaTitle`, e.g. "Front" or "Listing" */
+  title?: string;
+  description?: string;
+  url: string;
+}
+
+export interface GalleryImage {
+  src: string;
+  alt: string;
+  /** False for the placeholder shown when a property has no photos */
+  isPhoto: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Image used when a property has no photo.
+ */
+export const PLACEHOLDER_IMAGE = '/images/placeholder.svg';
+
+/**
+ * Where the feed's photos are hosted, keyed by `mediaGuid`.
+ * Used when a record has a GUID but no `imageUrl`.
+ */
+export const PHOTO_BASE_URL = 'https://s3.amazonaws.com/photos.vrmresales.com';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Builds the photo URL for a media GUID.
+ */
+export function getMediaUrl(guid: string, fileExtension = 'jpg'): string {
+  return `${PHOTO_BASE_URL}/${guid}.${fileExtension.replace(/^\./, '')}`;
+}
+
+/**
+ * Orders media by `mediaOrder`, then `mediaId` for a stable order on ties.
+ */
+export function sortMedia(media: PropertyMedia[]): PropertyMedia[] {
+  return [...media].sort((a, b) => a.order - b.order || a.id - b.id);
+}
+
+/**
+ * Returns the images to show in a property's gallery, in display order.
+ * Properties without photos get a single placeholder image.
+ */
+export function getGalleryImages(property: Property): GalleryImage[] {
+  const { media } = property;
+
+  if (media.length === 0) {
+    return [{ src: PLACEHOLDER_IMAGE, alt: `${property.title} - no photo available`, isPhoto: false }];
+  }
+
+  return media.map((item, index) => ({
+    src: item.url,
+    alt: `${property.title} - ${item.description || item.title || 'Photo'} (${index + 1} of ${media.length})`,
+    isPhoto: true,
+  }));
+}
@@ -0,0 +1,385 @@
+/**
+ * Property Search Helpers
+ *
+ * This module implements the URL-driven filtering, sorting and pagination used
+ * by the property listing pages. Everything is read from query parameters and
+ * evaluated server-side against the `properties` catalog:
+ *
+ *   ?q=&state=&type=&minPrice=&maxPrice=&beds=&sort=&page=&pageSize=
+ *
+ * Invalid or empty parameters are ignored rather than rejected so that a
+ * hand-edited URL still renders a sensible result.
+ */
+
+import type { Property } from '@/components/PropertyCard';
+import { isPropertyType, PropertyType } from '@/lib/propertyTypes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Query parameters as provided by Next.js `searchParams`.
+ */
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+export interface PropertyFilters {
+  /** Free-text search over address, city, county, state, ZIP and property ID */
+  q?: string;
+  /** Two-letter state code */
+  state?: string;
+  type?: PropertyType;
+  minPrice?: number;
+  maxPrice?: number;
+  /** Minimum number of bedrooms */
+  beds?: number;
+}
+
+export type PropertySort =
+  | 'newest'
+  | 'price-asc'
+  | 'price-desc'
+  | 'sqft-desc'
+  | 'price-per-sqft-asc';
+
+export interface ListingOptions {
+  sort: PropertySort;
+  /** One-based page number */
+  page: number;
+  pageSize: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SORT_OPTIONS: { value: PropertySort; label: string }[] = [
+  { value: 'newest', label: 'Newest Listings' },
+  { value: 'price-asc', label: 'Price: Low to High' },
+  { value: 'price-desc', label: 'Price: High to Low' },
+  { value: 'sqft-desc', label: 'Square Feet: Largest' },
+  { value: 'price-per-sqft-asc', label: 'Price per Sq Ft: Lowest' },
+];
+
+export const DEFAULT_SORT: PropertySort = 'newest';
+
+/**
+ * Default number of properties per page.
+ * Configurable via the PROPERTIES_PAGE_SIZE environment variable.
+ */
+export const DEFAULT_PAGE_SIZE = parseInt(process.env.PROPERTIES_PAGE_SIZE || '24', 10) || 24;
+
+/**
+ * Upper bound for the `pageSize` query parameter.
+ */
+export const MAX_PAGE_SIZE = 96;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Reads a single query parameter, taking the first value when repeated.
+ */
+export function getParam(params: SearchParams, key: string): string | undefined {
+  const value = params[key];
+  const first = Array.isArray(value) ? value[0] : value;
+  const trimmed = first?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Converts URLSearchParams (e.g. from a route handler's `request.nextUrl`) to
+ * the same shape as page `searchParams`, keeping repeated keys as arrays.
+ */
+export function toSearchParams(urlSearchParams: URLSearchParams): SearchParams {
+  const params: SearchParams = {};
+  for (const key of new Set(urlSearchParams.keys())) {
+    const values = urlSearchParams.getAll(key);
+    params[key] = values.length > 1 ? values : values[0];
+  }
+  return params;
+}
+
+/**
+ * Parses a non-negative number from a query parameter.
+ * Accepts values such as "250000" and "250,000".
+ */
+function parseNonNegativeNumber(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Parses property filters from query parameters.
+ *
+ * @param params - The page or request search params
+ * @returns The recognized filters; unrecognized or invalid values are dropped
+ */
+export function parsePropertyFilters(params: SearchParams): PropertyFilters {
+  const filters: PropertyFilters = {};
+
+  const q = getParam(params, 'q');
+  if (q) {
+    filters.q = q;
+  }
+
+  const state = getParam(params, 'state')?.toUpperCase();
+  if (state && /^[A-Z]{2}$/.test(state)) {
+    filters.state = state;
+  }
+
+  const type = getParam(params, 'type');
+  if (isPropertyType(type)) {
+    filters.type = type;
+  }
+
+  const minPrice = parseNonNegativeNumber(getParam(params, 'minPrice'));
+  if (minPrice !== undefined) {
+    filters.minPrice = minPrice;
+  }
+
+  const maxPrice = parseNonNegativeNumber(getParam(params, 'maxPrice'));
+  if (maxPrice !== undefined) {
+    filters.maxPrice = maxPrice;
+  }
+
+  const beds = parseNonNegativeNumber(getParam(params, 'beds'));
+  if (beds !== undefined) {
+    filters.beds = Math.floor(beds);
+  }
+
+  return filters;
+}
+
+/**
+ * Serializes filters back to a query string (without the leading "?").
+ * Used to build links that preserve the current filters.
+ */
+export function toSearchQuery(filters: PropertyFilters): string {
+  const query = new URLSearchParams();
+  if (filters.q) query.set('q', filters.q);
+  if (filters.state) query.set('state', filters.state);
+  if (filters.type) query.set('type', filters.type);
+  if (filters.minPrice !== undefined) query.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) query.set('maxPrice', String(filters.maxPrice));
+  if (filters.beds !== undefined) query.set('beds', String(filters.beds));
+  return query.toString();
+}
+
+/**
+ * Parses sort and pagination options from query parameters.
+ * Unknown sorts fall back to the default, and `page`/`pageSize` are clamped
+ * to sensible bounds. Whether `page` is beyond the last page is left to the caller.
+ */
+export function parseListingOptions(params: SearchParams): ListingOptions {
+  const sortParam = getParam(params, 'sort');
+  const sort = SORT_OPTIONS.some(option => option.value === sortParam)
+    ? (sortParam as PropertySort)
+    : DEFAULT_SORT;
+
+  const page = Math.max(1, Math.floor(parseNonNegativeNumber(getParam(params, 'page')) ?? 1));
+
+  const requestedPageSize = Math.floor(parseNonNegativeNumber(getParam(params, 'pageSize')) ?? DEFAULT_PAGE_SIZE);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, requestedPageSize));
+
+  return { sort, page, pageSize };
+}
+
+/**
+ * Serializes filters together with sort and pagination options.
+ * Default values are omitted so that page 1 of the default sort has the
+ * shortest (canonical) URL.
+ */
+export function toListingQuery(filters: PropertyFilters, options: Partial<ListingOptions>): string {
+  const query = new URLSearchParams(toSearchQuery(filters));
+  if (options.sort && options.sort !== DEFAULT_SORT) query.set('sort', options.sort);
+  if (options.pageSize && options.pageSize !== DEFAULT_PAGE_SIZE) query.set('pageSize', String(options.pageSize));
+  if (options.page && options.page > 1) query.set('page', String(options.page));
+  return query.toString();
+}
+
+/**
+ * Returns true when at least one filter is active.
+ */
+export function hasActiveFilters(filters: PropertyFilters): boolean {
+  return toSearchQuery(filters) !== '';
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+/**
+ * Builds the lowercase text that free-text search runs against.
+ */
+function getSearchText(property: Property): string {
+  return [
+    property.id,
+    property.title,
+    property.address,
+    property.addressLine2,
+    property.city,
+    property.county,
+    property.state,
+    property.zipCode,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Checks whether a single property matches the given filters.
+ *
+ * Free-text search requires every whitespace-separated term to appear.
+ * Properties without a published price (Coming Soon listings and unpriced
+ * auctions have a price of 0) never match a price filter.
+ */
+export function matchesFilters(property: Property, filters: PropertyFilters): boolean {
+  if (filters.state && property.state !== filters.state) {
+    return false;
+  }
+
+  if (filters.type && property.propertyType !== filters.type) {
+    return false;
+  }
+
+  if (filters.beds !== undefined && property.bedrooms < filters.beds) {
+    return false;
+  }
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    if (property.price <= 0) {
+      return false;
+    }
+    if (filters.minPrice !== undefined && property.price < filters.minPrice) {
+      return false;
+    }
+    if (filters.maxPrice !== undefined && property.price > filters.maxPrice) {
+      return false;
+    }
+  }
+
+  if (filters.q) {
+    const text = getSearchText(property);
+    const terms = filters.q.toLowerCase().split(/\s+/);
+    if (!terms.every(term => text.includes(term))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Filters the catalog, preserving catalog order.
+ */
+export function filterProperties(properties: Property[], filters: PropertyFilters): Property[] {
+  return properties.filter(property => matchesFilters(property, filters));
+}
+
+/**
+ * Returns the distinct state codes present in the catalog, sorted alphabetically.
+ */
+export function getAvailableStates(properties: Property[]): string[] {
+  return Array.from(new Set(properties.map(property => property.state))).sort();
+}
+
+// ============================================================================
+// Sorting and Pagination
+// ============================================================================
+
+/**
+ * Returns the price per square foot, or undefined when either value is missing.
+ */
+export function getPricePerSquareFoot(property: Property): number | undefined {
+  if (property.price <= 0 || !property.squareFeet) {
+    return undefined;
+  }
+  return property.price / property.squareFeet;
+}
+
+/**
+ * Compares two optional numbers, always placing missing values last.
+ */
+function compareOptional(a: number | undefined, b: number | undefined, direction: 1 | -1): number {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return (a - b) * direction;
+}
+
+/**
+ * Gets a property's price for sorting; unpriced listings sort last.
+ */
+function getSortablePrice(property: Property): number | undefined {
+  return property.price > 0 ? property.price : undefined;
+}
+
+function getListingTime(property: Property): number | undefined {
+  const time = property.listingStartDate ? Date.parse(property.listingStartDate) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Returns a sorted copy of the given properties.
+ * Properties missing the sort value (no price, no square footage, no listing
+ * date) are placed at the end. Ties keep catalog order.
+ */
+export function sortProperties(properties: Property[], sort: PropertySort): Property[] {
+  const compare: Record<PropertySort, (a: Property, b: Property) => number> = {
+    'newest': (a, b) => compareOptional(getListingTime(a), getListingTime(b), -1),
+    'price-asc': (a, b) => compareOptional(getSortablePrice(a), getSortablePrice(b), 1),
+    'price-desc': (a, b) => compareOptional(getSortablePrice(a), getSortablePrice(b), -1),
+    'sqft-desc': (a, b) => compareOptional(a.squareFeet, b.squareFeet, -1),
+    'price-per-sqft-asc': (a, b) => compareOptional(getPricePerSquareFoot(a), getPricePerSquareFoot(b), 1),
+  };
+  return [...properties].sort(compare[sort]);
+}
+
+/**
+ * Slices a list into a single page.
+ * `totalPages` is always at least 1 so that an empty result still has a page.
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): PaginatedResult<T> {
+  const totalItems = items.length;
+  const totalPages = Math.max(1, Math.ceil(totalItems / pageSize));
+  const start = (page - 1) * pageSize;
+
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    totalItems,
+    totalPages,
+  };
+}
+
+/**
+ * Returns the page numbers to render as jump links, with `null` marking gaps.
+ * Always includes the first and last page and a window around the current one,
+ * e.g. [1, null, 4, 5, 6, 7, 8, null, 70].
+ */
+export function getPageNumbers(page: number, totalPages: number, windowSize = 2): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= totalPages; n++) {
+    if (n === 1 || n === totalPages || Math.abs(n - page) <= windowSize) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
@@ -0,0 +1,75 @@
+/**
+ * Property Types
+ *
+ * The raw feed identifies the kind of property with a numeric `propertyType`
+ * code. This module maps those codes to a typed `PropertyType` and provides
+ * display labels for the UI.
+ *
+ * The feed does not ship a code dictionary; the mapping below was derived from
+ * the records themselves (unit numbers, lot sizes, bedroom counts) and should
+ * be updated if VRM publishes an authoritative list. Unknown codes map to 'other'.
+ */
+
+export type PropertyType =
+  | 'single-family'
+  | 'condo'
+  | 'townhouse'
+  | 'manufactured'
+  | 'multi-family'
+  | 'farm-ranch'
+  | 'land'
+  | 'other';
+
+/**
+ * Feed `propertyType` code -> PropertyType.
+ */
+export const PROPERTY_TYPE_CODES: Record<number, PropertyType> = {
+  1: 'single-family',
+  2: 'condo',
+  4: 'farm-ranch',
+  6: 'multi-family',
+  7: 'other',
+  8: 'multi-family',
+  9: 'townhouse',
+  10: 'manufactured',
+  14: 'land',
+};
+
+/**
+ * Display labels, in the order property types are offered as filters.
+ */
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  'single-family': 'Single Family',
+  'condo': 'Condo',
+  'townhouse': 'Townhouse',
+  'manufactured': 'Manufactured Home',
+  'multi-family': 'Multi-Family',
+  'farm-ranch': 'Farm / Ranch',
+  'land': 'Land',
+  'other': 'Other',
+};
+
+export const PROPERTY_TYPES = Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[];
+
+/**
+ * Maps a feed `propertyType` code to a PropertyType.
+ * Returns undefined when the record has no code.
+ */
+export function mapPropertyTypeCode(code: number | null | undefined): PropertyType | undefined {
+  if (code === null || code === undefined) {
+    return undefined;
+  }
+  return PROPERTY_TYPE_CODES[code] ?? 'other';
+}
+
+/**
+ * Type guard for values read from query parameters. Checks own keys only, so
+ * inherited names such as `constructor` are not property types.
+ */
+export function isPropertyType(value: string | undefined): value is PropertyType {
+  return value !== undefined && Object.hasOwn(PROPERTY_TYPE_LABELS, value);
+}
+
+export function getPropertyTypeLabel(type: PropertyType): string {
+  return PROPERTY_TYPE_LABELS[type];
+}
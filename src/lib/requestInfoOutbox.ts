@@ -0,0 +1,477 @@
+/**
+ * Request Info Outbox
+ *
+ * Request-info submissions are written to a durable, file-backed outbox before
+ * any HubSpot call is made, then delivered by `processSubmission()`:
+ *
+ * 1. Submit the contact via the Forms API
+ * 2. Resolve the submitted Contact and set marketing consent
+ * 3. Look up the Listing by external_listing_id
+ * 4. Associate the Contact with the Listing
+ *
+ * Each step's outcome is persisted in the submission's `details` flags, along
+ * with the Contact and Listing IDs it resolved, so a later attempt resumes at
+ * the first incomplete step instead of starting over.
+ *
+ * A failed step stops the attempt. Transient failures (see `retryable` on the
+ * HubSpot result types) are rescheduled with increasing delays, and so is a
+ * Listing that is not in HubSpot yet, which the next listing sync may create
+ * (see lib/listingSync.ts); terminal
+ * failures, and submissions that run out of attempts, are marked `failed` and
+ * stay in the outbox until replayed from the admin API (/api/admin/outbox).
+ *
+ * Submissions are stored one JSON file per submission in
+ * REQUEST_INFO_OUTBOX_DIR (default: .data/request-info-outbox). They contain
+ * contact details, so the directory must not be publicly served; completed
+ * submissions are deleted after OUTBOX_RETENTION_DAYS.
+ *
+ * Each submission keeps the correlation ID of the request that created it, and
+ * every attempt (including background retries and replays) logs with that ID
+ * and the submission ID.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  submitContactToHubSpot,
+  resolveSubmittedContact,
+  updateMarketingConsent,
+  findListingByExternalId,
+  associateContactToListing,
+  RequestInfoFormData,
+} from '@/lib/hubspot';
+import { Logger, rootLogger } from '@/lib/logger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - pending: waiting for its first or next attempt
+ * - processing: an attempt is in progress
+ * - completed: all steps succeeded
+ * - failed: a terminal failure, or out of attempts; needs a replay
+ */
+export type OutboxStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface RequestInfoSubmissionDetails {
+  contactSubmitted: boolean;
+  marketingConsentSet: boolean;
+  listingFound: boolean;
+  associationCreated: boolean;
+}
+
+export interface RequestInfoSubmission {
+  id: string;
+  /** Correlation ID of the request that created the submission */
+  correlationId?: string;
+  status: OutboxStatus;
+  formData: RequestInfoFormData;
+  details: RequestInfoSubmissionDetails;
+  /** HubSpot Contact ID, once returned by the Forms API or resolved by the consent step */
+  contactId?: string;
+  /** HubSpot Listing ID, once resolved by the listing lookup */
+  listingId?: string;
+  /** Attempts since the submission was created or last replayed */
+  attempts: number;
+  lastError?: string;
+  /** True when the last failure was the Listing not existing in HubSpot */
+  listingNotFound?: boolean;
+  /** ISO 8601 timestamps */
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Delay before each retry of a transient failure, in minutes. A submission
+ * that still fails after the last delay is marked `failed`.
+ */
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 180, 720];
+
+export const MAX_OUTBOX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * An attempt that has been `processing` for longer than this is assumed to
+ * have died with its server process and may be picked up again.
+ */
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const OUTBOX_RETENTION_DAYS = 7;
+
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+const outboxLogger = rootLogger.child({ component: 'request-info-outbox' });
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function getOutboxDir(): string {
+  return path.resolve(process.env.REQUEST_INFO_OUTBOX_DIR || '.data/request-info-outbox');
+}
+
+function getSubmissionPath(id: string): string {
+  return path.join(getOutboxDir(), `${id}.json`);
+}
+
+/**
+ * Writes a submission atomically (write to a temp file, then rename) so a
+ * crash never leaves a half-written record behind.
+ */
+async function saveSubmission(submission: RequestInfoSubmission): Promise<void> {
+  submission.updatedAt = new Date().toISOString();
+  const filePath = getSubmissionPath(submission.id);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await mkdir(getOutboxDir(), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(submission, null, 2), 'utf8');
+  await rename(tempPath, filePath);
+}
+
+export async function getSubmission(id: string): Promise<RequestInfoSubmission | undefined> {
+  // IDs are UUIDs; anything else cannot name a submission file
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await readFile(getSubmissionPath(id), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Lists submissions, oldest first, optionally limited to some statuses.
+ *
+ * A file that cannot be read is skipped, so one bad file does not stop the
+ * worker or the admin API. Files that are not valid JSON are renamed to
+ * `<id>.json.corrupt`, which keeps them for inspection without reporting them
+ * on every pass.
+ */
+export async function listSubmissions(statuses?: OutboxStatus[]): Promise<RequestInfoSubmission[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(getOutboxDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const submissions: RequestInfoSubmission[] = [];
+  for (const fileName of fileNames.filter(name => name.endsWith('.json'))) {
+    let submission: RequestInfoSubmission | undefined;
+    try {
+      submission = await getSubmission(fileName.slice(0, -'.json'.length));
+    } catch (error) {
+      const quarantined = error instanceof SyntaxError;
+      outboxLogger.error('Skipping unreadable outbox submission', { fileName, quarantined, error });
+      if (quarantined) {
+        const filePath = path.join(getOutboxDir(), fileName);
+        await rename(filePath, `${filePath}.corrupt`).catch(() => undefined);
+      }
+      continue;
+    }
+
+    if (submission && (!statuses || statuses.includes(submission.status))) {
+      submissions.push(submission);
+    }
+  }
+
+  return submissions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// ============================================================================
+// Enqueue and Replay
+// ============================================================================
+
+/**
+ * Durably records a new submission. Call before any HubSpot request.
+ *
+ * @param correlationId - Correlation ID of the creating request, logged with every attempt
+ */
+export async function enqueueSubmission(
+  formData: RequestInfoFormData,
+  correlationId?: string
+): Promise<RequestInfoSubmission> {
+  const now = new Date().toISOString();
+  const submission: RequestInfoSubmission = {
+    id: randomUUID(),
+    correlationId,
+    status: 'pending',
+    formData,
+    details: {
+      contactSubmitted: false,
+      marketingConsentSet: false,
+      listingFound: false,
+      associationCreated: false,
+    },
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveSubmission(submission);
+  return submission;
+}
+
+/**
+ * Makes a stuck submission due again with a fresh set of attempts and
+ * processes it. Completed steps are not repeated.
+ *
+ * @returns The updated submission, or undefined if it does not exist
+ */
+export async function replaySubmission(id: string): Promise<RequestInfoSubmission | undefined> {
+  const submission = await getSubmission(id);
+  if (!submission) {
+    return undefined;
+  }
+
+  if (submission.status !== 'completed') {
+    submission.status = 'pending';
+    submission.attempts = 0;
+    submission.nextAttemptAt = new Date().toISOString();
+    await saveSubmission(submission);
+  }
+
+  return processSubmission(id);
+}
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+/**
+ * Submission IDs with an attempt running in this process. The outbox files
+ * guard against other processes; this guards against overlapping calls here.
+ */
+const globalForOutbox = globalThis as typeof globalThis & {
+  requestInfoOutboxInFlight?: Set<string>;
+  requestInfoOutboxWorker?: ReturnType<typeof setInterval>;
+};
+const inFlight = (globalForOutbox.requestInfoOutboxInFlight ??= new Set<string>());
+
+function isDue(submission: RequestInfoSubmission, now: number): boolean {
+  if (submission.status === 'pending') {
+    return !submission.nextAttemptAt || Date.parse(submission.nextAttemptAt) <= now;
+  }
+  if (submission.status === 'processing') {
+    return Date.parse(submission.updatedAt) + STALE_PROCESSING_MS <= now;
+  }
+  return false;
+}
+
+/**
+ * Runs the remaining steps of one submission and persists the outcome.
+ *
+ * @returns The updated submission, or undefined if it does not exist
+ */
+export async function processSubmission(id: string): Promise<RequestInfoSubmission | undefined> {
+  if (inFlight.has(id)) {
+    return getSubmission(id);
+  }
+
+  inFlight.add(id);
+  try {
+    const submission = await getSubmission(id);
+    if (!submission || !isDue(submission, Date.now())) {
+      return submission;
+    }
+
+    const logger = outboxLogger.child({
+      correlationId: submission.correlationId ?? submission.id,
+      submissionId: submission.id,
+    });
+
+    submission.status = 'processing';
+    submission.attempts += 1;
+    await saveSubmission(submission);
+
+    const failure = await runSteps(submission, logger);
+
+    if (!failure) {
+      submission.status = 'completed';
+      submission.completedAt = new Date().toISOString();
+      submission.lastError = undefined;
+      submission.nextAttemptAt = undefined;
+    } else {
+      submission.lastError = failure.error;
+      const delayMinutes = RETRY_DELAYS_MINUTES[submission.attempts - 1];
+      if (failure.retryable && delayMinutes !== undefined) {
+        submission.status = 'pending';
+        submission.nextAttemptAt = new Date(Date.now() + delayMinutes * 60 * 1000).toISOString();
+      } else {
+        submission.status = 'failed';
+        submission.nextAttemptAt = undefined;
+      }
+      logger.warn('Request-info submission attempt failed', {
+        attempt: submission.attempts,
+        status: submission.status,
+        nextAttemptAt: submission.nextAttemptAt,
+        error: failure.error,
+      });
+    }
+
+    await saveSubmission(submission);
+    return submission;
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+/**
+ * Runs each step that has not completed yet, updating `submission` in place.
+ *
+ * @returns The failure that stopped the run, or undefined when all steps succeeded
+ */
+async function runSteps(
+  submission: RequestInfoSubmission,
+  logger: Logger
+): Promise<{ error: string; retryable: boolean } | undefined> {
+  const { formData, details } = submission;
+
+  // Step 1: Submit contact to HubSpot Forms API (email-based dedupe)
+  if (!details.contactSubmitted) {
+    const contactResult = await submitContactToHubSpot(formData, logger);
+    if (!contactResult.success) {
+      return { error: `Contact submission failed: ${contactResult.error}`, retryable: Boolean(contactResult.retryable) };
+    }
+    details.contactSubmitted = true;
+    submission.contactId = contactResult.contactId;
+    await saveSubmission(submission);
+  }
+
+  // Step 2: Wait for the Forms API to create the contact, then set marketing
+  // consent. The contact is never created here, which would race the
+  // submission into a duplicate; if it does not appear in time, the step is
+  // retried later.
+  if (!details.marketingConsentSet) {
+    if (!submission.contactId) {
+      const resolveResult = await resolveSubmittedContact(formData.email, undefined, logger);
+      if (!resolveResult.success || !resolveResult.contactId) {
+        return { error: `Contact resolution failed: ${resolveResult.error}`, retryable: resolveResult.retryable !== false };
+      }
+      submission.contactId = resolveResult.contactId;
+      await saveSubmission(submission);
+    }
+
+    const consentResult = await updateMarketingConsent(submission.contactId, logger);
+    if (!consentResult.success) {
+      return { error: `Marketing consent failed: ${consentResult.error}`, retryable: Boolean(consentResult.retryable) };
+    }
+    details.marketingConsentSet = true;
+    await saveSubmission(submission);
+  }
+
+  // Step 3: Look up the Listing by external_listing_id (which maps to assetId)
+  if (!details.listingFound) {
+    const listingResult = await findListingByExternalId(formData.external_listing_id, logger);
+    submission.listingNotFound = Boolean(listingResult.notFound);
+    if (!listingResult.success || !listingResult.listingId) {
+      return {
+        error: `Listing lookup failed: ${listingResult.error}`,
+        retryable: Boolean(listingResult.retryable || listingResult.notFound),
+      };
+    }
+    submission.listingId = listingResult.listingId;
+    details.listingFound = true;
+    await saveSubmission(submission);
+  }
+
+  // Step 4: Associate the Contact with the Listing
+  if (!details.associationCreated) {
+    if (!submission.contactId || !submission.listingId) {
+      return { error: 'Cannot create association: missing contactId or listingId', retryable: false };
+    }
+    const associationResult = await associateContactToListing(
+      submission.contactId,
+      submission.listingId,
+      'interested-buyer',
+      logger
+    );
+    if (!associationResult.success) {
+      return { error: `Association failed: ${associationResult.error}`, retryable: Boolean(associationResult.retryable) };
+    }
+    details.associationCreated = true;
+  }
+
+  return undefined;
+}
+
+/**
+ * Processes every due submission, one at a time, and deletes completed
+ * submissions past the retention period.
+ *
+ * @returns The number of submissions processed
+ */
+export async function processDueSubmissions(): Promise<number> {
+  const now = Date.now();
+  const submissions = await listSubmissions();
+  let processed = 0;
+
+  for (const submission of submissions) {
+    if (isDue(submission, now)) {
+      await processSubmission(submission.id);
+      processed++;
+    } else if (
+      submission.status === 'completed' &&
+      Date.parse(submission.completedAt ?? submission.updatedAt) + OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000 <= now
+    ) {
+      await unlink(getSubmissionPath(submission.id)).catch(() => undefined);
+    }
+  }
+
+  return processed;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * Starts polling the outbox in the background (every
+ * REQUEST_INFO_OUTBOX_POLL_MS, default 30s). Started once per server process
+ * from instrumentation.ts; calling it again is a no-op.
+ */
+export function startRequestInfoOutboxWorker(): void {
+  if (globalForOutbox.requestInfoOutboxWorker) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.REQUEST_INFO_OUTBOX_POLL_MS || '', 10) || DEFAULT_POLL_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const processed = await processDueSubmissions();
+      if (processed > 0) {
+        outboxLogger.info('Processed due submissions', { processed });
+      }
+    } catch (error) {
+      outboxLogger.error('Request-info outbox worker error', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  // Do not keep the process alive just for the worker
+  timer.unref();
+  globalForOutbox.requestInfoOutboxWorker = timer;
+  outboxLogger.info('Request-info outbox worker started', { intervalMs });
+}
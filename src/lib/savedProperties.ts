@@ -0,0 +1,173 @@
+/**
+ * Saved Properties (Favorites)
+ *
+ * Anonymous visitors' saved properties are persisted in localStorage as a list
+ * of property IDs, most recently saved first. Components read them through
+ * `useSavedPropertyIds()`, which is built on `useSyncExternalStore` so that
+ * every Save toggle on the page, and in other open tabs, stays in sync.
+ *
+ * After a visitor syncs their list to HubSpot (see /api/saved-properties),
+ * the contact details they used are kept as the sync profile so the /saved
+ * page can offer to sync again without re-entering them.
+ *
+ * During server rendering and hydration nothing is saved; the stored values
+ * appear on the client right after hydration. This module uses React hooks,
+ * so import it from client components only.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SavedPropertiesSyncProfile {
+  firstname: string;
+  lastname: string;
+  email: string;
+  /** ISO 8601 timestamp of the last successful sync */
+  syncedAt: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Upper bound on saved properties, which also bounds a single HubSpot sync.
+ * Saving beyond the limit drops the oldest saved property.
+ */
+export const MAX_SAVED_PROPERTIES = 50;
+
+const SAVED_IDS_STORAGE_KEY = 'vrm:saved-properties';
+const SYNC_PROFILE_STORAGE_KEY = 'vrm:saved-properties-sync';
+
+/**
+ * Dispatched on `window` after this tab writes to storage. The browser's own
+ * `storage` event only fires in *other* tabs.
+ */
+const CHANGE_EVENT = 'vrm:saved-properties-change';
+
+const NO_SAVED_IDS: string[] = [];
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Reads and parses a localStorage value, caching the parsed result per raw
+ * string so that `useSyncExternalStore` receives a stable snapshot.
+ */
+function createStoredValue<T>(key: string, parse: (value: unknown) => T, fallback: T) {
+  let cachedRaw: string | null = null;
+  let cachedValue = fallback;
+
+  return {
+    get(): T {
+      let raw: string | null = null;
+      try {
+        raw = window.localStorage.getItem(key);
+      } catch {
+        // Storage can be unavailable (e.g. disabled cookies); treat as empty
+      }
+
+      if (raw !== cachedRaw) {
+        cachedRaw = raw;
+        try {
+          cachedValue = raw === null ? fallback : parse(JSON.parse(raw));
+        } catch {
+          cachedValue = fallback;
+        }
+      }
+      return cachedValue;
+    },
+
+    set(value: T | null): void {
+      try {
+        if (value === null) {
+          window.localStorage.removeItem(key);
+        } else {
+          window.localStorage.setItem(key, JSON.stringify(value));
+        }
+      } catch (error) {
+        console.warn(`Could not write ${key} to localStorage:`, error);
+      }
+      window.dispatchEvent(new Event(CHANGE_EVENT));
+    },
+  };
+}
+
+const savedIdsStore = createStoredValue<string[]>(
+  SAVED_IDS_STORAGE_KEY,
+  value => (Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : NO_SAVED_IDS),
+  NO_SAVED_IDS
+);
+
+const syncProfileStore = createStoredValue<SavedPropertiesSyncProfile | null>(
+  SYNC_PROFILE_STORAGE_KEY,
+  value => {
+    const profile = value as Partial<SavedPropertiesSyncProfile> | null;
+    return profile && typeof profile.email === 'string' ? (profile as SavedPropertiesSyncProfile) : null;
+  },
+  null
+);
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  window.addEventListener('storage', onChange);
+  return () => {
+    window.removeEventListener(CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onChange);
+  };
+}
+
+// ============================================================================
+// Saved Property IDs
+// ============================================================================
+
+export function getSavedPropertyIds(): string[] {
+  return savedIdsStore.get();
+}
+
+/**
+ * Saves or un-saves a property.
+ *
+ * @returns True when the property is saved after the toggle
+ */
+export function toggleSavedProperty(propertyId: string): boolean {
+  const ids = getSavedPropertyIds();
+
+  if (ids.includes(propertyId)) {
+    savedIdsStore.set(ids.filter(id => id !== propertyId));
+    return false;
+  }
+
+  savedIdsStore.set([propertyId, ...ids].slice(0, MAX_SAVED_PROPERTIES));
+  return true;
+}
+
+export function removeSavedProperties(propertyIds: string[]): void {
+  savedIdsStore.set(getSavedPropertyIds().filter(id => !propertyIds.includes(id)));
+}
+
+/**
+ * Returns the saved property IDs and re-renders whenever they change.
+ */
+export function useSavedPropertyIds(): string[] {
+  return useSyncExternalStore(subscribe, getSavedPropertyIds, () => NO_SAVED_IDS);
+}
+
+// ============================================================================
+// HubSpot Sync Profile
+// ============================================================================
+
+export function setSyncProfile(profile: SavedPropertiesSyncProfile | null): void {
+  syncProfileStore.set(profile);
+}
+
+/**
+ * Returns the contact details of the last HubSpot sync, if any.
+ */
+export function useSyncProfile(): SavedPropertiesSyncProfile | null {
+  return useSyncExternalStore(subscribe, syncProfileStore.get, () => null);
+}
@@ -0,0 +1,73 @@
+/**
+ * Spam-Check Fields for Inquiry Forms
+ *
+ * Every inquiry route runs the bot checks in lib/spamProtection.ts, so every
+ * inquiry form sends the same fields with its payload:
+ *
+ * - The honeypot field, rendered off-screen by `HoneypotField`
+ * - A form token from /api/form-token, fetched when the form is shown, which
+ *   the server uses to time the submission
+ * - The local stub's challenge token, when NEXT_PUBLIC_CHALLENGE_VERIFIER is
+ *   `local` (a real challenge widget would supply its own)
+ *
+ * This module uses React hooks, so import it from client components only.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { LOCAL_CHALLENGE_TOKEN } from '@/lib/challengeVerifier';
+import { CHALLENGE_TOKEN_FIELD, FORM_TOKEN_FIELD, HONEYPOT_FIELD } from '@/lib/spamProtection';
+
+// ============================================================================
+// Form Token
+// ============================================================================
+
+async function fetchFormToken(): Promise<string | undefined> {
+  try {
+    const response = await fetch('/api/form-token', { cache: 'no-store' });
+    const result = await response.json();
+    return response.ok && typeof result.token === 'string' ? result.token : undefined;
+  } catch (error) {
+    console.warn('Could not fetch a form token:', error);
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Fetches a form token once the form is on screen.
+ *
+ * @returns `honeypotRef` for the form's `HoneypotField`, and
+ * `getSpamCheckFields()`, which resolves to the fields to spread into the
+ * payload
+ */
+export function useSpamCheckFields() {
+  const honeypotRef = useRef<HTMLInputElement>(null);
+  const formToken = useRef<Promise<string | undefined> | null>(null);
+
+  // The token's issue time starts the time-to-submit clock
+  useEffect(() => {
+    formToken.current = fetchFormToken();
+  }, []);
+
+  const getSpamCheckFields = useCallback(async (): Promise<Record<string, string>> => {
+    const token = formToken.current ? await formToken.current : undefined;
+    if (!token) {
+      // This submission will be rejected as too fast; fetch a token for the next attempt
+      formToken.current = fetchFormToken();
+    }
+
+    return {
+      [HONEYPOT_FIELD]: honeypotRef.current?.value ?? '',
+      ...(token ? { [FORM_TOKEN_FIELD]: token } : {}),
+      // Stands in for a challenge widget's token when the local stub verifier is configured
+      ...(process.env.NEXT_PUBLIC_CHALLENGE_VERIFIER === 'local'
+        ? { [CHALLENGE_TOKEN_FIELD]: LOCAL_CHALLENGE_TOKEN }
+        : {}),
+    };
+  }, []);
+
+  return { honeypotRef, getSpamCheckFields };
+}
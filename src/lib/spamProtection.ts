@@ -0,0 +1,422 @@
+/**
+ * Spam and Abuse Protection
+ *
+ * Checks applied to public form submissions before anything is sent to
+ * HubSpot, so bots cannot fill the CRM with junk leads:
+ *
+ * - Rate limits per client IP and per email address
+ * - A honeypot field: hidden from people, but filled in by form-filling bots
+ * - A minimum time between the form being shown and submitted, measured from
+ *   a signed form token the server issued when the form was shown (see
+ *   /api/form-token), so the client cannot claim it waited
+ * - A challenge token, verified by the configured ChallengeVerifier (see
+ *   lib/challengeVerifier.ts)
+ *
+ * Each failed check reports a specific `SpamCheckCode`, which API routes
+ * return to the caller with the status in SPAM_CHECK_HTTP_STATUS.
+ *
+ * Rate limits are counted in memory, per server process. With several
+ * instances each one enforces the limits separately. The per-IP limit relies
+ * on the client IP reported by the trusted proxy; see getClientIp().
+ */
+
+import { getChallengeVerifier } from '@/lib/challengeVerifier';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - IP_RATE_LIMITED / EMAIL_RATE_LIMITED: too many submissions in the window
+ * - HONEYPOT_TRIGGERED: the hidden honeypot field was filled in
+ * - SUBMITTED_TOO_FAST: submitted sooner after loading than a person could
+ *   (or without a form token)
+ * - FORM_TOKEN_INVALID: the form token was forged, tampered with or expired
+ * - CHALLENGE_REQUIRED: a challenge is configured but no token was sent
+ * - CHALLENGE_FAILED: the challenge provider rejected the token
+ */
+export type SpamCheckCode =
+  | 'IP_RATE_LIMITED'
+  | 'EMAIL_RATE_LIMITED'
+  | 'HONEYPOT_TRIGGERED'
+  | 'SUBMITTED_TOO_FAST'
+  | 'FORM_TOKEN_INVALID'
+  | 'CHALLENGE_REQUIRED'
+  | 'CHALLENGE_FAILED';
+
+export type SpamCheckResult =
+  | { passed: true }
+  | {
+      passed: false;
+      code: SpamCheckCode;
+      message: string;
+      /** Set for rate limits: seconds until the caller may submit again */
+      retryAfterSeconds?: number;
+    };
+
+interface RateLimitRule {
+  /** Submissions allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+interface RateLimitBucket {
+  count: number;
+  resetAt: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Name of the honeypot field. Forms render it off-screen and leave it empty.
+ */
+export const HONEYPOT_FIELD = 'website';
+
+/**
+ * Name of the field carrying the form token, issued by /api/form-token when
+ * the form is shown.
+ */
+export const FORM_TOKEN_FIELD = 'form_token';
+
+/**
+ * Name of the field carrying the challenge token.
+ */
+export const CHALLENGE_TOKEN_FIELD = 'challenge_token';
+
+/**
+ * Submissions faster than this are treated as automated.
+ */
+export const MIN_SUBMIT_TIME_MS = 3000;
+
+/**
+ * Form tokens older than this are rejected, so a harvested token cannot be
+ * reused indefinitely.
+ */
+export const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * HTTP status returned for each rejection.
+ */
+export const SPAM_CHECK_HTTP_STATUS: Record<SpamCheckCode, number> = {
+  IP_RATE_LIMITED: 429,
+  EMAIL_RATE_LIMITED: 429,
+  HONEYPOT_TRIGGERED: 400,
+  SUBMITTED_TOO_FAST: 400,
+  FORM_TOKEN_INVALID: 400,
+  CHALLENGE_REQUIRED: 400,
+  CHALLENGE_FAILED: 403,
+};
+
+const DEFAULT_IP_RATE_LIMIT = 20;
+const IP_RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+
+const DEFAULT_EMAIL_RATE_LIMIT = 5;
+const EMAIL_RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Proxies in front of the app that append to X-Forwarded-For. Render's load
+ * balancer is the only one.
+ */
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+/**
+ * Expired buckets are swept once the store grows past this many keys.
+ */
+const RATE_LIMIT_SWEEP_THRESHOLD = 10000;
+
+// ============================================================================
+// Rate Limiting
+// ============================================================================
+
+/**
+ * Buckets live on globalThis so that every route bundle in the process
+ * shares them.
+ */
+const globalForSpamProtection = globalThis as typeof globalThis & {
+  spamProtectionRateLimits?: Map<string, RateLimitBucket>;
+};
+const rateLimitBuckets = (globalForSpamProtection.spamProtectionRateLimits ??= new Map<string, RateLimitBucket>());
+
+function getRateLimitRule(envVar: string, defaultLimit: number, windowMs: number): RateLimitRule {
+  const limit = parseInt(process.env[envVar] || '', 10);
+  return {
+    limit: Number.isInteger(limit) && limit > 0 ? limit : defaultLimit,
+    windowMs,
+  };
+}
+
+/**
+ * Counts one submission against a fixed-window limit.
+ *
+ * @returns Seconds until the window resets when the limit is exceeded, otherwise undefined
+ */
+function consumeRateLimit(key: string, rule: RateLimitRule, now: number): number | undefined {
+  if (rateLimitBuckets.size > RATE_LIMIT_SWEEP_THRESHOLD) {
+    for (const [bucketKey, bucket] of rateLimitBuckets) {
+      if (bucket.resetAt <= now) {
+        rateLimitBuckets.delete(bucketKey);
+      }
+    }
+  }
+
+  let bucket = rateLimitBuckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + rule.windowMs };
+    rateLimitBuckets.set(key, bucket);
+  }
+
+  bucket.count += 1;
+  if (bucket.count > rule.limit) {
+    return Math.ceil((bucket.resetAt - now) / 1000);
+  }
+  return undefined;
+}
+
+function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10);
+  return Number.isInteger(hops) && hops >= 0 ? hops : DEFAULT_TRUSTED_PROXY_HOPS;
+}
+
+/**
+ * Returns the client IP from the proxy headers set by the hosting platform.
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, and the client can send any entries it likes ahead of
+ * them. So the client IP is the entry added by the outermost trusted proxy,
+ * TRUSTED_PROXY_HOPS entries from the right (default: 1, the rightmost);
+ * anything further left is ignored. X-Real-IP can be set by the client too,
+ * so it is only used, as a fallback, when TRUST_X_REAL_IP=true says the proxy
+ * overwrites it.
+ */
+export function getClientIp(headers: Headers): string {
+  const hops = getTrustedProxyHops();
+  if (hops > 0) {
+    const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    const clientIp = forwardedFor[Math.max(0, forwardedFor.length - hops)];
+    if (clientIp) {
+      return clientIp;
+    }
+  }
+
+  if (process.env.TRUST_X_REAL_IP === 'true') {
+    return headers.get('x-real-ip')?.trim() || 'unknown';
+  }
+  return 'unknown';
+}
+
+/**
+ * Counts a submission from `ip` against REQUEST_INFO_RATE_LIMIT_PER_IP
+ * (default: 20 per 15 minutes).
+ */
+export function checkIpRateLimit(ip: string, now: number = Date.now()): SpamCheckResult {
+  const rule = getRateLimitRule('REQUEST_INFO_RATE_LIMIT_PER_IP', DEFAULT_IP_RATE_LIMIT, IP_RATE_LIMIT_WINDOW_MS);
+  const retryAfterSeconds = consumeRateLimit(`ip:${ip}`, rule, now);
+  if (retryAfterSeconds === undefined) {
+    return { passed: true };
+  }
+  return {
+    passed: false,
+    code: 'IP_RATE_LIMITED',
+    message: 'Too many submissions from your network. Please try again later.',
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * Counts a submission for `email` against REQUEST_INFO_RATE_LIMIT_PER_EMAIL
+ * (default: 5 per hour).
+ */
+export function checkEmailRateLimit(email: string, now: number = Date.now()): SpamCheckResult {
+  const rule = getRateLimitRule('REQUEST_INFO_RATE_LIMIT_PER_EMAIL', DEFAULT_EMAIL_RATE_LIMIT, EMAIL_RATE_LIMIT_WINDOW_MS);
+  const retryAfterSeconds = consumeRateLimit(`email:${email.trim().toLowerCase()}`, rule, now);
+  if (retryAfterSeconds === undefined) {
+    return { passed: true };
+  }
+  return {
+    passed: false,
+    code: 'EMAIL_RATE_LIMITED',
+    message: 'Too many submissions for this email address. Please try again later.',
+    retryAfterSeconds,
+  };
+}
+
+// ============================================================================
+// Form Tokens
+// ============================================================================
+
+/**
+ * A form token is `<issuedAt>.<signature>`: the issue time in milliseconds
+ * and an HMAC-SHA256 of it, keyed with FORM_TOKEN_SECRET. Tokens use Web
+ * Crypto, so this module stays importable from client components for its
+ * field names.
+ *
+ * Without FORM_TOKEN_SECRET, a random key is generated per server process:
+ * tokens then stop verifying after a restart, and on other instances.
+ */
+const globalForFormTokens = globalThis as typeof globalThis & {
+  formTokenKey?: { secret: string; key: Promise<CryptoKey> };
+};
+
+function getFormTokenKey(): Promise<CryptoKey> {
+  const secret = process.env.FORM_TOKEN_SECRET
+    || globalForFormTokens.formTokenKey?.secret
+    || Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+  if (globalForFormTokens.formTokenKey?.secret !== secret) {
+    globalForFormTokens.formTokenKey = {
+      secret,
+      key: crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+      ),
+    };
+  }
+  return globalForFormTokens.formTokenKey.key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | undefined {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, character => character.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Issues a form token for a form shown at `issuedAt`. Server-side only.
+ */
+export async function issueFormToken(issuedAt: number = Date.now()): Promise<string> {
+  const payload = String(Math.floor(issuedAt));
+  const signature = await crypto.subtle.sign('HMAC', await getFormTokenKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a form token's signature.
+ *
+ * @returns The time the token was issued, or undefined when it is not valid
+ */
+async function verifyFormToken(token: string): Promise<number | undefined> {
+  const match = token.match(/^(\d{1,15})\.([A-Za-z0-9_-]+)$/);
+  const signature = match ? fromBase64Url(match[2]) : undefined;
+  if (!match || !signature) {
+    return undefined;
+  }
+
+  const valid = await crypto.subtle.verify('HMAC', await getFormTokenKey(), signature, new TextEncoder().encode(match[1]));
+  return valid ? Number(match[1]) : undefined;
+}
+
+// ============================================================================
+// Bot Checks
+// ============================================================================
+
+/**
+ * Fails when the honeypot field holds anything.
+ */
+export function checkHoneypot(value: unknown): SpamCheckResult {
+  if (value === undefined || value === null || value === '') {
+    return { passed: true };
+  }
+  return {
+    passed: false,
+    code: 'HONEYPOT_TRIGGERED',
+    message: 'Submission rejected.',
+  };
+}
+
+/**
+ * Fails when the form token is missing, was not issued by this server or has
+ * expired, or when the form was submitted less than MIN_SUBMIT_TIME_MS after
+ * the token was issued.
+ *
+ * @param token - The FORM_TOKEN_FIELD value sent by the form
+ */
+export async function checkSubmitTiming(token: unknown, now: number = Date.now()): Promise<SpamCheckResult> {
+  if (typeof token !== 'string' || token === '') {
+    return {
+      passed: false,
+      code: 'SUBMITTED_TOO_FAST',
+      message: 'The form was submitted too quickly. Please wait a moment and try again.',
+    };
+  }
+
+  const issuedAt = await verifyFormToken(token);
+  if (issuedAt === undefined || issuedAt > now || now - issuedAt > FORM_TOKEN_MAX_AGE_MS) {
+    return {
+      passed: false,
+      code: 'FORM_TOKEN_INVALID',
+      message: 'This form has expired. Please reload the page and try again.',
+    };
+  }
+
+  if (now - issuedAt < MIN_SUBMIT_TIME_MS) {
+    return {
+      passed: false,
+      code: 'SUBMITTED_TOO_FAST',
+      message: 'The form was submitted too quickly. Please wait a moment and try again.',
+    };
+  }
+
+  return { passed: true };
+}
+
+/**
+ * Verifies the challenge token with the configured verifier. Passes when
+ * challenges are disabled.
+ */
+export async function checkChallenge(token: unknown, remoteIp?: string): Promise<SpamCheckResult> {
+  const verifier = getChallengeVerifier();
+  if (!verifier) {
+    return { passed: true };
+  }
+
+  if (typeof token !== 'string' || token.trim() === '') {
+    return {
+      passed: false,
+      code: 'CHALLENGE_REQUIRED',
+      message: 'Please complete the verification challenge.',
+    };
+  }
+
+  const result = await verifier(token.trim(), { remoteIp });
+  if (result.success) {
+    return { passed: true };
+  }
+  return {
+    passed: false,
+    code: 'CHALLENGE_FAILED',
+    message: 'Verification failed. Please try again.',
+  };
+}
+
+/**
+ * Runs the bot checks that need no state on a submitted form body: honeypot,
+ * time-to-submit and the challenge token. Returns the first failure.
+ */
+export async function checkBotSignals(body: Record<string, unknown>, clientIp: string): Promise<SpamCheckResult> {
+  const honeypot = checkHoneypot(body[HONEYPOT_FIELD]);
+  if (!honeypot.passed) {
+    return honeypot;
+  }
+
+  const timing = await checkSubmitTiming(body[FORM_TOKEN_FIELD]);
+  if (!timing.passed) {
+    return timing;
+  }
+
+  return checkChallenge(body[CHALLENGE_TOKEN_FIELD], clientIp);
+}
@@ -0,0 +1,123 @@
+/**
+ * Tour Scheduling
+ *
+ * Shared by the tour request form and /api/tour-request so that both offer
+ * and accept the same slots. A tour request carries one to
+ * MAX_PREFERRED_SLOTS preferred slots, each a calendar date plus a start time.
+ *
+ * Dates and times are the property's local time; the listing agent confirms
+ * the final appointment, so no time zone conversion is attempted.
+ *
+ * These helpers are pure and safe to import from client components.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TourType = 'in-person' | 'virtual';
+
+export interface TourSlot {
+  /** Calendar date, YYYY-MM-DD */
+  date: string;
+  /** Start time, HH:MM (24-hour) */
+  time: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TOUR_TYPE_LABELS: Record<TourType, string> = {
+  'in-person': 'In-Person Tour',
+  'virtual': 'Virtual Tour',
+};
+
+export const TOUR_TYPES = Object.keys(TOUR_TYPE_LABELS) as TourType[];
+
+/**
+ * Hourly tour start times offered to buyers.
+ */
+export const TOUR_TIMES = ['09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00', '17:00'];
+
+export const MAX_PREFERRED_SLOTS = 3;
+
+/**
+ * Tours can be requested from tomorrow up to this many days ahead.
+ */
+export const TOUR_BOOKING_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the dates a tour can be requested for, starting tomorrow in the
+ * runtime's local calendar (the buyer's, when called in the browser).
+ */
+export function getTourDates(now: number = Date.now()): string[] {
+  return Array.from({ length: TOUR_BOOKING_WINDOW_DAYS }, (_, day) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() + day + 1);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const dayOfMonth = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${dayOfMonth}`;
+  });
+}
+
+/**
+ * Checks that a slot is on an offered time and inside the booking window.
+ * One extra day is allowed on each side because the buyer's calendar day can
+ * differ from the server's (UTC) day.
+ */
+export function isValidTourSlot(slot: TourSlot, now: number = Date.now()): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(slot.date) || !TOUR_TIMES.includes(slot.time)) {
+    return false;
+  }
+
+  const date = Date.parse(`${slot.date}T00:00:00Z`);
+  if (Number.isNaN(date) || toDateString(date) !== slot.date) {
+    return false;
+  }
+
+  const today = Date.parse(`${toDateString(now)}T00:00:00Z`);
+  return date >= today && date <= today + (TOUR_BOOKING_WINDOW_DAYS + 1) * DAY_MS;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Formats a tour date, e.g. "Tue, Oct 20".
+ */
+export function formatTourDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Formats a tour start time, e.g. "2:00 PM".
+ */
+export function formatTourTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Formats a slot, e.g. "Tue, Oct 20 at 2:00 PM".
+ */
+export function formatTourSlot(slot: TourSlot): string {
+  return `${formatTourDate(slot.date)} at ${formatTourTime(slot.time)}`;
+}